@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { graphToDot, graphToGraphML, graphToMermaid } from '../../shared/graphExport';
+
+// Shaped like a /function/graph response
+const graph = {
+  nodes: [
+    { data: { id: 'pkg/a::main@a.go:1:1', label: 'main', kind: 'function', package: 'pkg/a', file: null, fan_in: 0 } },
+    { data: { id: 'ext::fmt.Println', label: 'fmt.Println', kind: 'function', package: null } },
+  ],
+  edges: [
+    { data: { id: 'edge-0', source: 'pkg/a::main@a.go:1:1', target: 'ext::fmt.Println', kind: 'call' } },
+    { data: { id: 'edge-1', source: 'ext::fmt.Println', target: 'pkg/a::main@a.go:1:1', kind: 'dfg' } },
+  ],
+};
+
+describe('Graph export serializers', () => {
+  it('should write DOT named after the function with only non-call edges labelled', () => {
+    const dot = graphToDot(graph, 'main');
+    expect(dot.startsWith('digraph "main" {\n')).toBe(true);
+    expect(dot).toContain('  "pkg/a::main@a.go:1:1" -> "ext::fmt.Println";');
+    expect(dot).toContain('  "ext::fmt.Println" -> "pkg/a::main@a.go:1:1" [label="dfg"];');
+  });
+
+  it('should type GraphML keys from the scalar fields and skip null values', () => {
+    const graphml = graphToGraphML(graph);
+    expect(graphml).toContain('<key id="n_fan_in" for="node" attr.name="fan_in" attr.type="double"/>');
+    expect(graphml).toContain('<key id="n_package" for="node" attr.name="package" attr.type="string"/>');
+    expect(graphml).not.toContain('n_file');
+    expect(graphml.match(/<data key="n_package">/g)).toHaveLength(1);
+  });
+
+  it('should number Mermaid nodes and draw compound parents as subgraphs', () => {
+    const mermaid = graphToMermaid({
+      nodes: [
+        { data: { id: 'pkg/a', label: 'pkg/a' } },
+        { data: { id: 'pkg/a::main@a.go:1:1', label: 'main', parent: 'pkg/a' } },
+        { data: { id: 'pkg/b', label: 'pkg/b' } },
+      ],
+      edges: [{ data: { id: 'edge-0', source: 'pkg/a::main@a.go:1:1', target: 'pkg/b', kind: 'call' } }],
+    });
+    expect(mermaid).toBe([
+      'flowchart LR',
+      '  subgraph n0 ["pkg/a"]',
+      '    n1["main"]',
+      '  end',
+      '  n2["pkg/b"]',
+      '  n1 --> n2',
+      '',
+    ].join('\n'));
+  });
+});
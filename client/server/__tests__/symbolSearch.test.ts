@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  SymbolEntry,
+  identifierWords,
+  indexSymbols,
+  matchesWordPrefixes,
+  parseSymbolQuery,
+  rankSymbol,
+  symbolCandidates,
+} from '../symbolSearch';
+import { validateSearchQuery } from '../validation';
+
+describe('Symbol search', () => {
+  describe('parseSymbolQuery', () => {
+    it('should split kind and pkg filters from the name text', () => {
+      const result = parseSymbolQuery('kind:type,Method Handle pkg:scrape');
+      expect(result.valid).toBe(true);
+      expect(result.query).toEqual({ text: 'handle', kinds: ['type', 'method'], packages: ['scrape'] });
+    });
+
+    it('should match names and packages containing underscores', () => {
+      const result = parseSymbolQuery(validateSearchQuery('remote_write pkg:client_golang').sanitized);
+      expect(result.query).toEqual({ text: 'remote_write', kinds: [], packages: ['client_golang'] });
+    });
+
+    it('should accept filters without name text', () => {
+      expect(parseSymbolQuery('pkg:a pkg:b').query).toEqual({ text: '', kinds: [], packages: ['a', 'b'] });
+    });
+
+    it('should reject unknown kinds', () => {
+      const result = parseSymbolQuery('kind:struct Foo');
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Kind must be one of');
+    });
+  });
+
+  describe('matchesWordPrefixes', () => {
+    it('should split identifiers at camel-case, acronym and digit boundaries', () => {
+      expect(identifierWords('handleHTTPRequest2_v')).toEqual(['handle', 'http', 'request', '2', 'v']);
+    });
+
+    it('should match initials and word prefixes in order', () => {
+      const words = identifierWords('handleHTTPRequest');
+      expect(matchesWordPrefixes(words, 'hr')).toBe(true);
+      expect(matchesWordPrefixes(words, 'handreq')).toBe(true);
+      expect(matchesWordPrefixes(words, 'hhr')).toBe(true);
+    });
+
+    it('should not match out of order or across word middles', () => {
+      const words = identifierWords('handleHTTPRequest');
+      expect(matchesWordPrefixes(words, 'rh')).toBe(false);
+      expect(matchesWordPrefixes(words, 'andle')).toBe(false);
+    });
+  });
+
+  describe('symbolCandidates', () => {
+    const entry = (name: string, pkg: string, qualified = name): SymbolEntry => ({
+      id: `${pkg}::${name}`,
+      name,
+      kind: 'function',
+      package: pkg,
+      file: null,
+      line: null,
+      signature: null,
+      search: name.toLowerCase(),
+      qualified: qualified.toLowerCase(),
+      words: identifierWords(name),
+    });
+    const entries = [
+      entry('handleHTTPRequest', 'net/http'),
+      entry('remote_write', 'client_golang/api'),
+      entry('Collect', 'client_golang/prometheus', 'Registry.Collect'),
+      entry('x', 'pkg/a'),
+    ];
+    const index = indexSymbols(entries);
+    const names = (text: string, packages: string[] = []) =>
+      symbolCandidates(index, { text, kinds: [], packages }).map(position => entries[position].name);
+
+    it('should find substring and camel-case candidates through the index', () => {
+      expect(names('andle')).toEqual(['handleHTTPRequest']);
+      expect(names('hr')).toEqual(['handleHTTPRequest']);
+      expect(names('te_w')).toEqual(['remote_write']);
+      expect(names('registry.col')).toEqual(['Collect']);
+      expect(names('zzz')).toEqual([]);
+    });
+
+    it('should narrow candidates to packages containing the filter', () => {
+      expect(names('', ['client_golang'])).toEqual(['remote_write', 'Collect']);
+      expect(names('write', ['prometheus'])).toEqual([]);
+    });
+
+    it('should return every match a full scan finds', () => {
+      for (const text of ['h', 'ht', 'hhr', 'handreq', 'remote_write', 'ct', 'collect', 'x']) {
+        const scanned = entries.filter(e => rankSymbol(e, text) >= 0).map(e => e.name);
+        expect(names(text).filter(name => scanned.includes(name))).toEqual(scanned);
+      }
+    });
+  });
+});
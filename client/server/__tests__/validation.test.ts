@@ -1,85 +1,13 @@
 import { describe, it, expect } from '@jest/globals';
-
-// Import validation functions from index.ts
-// Since they're not exported, we'll test them indirectly via API or extract them
-// For now, let's create testable versions
-
-const MAX_QUERY_LENGTH = 200;
-const MAX_ID_LENGTH = 500;
-const MIN_QUERY_LENGTH = 1;
-
-function validateFunctionId(id: string): { valid: boolean; error?: string } {
-  if (!id || typeof id !== 'string') {
-    return { valid: false, error: "Function ID is required" };
-  }
-  
-  const trimmed = id.trim();
-  if (trimmed === '') {
-    return { valid: false, error: "Function ID cannot be empty" };
-  }
-  
-  if (trimmed.length > MAX_ID_LENGTH) {
-    return { valid: false, error: `Function ID too long (max ${MAX_ID_LENGTH} characters)` };
-  }
-  
-  if (!/^[a-zA-Z0-9:_/@.\-]+$/.test(trimmed)) {
-    return { valid: false, error: "Function ID contains invalid characters" };
-  }
-  
-  return { valid: true };
-}
-
-function validateSearchQuery(query: string): { valid: boolean; sanitized: string; error?: string } {
-  if (typeof query !== 'string') {
-    return { valid: false, sanitized: '', error: "Query must be a string" };
-  }
-  
-  let sanitized = query.trim();
-  
-  if (sanitized.length > 0 && sanitized.length < MIN_QUERY_LENGTH) {
-    return { valid: false, sanitized: '', error: `Query too short (min ${MIN_QUERY_LENGTH} character)` };
-  }
-  
-  if (sanitized.length > MAX_QUERY_LENGTH) {
-    sanitized = sanitized.substring(0, MAX_QUERY_LENGTH);
-  }
-  
-  sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
-  sanitized = sanitized.replace(/[%_]/g, '\\$&');
-  
-  return { valid: true, sanitized };
-}
-
-function sanitizeNodeId(nodeId: string): { valid: boolean; sanitized: string; error?: string } {
-  if (!nodeId || typeof nodeId !== 'string') {
-    return { valid: false, sanitized: '', error: "Node ID is required" };
-  }
-  
-  let sanitized: string;
-  try {
-    sanitized = decodeURIComponent(nodeId);
-  } catch (e) {
-    sanitized = nodeId;
-  }
-  
-  sanitized = sanitized.trim();
-  
-  if (sanitized === '') {
-    return { valid: false, sanitized: '', error: "Node ID cannot be empty" };
-  }
-  
-  if (sanitized.length > MAX_ID_LENGTH) {
-    return { valid: false, sanitized: '', error: `Node ID too long (max ${MAX_ID_LENGTH} characters)` };
-  }
-  
-  sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
-  
-  if (!/^[a-zA-Z0-9:_/@.\-]+$/.test(sanitized)) {
-    return { valid: false, sanitized: '', error: "Node ID contains invalid characters" };
-  }
-  
-  return { valid: true, sanitized };
-}
+import {
+  MAX_ID_LENGTH,
+  MAX_QUERY_LENGTH,
+  extractQueryParams,
+  parseBoundedInt,
+  sanitizeNodeId,
+  validateFunctionId,
+  validateSearchQuery,
+} from '../validation';
 
 describe('Validation Functions', () => {
   describe('validateFunctionId', () => {
@@ -134,7 +62,6 @@ describe('Validation Functions', () => {
     });
 
     it('should reject non-string inputs', () => {
-      // @ts-expect-error - testing invalid input
       expect(validateFunctionId(null)).toEqual({
         valid: false,
         error: "Function ID is required"
@@ -175,14 +102,9 @@ describe('Validation Functions', () => {
       expect(result.sanitized).toBe('Collect');
     });
 
-    it('should escape SQL LIKE special characters', () => {
-      const result = validateSearchQuery('test%query');
-      expect(result.valid).toBe(true);
-      expect(result.sanitized).toBe('test\\%query');
-      
-      const result2 = validateSearchQuery('test_query');
-      expect(result.valid).toBe(true);
-      expect(result2.sanitized).toBe('test\\_query');
+    it('should keep underscores and percent signs literal', () => {
+      expect(validateSearchQuery('test%query').sanitized).toBe('test%query');
+      expect(validateSearchQuery('remote_write').sanitized).toBe('remote_write');
     });
 
     it('should truncate queries that are too long', () => {
@@ -201,7 +123,6 @@ describe('Validation Functions', () => {
     });
 
     it('should reject non-string inputs', () => {
-      // @ts-expect-error - testing invalid input
       const result = validateSearchQuery(null);
       expect(result.valid).toBe(false);
       expect(result.error).toContain('string');
@@ -223,6 +144,19 @@ describe('Validation Functions', () => {
       });
     });
 
+    it('should accept pointer and generic receiver IDs', () => {
+      const receiverIds = [
+        'storage/remote::*Store.Write@write.go:10:1',
+        'util/cache::*Map[K, V].Load@map.go:24:1',
+        'ext::(*sync.Mutex).Lock',
+      ];
+
+      receiverIds.forEach(id => {
+        expect(sanitizeNodeId(id)).toEqual({ valid: true, sanitized: id });
+        expect(sanitizeNodeId(encodeURIComponent(id))).toEqual({ valid: true, sanitized: id });
+      });
+    });
+
     it('should decode URL-encoded IDs', () => {
       const encoded = encodeURIComponent('package::function@file.go:10:5');
       const result = sanitizeNodeId(encoded);
@@ -264,4 +198,49 @@ describe('Validation Functions', () => {
       expect(result).toHaveProperty('valid');
     });
   });
+
+  describe('parseBoundedInt', () => {
+    it('should fall back to the default when the parameter is missing', () => {
+      expect(parseBoundedInt(undefined, 'Depth', 3, 1, 5)).toEqual({ valid: true, value: 3 });
+      expect(parseBoundedInt('', 'Depth', 3, 1, 5)).toEqual({ valid: true, value: 3 });
+    });
+
+    it('should accept values within bounds', () => {
+      expect(parseBoundedInt('1', 'Depth', 3, 1, 5)).toEqual({ valid: true, value: 1 });
+      expect(parseBoundedInt('5', 'Depth', 3, 1, 5)).toEqual({ valid: true, value: 5 });
+    });
+
+    it('should reject values out of bounds', () => {
+      const result = parseBoundedInt('6', 'Depth', 3, 1, 5);
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('Depth must be between 1 and 5');
+      expect(parseBoundedInt('0', 'Depth', 3, 1, 5).valid).toBe(false);
+    });
+
+    it('should reject non-integer input', () => {
+      const invalidValues = ['-1', '2.5', 'abc', '3; DROP TABLE'];
+
+      invalidValues.forEach(value => {
+        const result = parseBoundedInt(value, 'Depth', 3, 1, 5);
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('non-negative integer');
+      });
+    });
+  });
+
+  describe('extractQueryParams', () => {
+    it('should list named parameters once, in order of first use', () => {
+      const sql = 'SELECT :function_id, 0, :function_id UNION SELECT * FROM edges WHERE target = :node_id';
+      expect(extractQueryParams(sql)).toEqual(['function_id', 'node_id']);
+    });
+
+    it('should ignore colons inside string literals and comments', () => {
+      const sql = "SELECT c.path || ' -> :x' || e.target -- :comment\nFROM chain c WHERE c.id = :block_id";
+      expect(extractQueryParams(sql)).toEqual(['block_id']);
+    });
+
+    it('should return no parameters for a plain query', () => {
+      expect(extractQueryParams('SELECT * FROM v_package_deps ORDER BY call_count DESC')).toEqual([]);
+    });
+  });
 });
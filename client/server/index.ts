@@ -1,347 +1,2953 @@
-import Fastify from "fastify";
+import Fastify, { FastifyBaseLogger, FastifyReply } from "fastify";
 import * as Database from "better-sqlite3";
 import cors from "@fastify/cors";
+import * as fs from "fs";
+import * as path from "path";
+import { spawn } from "child_process";
+import { graphToDot, graphToGraphML, graphToMermaid } from "../shared/graphExport";
+import { MAX_ID_LENGTH, extractQueryParams, parseBoundedInt, sanitizeNodeId, validateSearchQuery } from "./validation";
+import {
+  SymbolEntry,
+  SymbolIndex,
+  SymbolKind,
+  identifierWords,
+  indexSymbols,
+  parseSymbolQuery,
+  rankSymbol,
+  symbolCandidates
+} from "./symbolSearch";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    // The database picked by the ?db= selector
+    cpg: CpgDatabase;
+  }
+}
 
 // Constants for input validation
-const MAX_QUERY_LENGTH = 200;
-const MAX_ID_LENGTH = 500;
 const MAX_NODES_IN_GRAPH = 1000;
-const MIN_QUERY_LENGTH = 1;
+const DEFAULT_GRAPH_DEPTH = 1;
+const MAX_GRAPH_DEPTH = 5;
+const GRAPH_DIRECTIONS = ['callers', 'callees', 'both'] as const;
+const DEFAULT_PATH_COUNT = 3;
+const MAX_PATH_COUNT = 10;
+const DEFAULT_PATH_DEPTH = 6;
+const MAX_PATH_DEPTH = 10;
+const MAX_PATH_SEARCH_NODES = 50000;
+const MAX_EDGE_KINDS = 20;
+const NEIGHBOR_DIRECTIONS = ['in', 'out', 'both'] as const;
+const DEFAULT_QUERY_ROW_LIMIT = 500;
+const MAX_QUERY_ROW_LIMIT = 5000;
+const QUERY_TIMEOUT_MS = 5000;
+// Rows a stored query sends back per message
+const QUERY_ROW_BATCH = 200;
+const DEFAULT_FINDINGS_PAGE_SIZE = 50;
+const MAX_FINDINGS_PAGE_SIZE = 500;
+const FINDING_SEVERITIES = ['error', 'warning', 'info'] as const;
+const DASHBOARD_METRICS = ['complexity', 'loc', 'fan_in', 'fan_out'] as const;
+const DEFAULT_DASHBOARD_LIMIT = 10;
+const MAX_DASHBOARD_LIMIT = 200;
+const MAX_EXPANDED_PACKAGES = 10;
+const DEFAULT_USAGE_LIMIT = 500;
+const MAX_USAGE_LIMIT = 5000;
+const DEFAULT_SYMBOL_PAGE_SIZE = 50;
+const MAX_SYMBOL_PAGE_SIZE = 200;
+const DEFAULT_TAINT_SINK_LIMIT = 200;
+const MAX_TAINT_SINK_LIMIT = 2000;
+const MAX_TAINT_HOTSPOTS = 500;
+const SLICE_DIRECTIONS = ['backward', 'forward'] as const;
+// Edge kinds each slice query follows, used to pick seed nodes and draw the slice
+const SLICE_EDGE_KINDS = { backward: ['dfg', 'param_in'], forward: ['dfg', 'param_out'] } as const;
+const DEFAULT_SLICE_DEPTH = 10;
+const MAX_SLICE_DEPTH = 20;
+const MAX_SLICE_SEEDS = 20;
+const DEFAULT_RISK_FILE_LIMIT = 20;
+// How often a database file is checked for changes on disk, at most
+const DB_RELOAD_CHECK_MS = 2000;
+// Text formats the graph endpoints can answer in besides JSON, with their content types
+const EXPORT_FORMATS = {
+  json: 'application/json; charset=utf-8',
+  dot: 'text/vnd.graphviz; charset=utf-8',
+  graphml: 'application/graphml+xml; charset=utf-8',
+  mermaid: 'text/plain; charset=utf-8'
+} as const;
+// Metric columns compared between snapshots by /diff
+const DIFF_METRICS = ['cyclomatic_complexity', 'loc', 'fan_in', 'fan_out', 'num_params'] as const;
+const MAX_RISK_FILE_LIMIT = 500;
+
+type GraphDirection = typeof GRAPH_DIRECTIONS[number];
+type NeighborDirection = typeof NEIGHBOR_DIRECTIONS[number];
 
 // Validation helpers
-function validateFunctionId(id: string): { valid: boolean; error?: string } {
-  if (!id || typeof id !== 'string') {
-    return { valid: false, error: "Function ID is required" };
-  }
-  
-  const trimmed = id.trim();
-  if (trimmed === '') {
-    return { valid: false, error: "Function ID cannot be empty" };
-  }
-  
-  if (trimmed.length > MAX_ID_LENGTH) {
-    return { valid: false, error: `Function ID too long (max ${MAX_ID_LENGTH} characters)` };
-  }
-  
-  // Allow: alphanumeric, colons, slashes, dots, @, hyphens, underscores
-  // This matches Go function ID format: package::function@file:line:col
-  if (!/^[a-zA-Z0-9:_/@.\-]+$/.test(trimmed)) {
-    return { valid: false, error: "Function ID contains invalid characters" };
-  }
-  
-  return { valid: true };
-}
-
-function validateSearchQuery(query: string): { valid: boolean; sanitized: string; error?: string } {
-  if (typeof query !== 'string') {
-    return { valid: false, sanitized: '', error: "Query must be a string" };
-  }
-  
-  // Trim whitespace
-  let sanitized = query.trim();
-  
-  // Check minimum length (but allow empty for "show all")
-  if (sanitized.length > 0 && sanitized.length < MIN_QUERY_LENGTH) {
-    return { valid: false, sanitized: '', error: `Query too short (min ${MIN_QUERY_LENGTH} character)` };
-  }
-  
-  // Limit maximum length
-  if (sanitized.length > MAX_QUERY_LENGTH) {
-    sanitized = sanitized.substring(0, MAX_QUERY_LENGTH);
-  }
-  
-  // Remove null bytes and control characters (except newlines and tabs)
-  sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
-  
-  // Escape special LIKE characters to prevent injection
-  // In SQL LIKE, % and _ are wildcards, so we escape them
-  sanitized = sanitized.replace(/[%_]/g, '\\$&');
-  
-  return { valid: true, sanitized };
-}
-
-function sanitizeNodeId(nodeId: string): { valid: boolean; sanitized: string; error?: string } {
-  if (!nodeId || typeof nodeId !== 'string') {
-    return { valid: false, sanitized: '', error: "Node ID is required" };
-  }
-  
-  let sanitized: string;
-  try {
-    // Decode URL encoding
-    sanitized = decodeURIComponent(nodeId);
-  } catch (e) {
-    // If decoding fails, use as-is but log warning
-    sanitized = nodeId;
-  }
-  
-  sanitized = sanitized.trim();
-  
-  if (sanitized === '') {
-    return { valid: false, sanitized: '', error: "Node ID cannot be empty" };
-  }
-  
-  if (sanitized.length > MAX_ID_LENGTH) {
-    return { valid: false, sanitized: '', error: `Node ID too long (max ${MAX_ID_LENGTH} characters)` };
-  }
-  
-  // Remove null bytes and control characters
-  sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
-  
-  // Validate format: allow alphanumeric, colons, slashes, dots, @, hyphens, underscores
-  if (!/^[a-zA-Z0-9:_/@.\-]+$/.test(sanitized)) {
-    return { valid: false, sanitized: '', error: "Node ID contains invalid characters" };
-  }
-  
-  return { valid: true, sanitized };
+function validateExportFormat(raw?: string): { valid: boolean; format: ExportFormat; error?: string } {
+  if (raw === undefined || raw === '') {
+    return { valid: true, format: 'json' };
+  }
+  if (!Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, raw)) {
+    return { valid: false, format: 'json', error: `Format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` };
+  }
+  return { valid: true, format: raw as ExportFormat };
 }
 
-// Type definitions
-interface FunctionRow {
-  id: string;
-  name: string;
+function validateGraphOptions(
+  rawDepth?: string,
+  rawDirection?: string
+): { valid: boolean; depth: number; direction: GraphDirection; error?: string } {
+  const fallback = { depth: DEFAULT_GRAPH_DEPTH, direction: 'both' as GraphDirection };
+
+  const depthResult = parseBoundedInt(rawDepth, 'Depth', DEFAULT_GRAPH_DEPTH, 1, MAX_GRAPH_DEPTH);
+  if (!depthResult.valid) {
+    return { valid: false, ...fallback, error: depthResult.error };
+  }
+  const depth = depthResult.value;
+
+  let direction: GraphDirection = 'both';
+  if (rawDirection !== undefined && rawDirection !== '') {
+    if (!(GRAPH_DIRECTIONS as readonly string[]).includes(rawDirection)) {
+      return { valid: false, ...fallback, error: `Direction must be one of: ${GRAPH_DIRECTIONS.join(', ')}` };
+    }
+    direction = rawDirection as GraphDirection;
+  }
+
+  return { valid: true, depth, direction };
+}
+
+function validateEdgeKinds(raw?: string): { valid: boolean; kinds: string[]; error?: string } {
+  if (!raw || typeof raw !== 'string' || raw.trim() === '') {
+    return { valid: false, kinds: [], error: "At least one edge kind is required" };
+  }
+
+  const kinds = Array.from(new Set(raw.split(',').map(kind => kind.trim()).filter(kind => kind !== '')));
+  if (kinds.length === 0) {
+    return { valid: false, kinds: [], error: "At least one edge kind is required" };
+  }
+
+  if (kinds.length > MAX_EDGE_KINDS) {
+    return { valid: false, kinds: [], error: `Too many edge kinds (max ${MAX_EDGE_KINDS})` };
+  }
+
+  // Edge kinds are lowercase identifiers like dfg, cfg, defer_order
+  const invalid = kinds.find(kind => !/^[a-z_]{1,50}$/.test(kind));
+  if (invalid) {
+    return { valid: false, kinds: [], error: `Invalid edge kind: ${invalid.substring(0, 50)}` };
+  }
+
+  return { valid: true, kinds };
+}
+
+function validatePackageList(raw?: string): { valid: boolean; packages: string[]; error?: string } {
+  if (!raw || typeof raw !== 'string' || raw.trim() === '') {
+    return { valid: true, packages: [] };
+  }
+
+  const packages = Array.from(new Set(raw.split(',').map(pkg => pkg.trim()).filter(pkg => pkg !== '')));
+  if (packages.length > MAX_EXPANDED_PACKAGES) {
+    return { valid: false, packages: [], error: `Too many packages (max ${MAX_EXPANDED_PACKAGES})` };
+  }
+
+  const invalid = packages.find(pkg => pkg.length > MAX_ID_LENGTH);
+  if (invalid) {
+    return { valid: false, packages: [], error: "Package name too long" };
+  }
+
+  return { valid: true, packages };
+}
+
+function validateQueryParams(
+  expected: string[],
+  raw: unknown
+): { valid: boolean; params: Record<string, string>; error?: string } {
+  if (raw !== undefined && (raw === null || typeof raw !== 'object' || Array.isArray(raw))) {
+    return { valid: false, params: {}, error: "Query parameters must be an object" };
+  }
+  const provided = (raw || {}) as Record<string, unknown>;
+
+  const unknown = Object.keys(provided).find(key => !expected.includes(key));
+  if (unknown) {
+    return { valid: false, params: {}, error: `Unknown query parameter: ${unknown.substring(0, 50)}` };
+  }
+
+  const params: Record<string, string> = {};
+  for (const name of expected) {
+    const value = provided[name];
+    if (typeof value !== 'string' || value.trim() === '') {
+      return { valid: false, params: {}, error: `Query parameter "${name}" is required` };
+    }
+    if (value.length > MAX_ID_LENGTH) {
+      return { valid: false, params: {}, error: `Query parameter "${name}" too long (max ${MAX_ID_LENGTH} characters)` };
+    }
+    params[name] = value.trim();
+  }
+
+  return { valid: true, params };
+}
+
+function validateFindingFilters(raw: {
+  category?: string;
+  severity?: string;
+  package?: string;
+  file?: string;
+}): { valid: boolean; filters: { category?: string; severity?: string; package?: string; file?: string }; error?: string } {
+  const filters: { category?: string; severity?: string; package?: string; file?: string } = {};
+
+  if (raw.category) {
+    if (!/^[a-z_]{1,50}$/.test(raw.category)) {
+      return { valid: false, filters: {}, error: "Invalid finding category" };
+    }
+    filters.category = raw.category;
+  }
+
+  if (raw.severity) {
+    if (!(FINDING_SEVERITIES as readonly string[]).includes(raw.severity)) {
+      return { valid: false, filters: {}, error: `Severity must be one of: ${FINDING_SEVERITIES.join(', ')}` };
+    }
+    filters.severity = raw.severity;
+  }
+
+  for (const key of ['package', 'file'] as const) {
+    const value = raw[key];
+    if (!value) continue;
+    const trimmed = value.trim();
+    if (trimmed.length > MAX_ID_LENGTH) {
+      return { valid: false, filters: {}, error: `${key === 'package' ? 'Package' : 'File'} filter too long (max ${MAX_ID_LENGTH} characters)` };
+    }
+    if (trimmed !== '') {
+      filters[key] = trimmed;
+    }
+  }
+
+  return { valid: true, filters };
 }
 
+// Type definitions
 interface GraphNode {
   data: {
     id: string;
     label: string;
+    kind?: string;
+    parent?: string;
+    // Lets the client group a neighborhood by package or file
+    package?: string | null;
+    file?: string | null;
+    line?: number | null;
+    end_line?: number | null;
+    cyclomatic_complexity?: number;
+    fan_in?: number;
+    fan_out?: number;
+    loc?: number;
+    num_params?: number;
+    diff?: DiffStatus;
+    // Head minus base, only for metrics that changed
+    metric_deltas?: Partial<Record<DiffMetric, number>>;
   };
 }
 
+interface MetricsRow {
+  cyclomatic_complexity: number | null;
+  fan_in: number | null;
+  fan_out: number | null;
+  loc: number | null;
+  num_params: number | null;
+}
+
 interface GraphEdge {
   data: {
     id: string;
     source: string;
     target: string;
+    kind: string;
+    label?: string;
+    weight?: number;
+    diff?: DiffStatus;
+  };
+}
+
+interface GraphResponse {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  truncated?: boolean;
+  paths?: string[][];
+}
+
+interface StoredQueryRow {
+  name: string;
+  description: string;
+  sql: string;
+}
+
+// What the stored query runner process reports: the columns first, then batches of rows, ending
+// with `done` or an `error`
+interface StoredQueryMessage {
+  columns?: string[];
+  rows?: unknown[][];
+  done?: boolean;
+  truncated?: boolean;
+  error?: string;
+}
+
+interface QueryResult {
+  name: string;
+  columns: string[];
+  rows: unknown[][];
+  truncated: boolean;
+  elapsed_ms: number;
+  graph?: GraphResponse;
+}
+
+interface FindingRow {
+  id: number;
+  category: string;
+  severity: string;
+  node_id: string | null;
+  file: string | null;
+  line: number | null;
+  message: string;
+  details: string | null;
+  package: string | null;
+}
+
+interface DashboardFunctionRow {
+  function_id: string;
+  name: string;
+  package: string | null;
+  file: string | null;
+}
+
+interface TopFunctionRow extends DashboardFunctionRow {
+  rank: number;
+  value: number;
+}
+
+interface HotspotRow extends DashboardFunctionRow {
+  complexity: number | null;
+  loc: number | null;
+  fan_in: number | null;
+  fan_out: number | null;
+  finding_count: number | null;
+  hotspot_score: number;
+}
+
+interface UsageRow {
+  use_id: string;
+  use_file: string | null;
+  use_line: number | null;
+  use_kind: string | null;
+  function_id: string | null;
+  function_name: string | null;
+}
+
+interface UsageFunctionGroup {
+  function_id: string | null;
+  function_name: string | null;
+  usages: Array<{ use_id: string; line: number | null; use_kind: string | null }>;
+}
+
+interface UsageFileGroup {
+  file: string;
+  count: number;
+  functions: UsageFunctionGroup[];
+}
+
+interface OutlineEntry {
+  id: string;
+  name: string;
+  kind: string;
+  line: number | null;
+  end_line: number | null;
+  signature: string | null;
+  parent_id: string | null;
+  depth: number;
+  children: OutlineEntry[];
+}
+
+interface SymbolRow {
+  id: string;
+  name: string;
+  kind: string;
+  package: string | null;
+  file: string | null;
+  line: number | null;
+  signature: string | null;
+  decl: string | null;
+}
+
+interface TypeRelation {
+  id: string;
+  name: string;
+  package: string | null;
+  method_count?: number | null;
+}
+
+interface TypeMethod {
+  id: string;
+  name: string;
+  signature: string | null;
+  file: string | null;
+  line: number | null;
+  complexity: number | null;
+  loc: number | null;
+  // Interface methods are declared as fields and have no body or call graph
+  kind: 'function' | 'field';
+}
+
+type NeighborhoodRow = {
+  id: string;
+  name: string;
+  package: string | null;
+  file: string | null;
+  depth: number;
+} & MetricsRow;
+
+type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+type DiffMetric = typeof DIFF_METRICS[number];
+
+type DiffFunctionRow = {
+  id: string;
+  name: string;
+  package: string | null;
+} & MetricsRow;
+
+// The functions of one snapshot inside the diff scope, keyed by functionKey, and the call
+// edges among them as [source key, target key]
+interface DiffSide {
+  functions: Map<string, DiffFunctionRow>;
+  edges: Array<[string, string]>;
+  truncated: boolean;
+}
+
+interface DiffSummary {
+  added_functions: number;
+  removed_functions: number;
+  changed_functions: number;
+  added_edges: number;
+  removed_edges: number;
+}
+
+// One opened cpg.db with the per-database state built from it at open time
+interface CpgDatabase {
+  id: string;
+  path: string;
+  db: Database.Database;
+  mtimeMs: number;
+  checkedAt: number;
+  symbolIndex: SymbolIndex;
+  hasGitHistory: boolean;
+}
+
+interface SourceRow {
+  file_name: string;
+  start_line: number;
+  end_line: number;
+  code: string;
+  // Set in full-file mode: the node's own lines within `code`
+  range?: { start: number; end: number };
+}
+
+// Metric columns for node data. Missing values are left undefined rather than null, because
+// Cytoscape treats a null field as present and would match it in [metric] selectors.
+function metricFields(row: MetricsRow): Partial<GraphNode['data']> {
+  return {
+    cyclomatic_complexity: row.cyclomatic_complexity ?? undefined,
+    fan_in: row.fan_in ?? undefined,
+    fan_out: row.fan_out ?? undefined,
+    loc: row.loc ?? undefined,
+    num_params: row.num_params ?? undefined
+  };
+}
+
+// Walk call edges recursively in each direction, generalizing the one-hop function_neighborhood
+// query from the queries table. A direction with depth 0 yields only the seed row, which is
+// itself excluded from the result.
+function loadCallNeighborhood(
+  db: Database.Database,
+  functionId: string,
+  callerDepth: number,
+  calleeDepth: number,
+  limit: number
+): NeighborhoodRow[] {
+  return db.prepare(`
+    WITH RECURSIVE
+      callers(id, depth) AS (
+        SELECT ?, 0
+        UNION
+        SELECT e.source, c.depth + 1
+        FROM callers c JOIN edges e ON e.target = c.id
+        WHERE e.kind = 'call' AND c.depth < ?
+      ),
+      callees(id, depth) AS (
+        SELECT ?, 0
+        UNION
+        SELECT e.target, c.depth + 1
+        FROM callees c JOIN edges e ON e.source = c.id
+        WHERE e.kind = 'call' AND c.depth < ?
+      )
+    SELECT n.id, n.name, n.package, n.file, MIN(r.depth) AS depth,
+      m.cyclomatic_complexity, m.fan_in, m.fan_out, m.loc, m.num_params
+    FROM (SELECT id, depth FROM callers UNION ALL SELECT id, depth FROM callees) r
+    JOIN nodes n ON n.id = r.id
+    LEFT JOIN metrics m ON m.function_id = n.id
+    WHERE n.kind = 'function' AND n.id != ?
+    GROUP BY n.id
+    ORDER BY depth, n.name
+    LIMIT ?
+  `).all(functionId, callerDepth, functionId, calleeDepth, functionId, limit) as NeighborhoodRow[];
+}
+
+// Load the edges of the given kinds among a set of nodes, formatted for Cytoscape
+function loadEdges(db: Database.Database, nodeIds: string[], kinds: string[] = ['call']): GraphEdge[] {
+  if (nodeIds.length === 0 || kinds.length === 0) {
+    return [];
+  }
+
+  // Use safe parameterized query with proper placeholders
+  const placeholders = nodeIds.map(() => '?').join(',');
+  const kindPlaceholders = kinds.map(() => '?').join(',');
+  const edgesStmt = db.prepare(`
+    SELECT DISTINCT e.source, e.target, e.kind
+    FROM edges e
+    WHERE e.kind IN (${kindPlaceholders})
+      AND e.source IN (${placeholders})
+      AND e.target IN (${placeholders})
+  `);
+
+  // Bind parameters safely - spread array twice for source and target
+  const edgeRows = edgesStmt.all(...kinds, ...nodeIds, ...nodeIds) as Array<{
+    source: string;
+    target: string;
+    kind: string;
+  }>;
+
+  return edgeRows.map((edge, index) => ({
+    data: {
+      id: `edge-${index}`,
+      source: String(edge.source),
+      target: String(edge.target),
+      kind: edge.kind
+    }
+  }));
+}
+
+// Basic blocks only record the line of their first instruction, so a block is taken to span
+// up to the line before the next block that starts further down, capped at the function end.
+// Blocks without a position get no range.
+function computeBlockRanges(
+  blocks: Array<{ id: string; line: number | null }>,
+  functionEndLine: number | null
+): Map<string, { line: number; end_line: number }> {
+  const startLines = Array.from(new Set(
+    blocks.map(block => block.line).filter((line): line is number => line !== null && line > 0)
+  )).sort((a, b) => a - b);
+
+  const ranges = new Map<string, { line: number; end_line: number }>();
+  for (const block of blocks) {
+    if (block.line === null || block.line <= 0) continue;
+    const next = startLines.find(line => line > block.line!);
+    const end = next !== undefined ? next - 1 : (functionEndLine ?? block.line);
+    ranges.set(block.id, { line: block.line, end_line: Math.max(block.line, end) });
+  }
+  return ranges;
+}
+
+// Find up to `k` shortest simple call paths from `fromId` to `toId`, at most `maxDepth` hops long.
+// A bounded reverse BFS from the target gives the exact remaining distance for every node that
+// can still reach it, so the forward search only extends paths that can finish within the bound
+// and pops them in order of total length.
+function findCallPaths(
+  db: Database.Database,
+  fromId: string,
+  toId: string,
+  k: number,
+  maxDepth: number
+): { paths: string[][]; truncated: boolean } {
+  const callersStmt = db.prepare(`SELECT DISTINCT source FROM edges WHERE target = ? AND kind = 'call'`);
+  const calleesStmt = db.prepare(`SELECT DISTINCT target FROM edges WHERE source = ? AND kind = 'call'`);
+
+  const distanceToTarget = new Map<string, number>([[toId, 0]]);
+  let frontier = [toId];
+  let truncated = false;
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const row of callersStmt.all(id) as Array<{ source: string }>) {
+        if (distanceToTarget.has(row.source)) continue;
+        distanceToTarget.set(row.source, depth);
+        next.push(row.source);
+      }
+    }
+    if (distanceToTarget.size > MAX_PATH_SEARCH_NODES) {
+      truncated = true;
+      break;
+    }
+    frontier = next;
+  }
+
+  const shortest = distanceToTarget.get(fromId);
+  if (shortest === undefined) {
+    return { paths: [], truncated };
+  }
+
+  // Buckets indexed by total path length; every path in bucket L can complete in exactly L hops
+  const buckets: string[][][] = Array.from({ length: maxDepth + 1 }, () => []);
+  buckets[shortest].push([fromId]);
+  const paths: string[][] = [];
+  let expansions = 0;
+
+  for (let length = shortest; length <= maxDepth && paths.length < k; length++) {
+    const bucket = buckets[length];
+    while (bucket.length > 0 && paths.length < k) {
+      const path = bucket.shift()!;
+      const last = path[path.length - 1];
+      if (last === toId) {
+        paths.push(path);
+        continue;
+      }
+      if (++expansions > MAX_PATH_SEARCH_NODES) {
+        return { paths, truncated: true };
+      }
+      for (const row of calleesStmt.all(last) as Array<{ target: string }>) {
+        const remaining = distanceToTarget.get(row.target);
+        if (remaining === undefined || path.includes(row.target)) continue;
+        const total = path.length + remaining;
+        if (total <= maxDepth) {
+          buckets[total].push([...path, row.target]);
+        }
+      }
+    }
+  }
+
+  return { paths, truncated };
+}
+
+// Shortest data-flow path from a taint source to a sink. taint_flow_state already holds every node
+// the source reaches within the generator's hop bound, so the search only walks dfg edges among them.
+function findTaintPath(db: Database.Database, sourceId: string, sinkId: string): string[] | null {
+  const edges = db.prepare(`
+    SELECT e.source, e.target
+    FROM edges e
+    JOIN taint_flow_state a ON a.node_id = e.source AND a.source_id = ?
+    JOIN taint_flow_state b ON b.node_id = e.target AND b.source_id = ?
+    WHERE e.kind = 'dfg'
+  `).all(sourceId, sourceId) as Array<{ source: string; target: string }>;
+
+  const successors = new Map<string, string[]>();
+  for (const edge of edges) {
+    const list = successors.get(edge.source);
+    if (list) {
+      list.push(edge.target);
+    } else {
+      successors.set(edge.source, [edge.target]);
+    }
+  }
+
+  const previous = new Map<string, string>();
+  const queue = [sourceId];
+  const seen = new Set<string>([sourceId]);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === sinkId) {
+      const path = [id];
+      while (previous.has(path[0])) {
+        path.unshift(previous.get(path[0])!);
+      }
+      return path;
+    }
+    for (const next of successors.get(id) || []) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      previous.set(next, id);
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+// Runs one stored query in a child process with its own read-only connection and streams the rows
+// back in batches. Binding with no named parameters must pass nothing at all.
+const STORED_QUERY_RUNNER = `
+const Database = require(process.argv[1]);
+process.once('message', ({ dbPath, sql, params, limit }) => {
+  try {
+    const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+    const stmt = db.prepare(sql);
+    if (!stmt.reader) throw new Error('Stored query does not return rows');
+    stmt.raw(true);
+    process.send({ columns: stmt.columns().map(column => column.name) });
+    let batch = [];
+    let count = 0;
+    let truncated = false;
+    for (const row of Object.keys(params).length > 0 ? stmt.iterate(params) : stmt.iterate()) {
+      if (count >= limit) {
+        truncated = true;
+        break;
+      }
+      batch.push(row);
+      count++;
+      if (batch.length === ${QUERY_ROW_BATCH}) {
+        process.send({ rows: batch });
+        batch = [];
+      }
+    }
+    process.send({ rows: batch, done: true, truncated }, () => process.exit(0));
+  } catch (error) {
+    process.send({ error: error.message }, () => process.exit(1));
+  }
+});
+`;
+
+// Run a stored query up to the row limit or the deadline. better-sqlite3 cannot interrupt a
+// statement, and a recursive CTE can spend its whole time before the first row, so the query runs
+// in a child process that is killed at the deadline; rows received by then are kept.
+function runStoredQuery(
+  dbPath: string,
+  sql: string,
+  params: Record<string, string>,
+  limit: number
+): Promise<{ columns: string[]; rows: unknown[][]; truncated: boolean; timedOut: boolean }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['-e', STORED_QUERY_RUNNER, require.resolve('better-sqlite3')], {
+      stdio: ['ignore', 'ignore', 'pipe', 'ipc'],
+      serialization: 'advanced'
+    });
+    let columns: string[] = [];
+    const rows: unknown[][] = [];
+    let stderr = '';
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      finish();
+    };
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      settle(() => resolve({ columns, rows, truncated: false, timedOut: true }));
+    }, QUERY_TIMEOUT_MS);
+
+    child.stderr?.on('data', chunk => { stderr += chunk; });
+    child.on('message', (message: StoredQueryMessage) => {
+      if (message.error !== undefined) {
+        settle(() => reject(new Error(message.error)));
+        return;
+      }
+      if (message.columns) columns = message.columns;
+      if (message.rows) rows.push(...message.rows);
+      if (message.done) {
+        settle(() => resolve({ columns, rows, truncated: !!message.truncated, timedOut: false }));
+      }
+    });
+    child.on('error', error => settle(() => reject(error)));
+    child.on('exit', code => settle(() => reject(new Error(`Stored query runner exited with code ${code}: ${stderr}`))));
+    child.send({ dbPath, sql, params, limit });
+  });
+}
+
+// The stored slice queries hard-code their recursion bound; substitute the requested depth.
+// Returns null when the query has no `s.depth < N` bound to replace.
+function boundSliceDepth(sql: string, depth: number): string | null {
+  const pattern = /s\.depth < \d+/;
+  return pattern.test(sql) ? sql.replace(pattern, `s.depth < ${depth}`) : null;
+}
+
+// The stored slice queries start from one :node_id; start them from every node in the JSON array
+// :node_ids instead, so one run slices a whole line. Returns null when there is no such start row.
+function seedSliceNodes(sql: string): string | null {
+  const pattern = /SELECT\s+:node_id\s*,\s*0\b/;
+  return pattern.test(sql) ? sql.replace(pattern, 'SELECT value, 0 FROM json_each(:node_ids)') : null;
+}
+
+// Rows that carry node IDs (an `id` column or any `*_id` column) are also returned as a graph
+// of those nodes and the edges between them
+function buildResultGraph(db: Database.Database, columns: string[], rows: unknown[][]): GraphResponse | undefined {
+  const idColumns = columns
+    .map((name, index) => ({ name, index }))
+    .filter(({ name }) => name === 'id' || name.endsWith('_id'));
+  if (idColumns.length === 0) {
+    return undefined;
+  }
+
+  const candidates = new Set<string>();
+  for (const row of rows) {
+    for (const { index } of idColumns) {
+      const value = row[index];
+      if (typeof value === 'string' && value !== '') {
+        candidates.add(value);
+      }
+    }
+  }
+  if (candidates.size === 0) {
+    return undefined;
+  }
+
+  const ids = Array.from(candidates).slice(0, MAX_NODES_IN_GRAPH);
+  const placeholders = ids.map(() => '?').join(',');
+  const nodeRows = db.prepare(`
+    SELECT id, name, kind, line, end_line FROM nodes WHERE id IN (${placeholders})
+  `).all(...ids) as Array<{ id: string; name: string | null; kind: string; line: number | null; end_line: number | null }>;
+  if (nodeRows.length === 0) {
+    return undefined;
+  }
+
+  const kinds = (db.prepare(`SELECT kind FROM stats_edge_kinds`).all() as Array<{ kind: string }>).map(row => row.kind);
+  const nodes: GraphNode[] = nodeRows.map(node => ({
+    data: {
+      id: node.id,
+      label: node.name || node.id,
+      kind: node.kind,
+      line: node.line,
+      end_line: node.end_line
+    }
+  }));
+
+  return {
+    nodes,
+    edges: loadEdges(db, nodeRows.map(node => node.id), kinds),
+    truncated: candidates.size > MAX_NODES_IN_GRAPH || undefined
+  };
+}
+
+// Group usage rows (sorted by file, then enclosing function) into files and functions
+function groupUsages(rows: UsageRow[]): UsageFileGroup[] {
+  const files: UsageFileGroup[] = [];
+  for (const row of rows) {
+    const file = row.use_file || '';
+    let fileGroup = files[files.length - 1];
+    if (!fileGroup || fileGroup.file !== file) {
+      fileGroup = { file, count: 0, functions: [] };
+      files.push(fileGroup);
+    }
+    let functionGroup = fileGroup.functions[fileGroup.functions.length - 1];
+    if (!functionGroup || functionGroup.function_id !== row.function_id) {
+      functionGroup = { function_id: row.function_id, function_name: row.function_name, usages: [] };
+      fileGroup.functions.push(functionGroup);
+    }
+    functionGroup.usages.push({ use_id: row.use_id, line: row.use_line, use_kind: row.use_kind });
+    fileGroup.count++;
+  }
+  return files;
+}
+
+// Symbol kind shown to users. Methods are functions whose ID carries a receiver (pkg::Recv.Name@...);
+// package-level vars and consts are `local` nodes without an enclosing function.
+function symbolKind(row: SymbolRow): SymbolKind | null {
+  switch (row.kind) {
+    case 'function': {
+      const start = row.id.indexOf('::') + 2;
+      const end = row.id.indexOf('@', start);
+      return row.id.slice(start, end === -1 ? undefined : end).indexOf('.') !== -1 ? 'method' : 'function';
+    }
+    case 'type_decl':
+      return 'type';
+    case 'field':
+      return 'field';
+    case 'local':
+      return row.decl === 'const' ? 'const' : 'var';
+    default:
+      return null;
+  }
+}
+
+// Load every searchable symbol into memory once and index its search keys, so a search only ranks
+// the symbols that can match
+function buildSymbolIndex(db: Database.Database): SymbolIndex {
+  const hasSymbolIndex = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'symbol_index'`).get();
+  // symbol_index holds functions, types and package-level vars/consts; fields come from nodes
+  const rows = db.prepare(`
+    ${hasSymbolIndex ? `
+    SELECT s.id, s.name, s.kind, s.package, s.file, s.line, s.signature,
+      CASE WHEN json_valid(n.properties) THEN json_extract(n.properties, '$.decl') END AS decl
+    FROM symbol_index s
+    LEFT JOIN nodes n ON n.id = s.id AND s.kind = 'local'
+    WHERE s.kind IN ('function', 'type_decl') OR (s.kind = 'local' AND s.parent IS NULL)` : `
+    SELECT id, name, kind, package, file, line, type_info AS signature, NULL AS decl
+    FROM nodes
+    WHERE kind IN ('function', 'type_decl') AND name != '' AND file IS NOT NULL`}
+    UNION ALL
+    SELECT id, name, kind, package, file, line, type_info, NULL
+    FROM nodes
+    WHERE kind = 'field' AND name != '' AND file IS NOT NULL
+  `).all() as SymbolRow[];
+
+  const entries: SymbolEntry[] = [];
+  for (const row of rows) {
+    const kind = symbolKind(row);
+    if (!kind) continue;
+    let qualified = row.name;
+    if (kind === 'method') {
+      const start = row.id.indexOf('::') + 2;
+      qualified = row.id.slice(start, row.id.indexOf('@', start)).replace(/[()*]/g, '');
+    }
+    entries.push({
+      id: row.id,
+      name: row.name,
+      kind,
+      package: row.package,
+      file: row.file,
+      line: row.line,
+      signature: row.signature,
+      search: row.name.toLowerCase(),
+      qualified: qualified.toLowerCase(),
+      words: identifierWords(row.name)
+    });
+  }
+  return indexSymbols(entries);
+}
+
+// Nest outline rows (sorted by line) under their parent; entries whose parent is not in the file become roots
+function buildOutlineTree(rows: Omit<OutlineEntry, 'children'>[]): OutlineEntry[] {
+  const byId = new Map<string, OutlineEntry>();
+  const entries = rows.map(row => ({ ...row, children: [] as OutlineEntry[] }));
+  for (const entry of entries) {
+    byId.set(entry.id, entry);
+  }
+  const roots: OutlineEntry[] = [];
+  for (const entry of entries) {
+    const parent = entry.parent_id ? byId.get(entry.parent_id) : undefined;
+    if (parent && parent !== entry) {
+      parent.children.push(entry);
+    } else {
+      roots.push(entry);
+    }
+  }
+  return roots;
+}
+
+// Package dependency graph weighted by call count. Expanded packages become compound nodes holding
+// their functions; calls into or out of them are drawn from the function, with the far end
+// collapsed to its package unless that package is expanded as well.
+function buildPackageGraph(db: Database.Database, expanded: string[], includeExternal: boolean): GraphResponse {
+  // dashboard_package_graph is package_coupling without third-party packages and one-off calls
+  const packageEdgeRows = db.prepare(includeExternal
+    ? `SELECT source_package AS source, target_package AS target, call_count AS weight FROM package_coupling`
+    : `SELECT source, target, weight FROM dashboard_package_graph`
+  ).all() as Array<{ source: string; target: string; weight: number }>;
+
+  const isExpanded = new Set(expanded);
+  const packageWeight = new Map<string, number>();
+  const edgeWeights = new Map<string, { source: string; target: string; weight: number }>();
+  const addEdge = (source: string, target: string, weight: number) => {
+    if (source === target) return;
+    const key = `${source}\u0000${target}`;
+    const existing = edgeWeights.get(key);
+    if (existing) {
+      existing.weight += weight;
+    } else {
+      edgeWeights.set(key, { source, target, weight });
+    }
+  };
+
+  for (const row of packageEdgeRows) {
+    packageWeight.set(row.source, (packageWeight.get(row.source) || 0) + row.weight);
+    packageWeight.set(row.target, (packageWeight.get(row.target) || 0) + row.weight);
+    if (!isExpanded.has(row.source) && !isExpanded.has(row.target)) {
+      addEdge(row.source, row.target, row.weight);
+    }
+  }
+
+  const functionRows = expanded.length === 0 ? [] : db.prepare(`
+    SELECT n.id, n.name, n.package, n.line, n.end_line,
+      m.cyclomatic_complexity, m.fan_in, m.fan_out, m.loc, m.num_params
+    FROM nodes n
+    LEFT JOIN metrics m ON m.function_id = n.id
+    WHERE n.kind = 'function' AND n.package IN (${expanded.map(() => '?').join(',')})
+    ORDER BY n.package, n.name
+    LIMIT ?
+  `).all(...expanded, MAX_NODES_IN_GRAPH + 1) as Array<MetricsRow & {
+    id: string;
+    name: string;
+    package: string;
+    line: number | null;
+    end_line: number | null;
+  }>;
+  const truncated = functionRows.length > MAX_NODES_IN_GRAPH;
+  const shownFunctions = functionRows.slice(0, MAX_NODES_IN_GRAPH);
+  const functionIds = new Set(shownFunctions.map(row => row.id));
+
+  if (expanded.length > 0) {
+    const placeholders = expanded.map(() => '?').join(',');
+    const callRows = db.prepare(`
+      SELECT e.source, caller.package AS source_package, e.target, callee.package AS target_package
+      FROM nodes caller
+      JOIN edges e ON e.source = caller.id AND e.kind = 'call'
+      JOIN nodes callee ON callee.id = e.target
+      WHERE caller.package IN (${placeholders}) AND callee.package IS NOT NULL
+      UNION ALL
+      SELECT e.source, caller.package AS source_package, e.target, callee.package AS target_package
+      FROM nodes callee
+      JOIN edges e ON e.target = callee.id AND e.kind = 'call'
+      JOIN nodes caller ON caller.id = e.source
+      WHERE callee.package IN (${placeholders}) AND caller.package IS NOT NULL
+        AND caller.package NOT IN (${placeholders})
+    `).all(...expanded, ...expanded, ...expanded) as Array<{
+      source: string;
+      source_package: string;
+      target: string;
+      target_package: string;
+    }>;
+
+    const endpoint = (id: string, pkg: string) => (isExpanded.has(pkg) && functionIds.has(id) ? id : pkg);
+    for (const row of callRows) {
+      // Without external packages, calls to packages outside the package graph are left out
+      const reachable = (pkg: string) => isExpanded.has(pkg) || packageWeight.has(pkg);
+      if (!reachable(row.source_package) || !reachable(row.target_package)) continue;
+      addEdge(endpoint(row.source, row.source_package), endpoint(row.target, row.target_package), 1);
+    }
+  }
+
+  // Expanded packages first so their functions' parents survive any client-side node cap,
+  // then the rest by how much traffic they carry
+  const otherPackages = Array.from(packageWeight.keys())
+    .filter(pkg => !isExpanded.has(pkg))
+    .sort((a, b) => (packageWeight.get(b) || 0) - (packageWeight.get(a) || 0) || a.localeCompare(b));
+  const packageNodes: GraphNode[] = expanded.concat(otherPackages).map(pkg => ({
+    data: { id: pkg, label: pkg, kind: 'package' }
+  }));
+  const functionNodes: GraphNode[] = shownFunctions.map(row => ({
+    data: {
+      id: row.id,
+      label: row.name,
+      kind: 'function',
+      parent: row.package,
+      line: row.line,
+      end_line: row.end_line,
+      ...metricFields(row)
+    }
+  }));
+
+  const edges: GraphEdge[] = Array.from(edgeWeights.values()).map(edge => ({
+    data: {
+      id: `${edge.source}->${edge.target}`,
+      source: edge.source,
+      target: edge.target,
+      kind: 'call',
+      weight: edge.weight
+    }
+  }));
+
+  return {
+    nodes: packageNodes.concat(functionNodes),
+    edges,
+    truncated: truncated || undefined
   };
 }
 
-interface GraphResponse {
-  nodes: GraphNode[];
-  edges: GraphEdge[];
-}
+// Function IDs end in the declaration's line and column, which shift between snapshots; without
+// them an ID still names the package, receiver, function and file.
+function functionKey(id: string): string {
+  return id.replace(/:\d+:\d+$/, '');
+}
+
+function findFunctionByKey(db: Database.Database, key: string): DiffFunctionRow | undefined {
+  const rows = db.prepare(`
+    SELECT n.id, n.name, n.package, m.cyclomatic_complexity, m.fan_in, m.fan_out, m.loc, m.num_params
+    FROM nodes n
+    LEFT JOIN metrics m ON m.function_id = n.id
+    WHERE n.kind = 'function' AND n.id > ? AND n.id < ?
+  `).all(`${key}:`, `${key};`) as DiffFunctionRow[];
+  return rows.find(row => functionKey(row.id) === key);
+}
+
+// Collect one snapshot's side of a diff: either the call neighborhood of a function or every
+// function of a package. A snapshot without the function contributes nothing.
+function loadDiffSide(
+  db: Database.Database,
+  scope: { key: string; depth: number } | { package: string }
+): DiffSide {
+  let rows: DiffFunctionRow[];
+  if ('key' in scope) {
+    const seed = findFunctionByKey(db, scope.key);
+    rows = seed
+      ? [seed, ...loadCallNeighborhood(db, seed.id, scope.depth, scope.depth, MAX_NODES_IN_GRAPH)]
+      : [];
+  } else {
+    rows = db.prepare(`
+      SELECT n.id, n.name, n.package, m.cyclomatic_complexity, m.fan_in, m.fan_out, m.loc, m.num_params
+      FROM nodes n
+      LEFT JOIN metrics m ON m.function_id = n.id
+      WHERE n.kind = 'function' AND n.package = ?
+      ORDER BY n.id
+      LIMIT ?
+    `).all(scope.package, MAX_NODES_IN_GRAPH + 1) as DiffFunctionRow[];
+  }
+
+  const truncated = rows.length > MAX_NODES_IN_GRAPH;
+  const functions = new Map<string, DiffFunctionRow>();
+  rows.slice(0, MAX_NODES_IN_GRAPH).forEach(row => functions.set(functionKey(row.id), row));
+  return { functions, edges: [], truncated };
+}
+
+// A function in the other side's scope may still exist in this snapshot, just outside its scope
+// (a neighbor that moved one hop further away). Look those up so they compare as present, then
+// load the call edges among everything this snapshot holds.
+function completeDiffSide(db: Database.Database, side: DiffSide, other: DiffSide): void {
+  other.functions.forEach((_row, key) => {
+    if (side.functions.has(key)) return;
+    const row = findFunctionByKey(db, key);
+    if (row) {
+      side.functions.set(key, row);
+    }
+  });
+  const ids = Array.from(side.functions.values()).map(row => row.id);
+  side.edges = loadEdges(db, ids)
+    .map(edge => [functionKey(edge.data.source), functionKey(edge.data.target)] as [string, string]);
+}
+
+function metricDeltas(base: MetricsRow, head: MetricsRow): Partial<Record<DiffMetric, number>> | undefined {
+  const deltas: Partial<Record<DiffMetric, number>> = {};
+  let changed = false;
+  DIFF_METRICS.forEach(metric => {
+    const before = base[metric];
+    const after = head[metric];
+    if (before !== null && after !== null && before !== after) {
+      deltas[metric] = after - before;
+      changed = true;
+    }
+  });
+  return changed ? deltas : undefined;
+}
+
+function diffSnapshots(
+  baseDb: Database.Database,
+  headDb: Database.Database,
+  scope: { key: string; depth: number } | { package: string }
+): { base: DiffSide; head: DiffSide } {
+  const base = loadDiffSide(baseDb, scope);
+  const head = loadDiffSide(headDb, scope);
+  completeDiffSide(baseDb, base, head);
+  completeDiffSide(headDb, head, base);
+  return { base, head };
+}
+
+// Merge two sides into one graph. Nodes keep their head ID, or their base ID when removed.
+function mergeDiffSides(base: DiffSide, head: DiffSide): GraphResponse & { summary: DiffSummary } {
+  const summary: DiffSummary = {
+    added_functions: 0,
+    removed_functions: 0,
+    changed_functions: 0,
+    added_edges: 0,
+    removed_edges: 0
+  };
+
+  const idByKey = new Map<string, string>();
+  const nodes: GraphNode[] = [];
+  const keys = Array.from(head.functions.keys())
+    .concat(Array.from(base.functions.keys()).filter(key => !head.functions.has(key)));
+  keys.forEach(key => {
+    const before = base.functions.get(key);
+    const after = head.functions.get(key);
+    const row = (after || before) as DiffFunctionRow;
+    const deltas = before && after ? metricDeltas(before, after) : undefined;
+    const diff: DiffStatus = !before ? 'added' : !after ? 'removed' : deltas ? 'changed' : 'unchanged';
+    if (diff !== 'unchanged') {
+      summary[`${diff}_functions` as keyof DiffSummary]++;
+    }
+    idByKey.set(key, row.id);
+    nodes.push({
+      data: {
+        id: row.id,
+        label: row.name || row.id,
+        ...metricFields(row),
+        diff,
+        metric_deltas: deltas
+      }
+    });
+  });
+
+  const edgeKey = ([source, target]: [string, string]) => `${source}\u0000${target}`;
+  const baseEdges = new Set(base.edges.map(edgeKey));
+  const headEdges = new Set(head.edges.map(edgeKey));
+  const edges: GraphEdge[] = [];
+  const addEdge = (edge: [string, string], diff: DiffStatus) => {
+    if (diff === 'added' || diff === 'removed') {
+      summary[`${diff}_edges` as keyof DiffSummary]++;
+    }
+    edges.push({
+      data: {
+        id: `edge-${edges.length}`,
+        source: idByKey.get(edge[0]) as string,
+        target: idByKey.get(edge[1]) as string,
+        kind: 'call',
+        diff
+      }
+    });
+  };
+  head.edges.forEach(edge => addEdge(edge, baseEdges.has(edgeKey(edge)) ? 'unchanged' : 'added'));
+  base.edges.filter(edge => !headEdges.has(edgeKey(edge))).forEach(edge => addEdge(edge, 'removed'));
+
+  return { nodes, edges, truncated: base.truncated || head.truncated || undefined, summary };
+}
+
+// Answer a graph endpoint in the requested format; text formats download as <name>.<format>
+function sendGraph(reply: FastifyReply, graph: GraphResponse, format: ExportFormat, name: string) {
+  if (format === 'json') {
+    return reply.send(graph);
+  }
+  const body = format === 'dot' ? graphToDot(graph, name) : format === 'graphml' ? graphToGraphML(graph) : graphToMermaid(graph);
+  const extension = format === 'mermaid' ? 'mmd' : format;
+  return reply
+    .type(EXPORT_FORMATS[format])
+    .header('Content-Disposition', `attachment; filename="${name.replace(/[^\w.-]+/g, '_')}.${extension}"`)
+    .send(body);
+}
+
+// DB_PATH is a cpg.db file, a directory, or a comma-separated list of either. A directory contributes
+// its *.db files and the cpg.db of each subdirectory.
+function resolveDatabasePaths(spec: string): string[] {
+  const paths: string[] = [];
+  spec.split(',').map(entry => entry.trim()).filter(entry => entry !== '').forEach(entry => {
+    if (!fs.existsSync(entry) || !fs.statSync(entry).isDirectory()) {
+      paths.push(entry);
+      return;
+    }
+    fs.readdirSync(entry).sort().forEach(name => {
+      const full = path.join(entry, name);
+      if (fs.statSync(full).isDirectory()) {
+        const nested = path.join(full, 'cpg.db');
+        if (fs.existsSync(nested)) paths.push(nested);
+      } else if (name.endsWith('.db')) {
+        paths.push(full);
+      }
+    });
+  });
+  return paths;
+}
+
+// File name without extension, or the directory name for the usual <project>/cpg.db layout
+function databaseId(dbPath: string, taken: Set<string>): string {
+  const base = path.basename(dbPath, path.extname(dbPath));
+  const name = base === 'cpg' ? path.basename(path.dirname(path.resolve(dbPath))) : base;
+  let id = name.replace(/[^A-Za-z0-9_.-]/g, '_') || 'cpg';
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${name}-${suffix}`;
+  }
+  taken.add(id);
+  return id;
+}
+
+// git_file_history and v_file_risk exist only when the CPG was generated inside a git checkout.
+// Preparing the view also rejects databases whose v_file_risk predates its column fix.
+function detectGitHistory(db: Database.Database, log: FastifyBaseLogger, id: string): boolean {
+  try {
+    db.prepare(`SELECT change_risk_score FROM v_file_risk LIMIT 1`);
+    return true;
+  } catch (error) {
+    log.warn(`Git history unavailable in ${id}: ${(error as Error).message}`);
+    return false;
+  }
+}
+
+function openDatabase(id: string, dbPath: string, log: FastifyBaseLogger): CpgDatabase {
+  const mtimeMs = fs.statSync(dbPath).mtimeMs;
+  const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+  const symbolIndex = buildSymbolIndex(db);
+  log.info(`Connected to database ${id}: ${dbPath} (${symbolIndex.entries.length} symbols indexed)`);
+  return {
+    id,
+    path: dbPath,
+    db,
+    mtimeMs,
+    checkedAt: Date.now(),
+    symbolIndex,
+    hasGitHistory: detectGitHistory(db, log, id)
+  };
+}
+
+// Reopen a database whose file changed since it was opened. A file that is being rewritten may
+// not open yet; the old connection keeps serving until a later check succeeds.
+function reloadIfChanged(entry: CpgDatabase, log: FastifyBaseLogger): void {
+  const now = Date.now();
+  if (now - entry.checkedAt < DB_RELOAD_CHECK_MS) return;
+  entry.checkedAt = now;
+
+  try {
+    const mtimeMs = fs.statSync(entry.path).mtimeMs;
+    if (mtimeMs === entry.mtimeMs) return;
+    const reopened = openDatabase(entry.id, entry.path, log);
+    const previous = entry.db;
+    Object.assign(entry, reopened);
+    previous.close();
+    log.info(`Reloaded database ${entry.id} after it changed on disk`);
+  } catch (error) {
+    log.warn(`Could not reload database ${entry.id}: ${(error as Error).message}`);
+  }
+}
+
+async function main() {
+  const app = Fastify({ logger: true });
+
+  // Register CORS support
+  await app.register(cors, {
+    origin: true
+  });
+
+  // Connect to the SQLite databases in read-only mode
+  // In Docker, the path will be /app/cpg.db, locally it's ../../cpg.db
+  const dbSpec = process.env.DB_PATH || "../../cpg.db";
+  const databases: CpgDatabase[] = [];
+  const takenIds = new Set<string>();
+
+  try {
+    resolveDatabasePaths(dbSpec).forEach(dbPath => {
+      databases.push(openDatabase(databaseId(dbPath, takenIds), dbPath, app.log));
+    });
+  } catch (error) {
+    app.log.error(`Failed to connect to database: ${error}`);
+    process.exit(1);
+  }
+  if (databases.length === 0) {
+    app.log.error(`No databases found in ${dbSpec}`);
+    process.exit(1);
+  }
+  const databasesById = new Map(databases.map(entry => [entry.id, entry]));
+
+  // Every route takes ?db=<id> to pick a database; without it the first one is used
+  app.decorateRequest('cpg', null);
+  app.addHook<{ Querystring: { db?: string } }>('preHandler', async (request, reply) => {
+    const requested = request.query?.db;
+    const entry = requested ? databasesById.get(requested) : databases[0];
+    if (!entry) {
+      return reply.code(404).send({ error: `Unknown database: ${requested}` });
+    }
+    reloadIfChanged(entry, app.log);
+    request.cpg = entry;
+  });
+
+  // GET /databases - the loaded databases with their stats_overview
+  app.get("/databases", async (_request, reply) => {
+    try {
+      return reply.send({
+        databases: databases.map(entry => {
+          let stats: Record<string, unknown> | null = null;
+          try {
+            stats = (entry.db.prepare(`SELECT * FROM stats_overview`).get() as Record<string, unknown> | undefined) ?? null;
+          } catch (error) {
+            app.log.warn(`No stats_overview in ${entry.id}: ${(error as Error).message}`);
+          }
+          return { id: entry.id, path: entry.path, stats };
+        })
+      });
+    } catch (error) {
+      app.log.error(error, "Error in /databases endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // Health check endpoint (after database connection)
+  app.get("/health", async (request, reply) => {
+    try {
+      // Check database connection
+      request.cpg.db.prepare("SELECT 1").get();
+      return reply.send({ 
+        status: "ok", 
+        database: "connected",
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      app.log.error(error, "Health check failed");
+      return reply.code(503).send({ 
+        status: "error", 
+        database: "disconnected",
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
+  // GET /symbols?q=<query>&offset=<n>&limit=<n> - ranked search over functions, methods, types,
+  // fields and package-level vars/consts. The query may carry kind:<k,...> and pkg:<p,...> filters.
+  app.get<{ Querystring: { q?: string; offset?: string; limit?: string } }>("/symbols", async (request, reply) => {
+    try {
+      const { symbolIndex } = request.cpg;
+      const validation = validateSearchQuery(request.query.q || "");
+      if (!validation.valid) {
+        return reply.code(400).send({ error: validation.error || "Invalid query" });
+      }
+      const parsed = parseSymbolQuery(validation.sanitized);
+      if (!parsed.valid) {
+        return reply.code(400).send({ error: parsed.error });
+      }
+      const offsetResult = parseBoundedInt(request.query.offset, 'Offset', 0, 0, Number.MAX_SAFE_INTEGER);
+      if (!offsetResult.valid) {
+        return reply.code(400).send({ error: offsetResult.error });
+      }
+      const limitResult = parseBoundedInt(request.query.limit, 'Limit', DEFAULT_SYMBOL_PAGE_SIZE, 1, MAX_SYMBOL_PAGE_SIZE);
+      if (!limitResult.valid) {
+        return reply.code(400).send({ error: limitResult.error });
+      }
+
+      const { text, kinds, packages } = parsed.query;
+      const offset = offsetResult.value;
+      const limit = limitResult.value;
+
+      // Filters alone are a valid search; nothing at all returns an empty page
+      if (text === '' && kinds.length === 0 && packages.length === 0) {
+        return reply.send({ total: 0, offset, limit, symbols: [] });
+      }
+
+      const matches: Array<{ entry: SymbolEntry; rank: number }> = [];
+      for (const position of symbolCandidates(symbolIndex, parsed.query)) {
+        const entry = symbolIndex.entries[position];
+        if (kinds.length > 0 && kinds.indexOf(entry.kind) === -1) continue;
+        const rank = text === '' ? 0 : rankSymbol(entry, text);
+        if (rank >= 0) {
+          matches.push({ entry, rank });
+        }
+      }
+
+      // Within a tier shorter names are closer matches
+      matches.sort((a, b) =>
+        a.rank - b.rank ||
+        a.entry.name.length - b.entry.name.length ||
+        a.entry.name.localeCompare(b.entry.name) ||
+        (a.entry.package || '').localeCompare(b.entry.package || '')
+      );
+
+      return reply.send({
+        total: matches.length,
+        offset,
+        limit,
+        symbols: matches.slice(offset, offset + limit).map(({ entry }) => ({
+          id: entry.id,
+          name: entry.name,
+          kind: entry.kind,
+          package: entry.package,
+          file: entry.file,
+          line: entry.line,
+          signature: entry.signature
+        }))
+      });
+    } catch (error) {
+      app.log.error(error, "Error in /symbols endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /function/graph?id=...&depth=...&direction=... - use query parameter to avoid issues with slashes in ID
+  app.get<{ Querystring: { id: string; depth?: string; direction?: string; format?: string } }>("/function/graph", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const rawFunctionId = request.query.id || '';
+      
+      // Validate and sanitize input
+      const validation = sanitizeNodeId(rawFunctionId);
+      if (!validation.valid) {
+        return reply.code(400).send({ error: validation.error || "Invalid function ID" });
+      }
+      
+      const functionId = validation.sanitized;
+
+      const options = validateGraphOptions(request.query.depth, request.query.direction);
+      if (!options.valid) {
+        return reply.code(400).send({ error: options.error || "Invalid graph options" });
+      }
+
+      const formatValidation = validateExportFormat(request.query.format);
+      if (!formatValidation.valid) {
+        return reply.code(400).send({ error: formatValidation.error });
+      }
+      
+      // Get the function itself (ID is TEXT in the database)
+      app.log.info(`Looking for function with ID: ${functionId}`);
+      const functionStmt = db.prepare(`
+        SELECT n.id, n.name, n.package, n.file, m.cyclomatic_complexity, m.fan_in, m.fan_out, m.loc, m.num_params
+        FROM nodes n
+        LEFT JOIN metrics m ON m.function_id = n.id
+        WHERE n.id = ? AND n.kind = 'function'
+      `);
+      const functionRow = functionStmt.get(functionId) as
+        ({ id: string; name: string; package: string | null; file: string | null } & MetricsRow) | undefined;
+      
+      if (!functionRow) {
+        app.log.warn(`Function not found: ${functionId}`);
+        // Try without kind check in case the node exists but kind is different
+        const anyNodeStmt = db.prepare(`SELECT id, name, kind FROM nodes WHERE id = ?`);
+        const anyNode = anyNodeStmt.get(functionId) as { id: string; name: string; kind: string } | undefined;
+        if (anyNode) {
+          app.log.warn(`Node exists but kind is '${anyNode.kind}', not 'function'`);
+          return reply.code(400).send({ error: `Node exists but is not a function (kind: ${anyNode.kind})` });
+        }
+        return reply.code(404).send({ error: `Function not found: ${functionId}` });
+      }
+      
+      app.log.info(`Found function: ${functionRow.name} (${functionRow.id})`);
+
+      const callerDepth = options.direction === 'callees' ? 0 : options.depth;
+      const calleeDepth = options.direction === 'callers' ? 0 : options.depth;
+      // Fetch one row past the cap (minus the function itself) to detect truncation
+      const neighborhoodRows = loadCallNeighborhood(db, functionId, callerDepth, calleeDepth, MAX_NODES_IN_GRAPH);
+
+      const truncated = neighborhoodRows.length > MAX_NODES_IN_GRAPH - 1;
+      if (truncated) {
+        app.log.warn(`Neighborhood of ${functionId} exceeds ${MAX_NODES_IN_GRAPH} nodes, truncating`);
+        neighborhoodRows.splice(MAX_NODES_IN_GRAPH - 1);
+      }
+      
+      // Format nodes for Cytoscape (function first, then neighbors nearest-first)
+      const nodes: GraphNode[] = [
+        {
+          data: {
+            id: functionRow.id,
+            label: functionRow.name || functionRow.id,
+            package: functionRow.package,
+            file: functionRow.file,
+            ...metricFields(functionRow)
+          }
+        },
+        ...neighborhoodRows.map(row => ({
+          data: {
+            id: row.id,
+            label: row.name || row.id,
+            package: row.package,
+            file: row.file,
+            ...metricFields(row)
+          }
+        }))
+      ];
+      
+      // Get edges between these nodes
+      const edges = loadEdges(db, nodes.map(node => node.data.id));
+      
+      const response: GraphResponse = {
+        nodes,
+        edges,
+        truncated
+      };
+      
+      return sendGraph(reply, response, formatValidation.format, functionRow.name || functionId);
+    } catch (error) {
+      app.log.error(error, "Error in /function/:id/graph endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /function/path?from=...&to=...&k=...&depth=... - k shortest call paths between two functions
+  app.get<{ Querystring: { from: string; to: string; k?: string; depth?: string } }>("/function/path", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const fromValidation = sanitizeNodeId(request.query.from || '');
+      if (!fromValidation.valid) {
+        return reply.code(400).send({ error: fromValidation.error || "Invalid source function ID" });
+      }
+      const toValidation = sanitizeNodeId(request.query.to || '');
+      if (!toValidation.valid) {
+        return reply.code(400).send({ error: toValidation.error || "Invalid target function ID" });
+      }
+
+      const fromId = fromValidation.sanitized;
+      const toId = toValidation.sanitized;
+      if (fromId === toId) {
+        return reply.code(400).send({ error: "Source and target functions must differ" });
+      }
+
+      const kResult = parseBoundedInt(request.query.k, 'Path count', DEFAULT_PATH_COUNT, 1, MAX_PATH_COUNT);
+      if (!kResult.valid) {
+        return reply.code(400).send({ error: kResult.error });
+      }
+      const depthResult = parseBoundedInt(request.query.depth, 'Depth', DEFAULT_PATH_DEPTH, 1, MAX_PATH_DEPTH);
+      if (!depthResult.valid) {
+        return reply.code(400).send({ error: depthResult.error });
+      }
+
+      const functionStmt = db.prepare(`SELECT id, name FROM nodes WHERE id = ? AND kind = 'function'`);
+      for (const id of [fromId, toId]) {
+        if (!functionStmt.get(id)) {
+          return reply.code(404).send({ error: `Function not found: ${id}` });
+        }
+      }
+
+      const { paths, truncated } = findCallPaths(db, fromId, toId, kResult.value, depthResult.value);
+      if (paths.length === 0) {
+        return reply.code(404).send({
+          error: truncated
+            ? `No call path found before the search limit was reached (depth ${depthResult.value})`
+            : `No call path found within depth ${depthResult.value}`
+        });
+      }
+
+      // Nodes in first-seen order along the paths, so the shortest path comes first
+      const nodeIds = Array.from(new Set(paths.flat()));
+      const placeholders = nodeIds.map(() => '?').join(',');
+      const nameRows = db.prepare(`SELECT id, name FROM nodes WHERE id IN (${placeholders})`)
+        .all(...nodeIds) as Array<{ id: string; name: string }>;
+      const names = new Map(nameRows.map(row => [row.id, row.name]));
+
+      const nodes: GraphNode[] = nodeIds.map(id => ({
+        data: {
+          id,
+          label: names.get(id) || id
+        }
+      }));
+
+      // Only the hops that lie on a path, not every call among the path nodes
+      const hops = new Set<string>();
+      const edges: GraphEdge[] = [];
+      for (const path of paths) {
+        for (let i = 0; i < path.length - 1; i++) {
+          const key = `${path[i]}\u0000${path[i + 1]}`;
+          if (hops.has(key)) continue;
+          hops.add(key);
+          edges.push({
+            data: {
+              id: `edge-${edges.length}`,
+              source: path[i],
+              target: path[i + 1],
+              kind: 'call'
+            }
+          });
+        }
+      }
+
+      const response: GraphResponse = {
+        nodes,
+        edges,
+        truncated,
+        paths
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      app.log.error(error, "Error in /function/path endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /function/cfg?id=... - control-flow graph of a function over its basic blocks
+  app.get<{ Querystring: { id: string } }>("/function/cfg", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const validation = sanitizeNodeId(request.query.id || '');
+      if (!validation.valid) {
+        return reply.code(400).send({ error: validation.error || "Invalid function ID" });
+      }
+      const functionId = validation.sanitized;
+
+      const functionRow = db.prepare(`SELECT id, name, kind, line, end_line FROM nodes WHERE id = ?`).get(functionId) as {
+        id: string;
+        name: string;
+        kind: string;
+        line: number | null;
+        end_line: number | null;
+      } | undefined;
+      if (!functionRow) {
+        return reply.code(404).send({ error: `Function not found: ${functionId}` });
+      }
+      if (functionRow.kind !== 'function') {
+        return reply.code(400).send({ error: `Node exists but is not a function (kind: ${functionRow.kind})` });
+      }
+
+      // Same shape as the function_cfg query from the queries table, but blocks are found
+      // through parent_function since SSA blocks carry no ast edge from their function
+      const blockRows = db.prepare(`
+        SELECT id, name, line
+        FROM nodes
+        WHERE kind = 'basic_block' AND parent_function = ?
+        ORDER BY CAST(json_extract(properties, '$.index') AS INTEGER)
+      `).all(functionId) as Array<{ id: string; name: string | null; line: number | null }>;
+
+      if (blockRows.length === 0) {
+        return reply.code(404).send({
+          error: "Control-flow graph not available",
+          message: `Function "${functionRow.name}" has no basic blocks. It may be external or have no body.`
+        });
+      }
+
+      const cfgRows = db.prepare(`
+        SELECT e.source, e.target, ep.value AS branch_label
+        FROM edges e
+        LEFT JOIN edge_properties ep ON ep.source = e.source AND ep.target = e.target
+          AND ep.edge_kind = 'cfg' AND ep.key = 'label'
+        WHERE e.kind = 'cfg'
+          AND (e.source IN (SELECT id FROM nodes WHERE kind = 'basic_block' AND parent_function = ?)
+               OR e.source = ?)
+      `).all(functionId, functionId) as Array<{ source: string; target: string; branch_label: string | null }>;
+
+      const ranges = computeBlockRanges(blockRows, functionRow.end_line);
+      const blockIds = new Set(blockRows.map(block => block.id));
+
+      // Entry and exit edges both touch the function node; exits get their own node so the
+      // hierarchical layout does not fold back onto the entry
+      const exitId = `${functionId}::exit`;
+      const nodes: GraphNode[] = [
+        {
+          data: {
+            id: functionId,
+            label: functionRow.name || functionId,
+            kind: 'function',
+            line: functionRow.line,
+            end_line: functionRow.end_line
+          }
+        },
+        ...blockRows.map(block => {
+          const range = ranges.get(block.id);
+          return {
+            data: {
+              id: block.id,
+              label: range ? `${block.name || 'block'} · L${range.line}` : (block.name || 'block'),
+              kind: 'basic_block',
+              line: range?.line ?? null,
+              end_line: range?.end_line ?? null
+            }
+          };
+        })
+      ];
+
+      const edges: GraphEdge[] = [];
+      let hasExit = false;
+      for (const row of cfgRows) {
+        const isExit = row.target === functionId && blockIds.has(row.source);
+        if (isExit) hasExit = true;
+        if (!isExit && !blockIds.has(row.target)) continue;
+        edges.push({
+          data: {
+            id: `edge-${edges.length}`,
+            source: row.source,
+            target: isExit ? exitId : row.target,
+            kind: 'cfg',
+            ...(row.branch_label ? { label: row.branch_label } : {})
+          }
+        });
+      }
+      if (hasExit) {
+        nodes.push({ data: { id: exitId, label: 'exit', kind: 'exit' } });
+      }
+
+      // Labeled break/continue/goto statements, attached to the blocks containing them
+      const branchRows = db.prepare(`
+        SELECT b.line AS source_line, l.line AS target_line
+        FROM edges e
+        JOIN nodes b ON b.id = e.source
+        JOIN nodes l ON l.id = e.target
+        WHERE e.kind = 'branch_target' AND b.parent_function = ?
+      `).all(functionId) as Array<{ source_line: number | null; target_line: number | null }>;
+
+      const blockAtLine = (line: number | null) => {
+        if (line === null) return undefined;
+        let match: string | undefined;
+        ranges.forEach((range, id) => {
+          if (match === undefined && line >= range.line && line <= range.end_line) match = id;
+        });
+        return match;
+      };
+      for (const row of branchRows) {
+        const source = blockAtLine(row.source_line);
+        const target = blockAtLine(row.target_line);
+        if (!source || !target) continue;
+        edges.push({
+          data: {
+            id: `edge-${edges.length}`,
+            source,
+            target,
+            kind: 'branch_target'
+          }
+        });
+      }
+
+      const response: GraphResponse = { nodes, edges };
+      return reply.send(response);
+    } catch (error) {
+      app.log.error(error, "Error in /function/cfg endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /edge-kinds - edge kinds present in the database with their counts
+  app.get("/edge-kinds", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const rows = db.prepare(`SELECT kind, count FROM stats_edge_kinds ORDER BY count DESC`).all() as Array<{
+        kind: string;
+        count: number;
+      }>;
+      return reply.send(rows);
+    } catch (error) {
+      app.log.error(error, "Error in /edge-kinds endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /node/graph?id=...&kinds=dfg,cfg&depth=...&direction=in|out|both - neighborhood of any node over the given edge kinds
+  app.get<{ Querystring: { id: string; kinds?: string; depth?: string; direction?: string; format?: string } }>("/node/graph", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const validation = sanitizeNodeId(request.query.id || '');
+      if (!validation.valid) {
+        return reply.code(400).send({ error: validation.error || "Invalid node ID" });
+      }
+      const nodeId = validation.sanitized;
+
+      const kindsValidation = validateEdgeKinds(request.query.kinds);
+      if (!kindsValidation.valid) {
+        return reply.code(400).send({ error: kindsValidation.error || "Invalid edge kinds" });
+      }
+
+      const formatValidation = validateExportFormat(request.query.format);
+      if (!formatValidation.valid) {
+        return reply.code(400).send({ error: formatValidation.error });
+      }
+      const kinds = kindsValidation.kinds;
+
+      const depthResult = parseBoundedInt(request.query.depth, 'Depth', DEFAULT_GRAPH_DEPTH, 1, MAX_GRAPH_DEPTH);
+      if (!depthResult.valid) {
+        return reply.code(400).send({ error: depthResult.error });
+      }
+
+      const rawDirection = request.query.direction || 'both';
+      if (!(NEIGHBOR_DIRECTIONS as readonly string[]).includes(rawDirection)) {
+        return reply.code(400).send({ error: `Direction must be one of: ${NEIGHBOR_DIRECTIONS.join(', ')}` });
+      }
+      const direction = rawDirection as NeighborDirection;
+
+      const nodeRow = db.prepare(`SELECT id, name, kind, package, file FROM nodes WHERE id = ?`).get(nodeId) as
+        { id: string; name: string; kind: string; package: string | null; file: string | null } | undefined;
+      if (!nodeRow) {
+        return reply.code(404).send({ error: `Node not found: ${nodeId}` });
+      }
+
+      // Same recursive walk as /function/graph, over the requested edge kinds and any node kind
+      const inDepth = direction === 'out' ? 0 : depthResult.value;
+      const outDepth = direction === 'in' ? 0 : depthResult.value;
+      const kindPlaceholders = kinds.map(() => '?').join(',');
+      const neighborhoodStmt = db.prepare(`
+        WITH RECURSIVE
+          incoming(id, depth) AS (
+            SELECT ?, 0
+            UNION
+            SELECT e.source, i.depth + 1
+            FROM incoming i JOIN edges e ON e.target = i.id
+            WHERE e.kind IN (${kindPlaceholders}) AND i.depth < ?
+          ),
+          outgoing(id, depth) AS (
+            SELECT ?, 0
+            UNION
+            SELECT e.target, o.depth + 1
+            FROM outgoing o JOIN edges e ON e.source = o.id
+            WHERE e.kind IN (${kindPlaceholders}) AND o.depth < ?
+          )
+        SELECT n.id, n.name, n.kind, n.package, n.file, MIN(r.depth) AS depth
+        FROM (SELECT id, depth FROM incoming UNION ALL SELECT id, depth FROM outgoing) r
+        JOIN nodes n ON n.id = r.id
+        WHERE n.id != ?
+        GROUP BY n.id
+        ORDER BY depth, n.name
+        LIMIT ?
+      `);
+
+      const neighborhoodRows = neighborhoodStmt.all(
+        nodeId, ...kinds, inDepth,
+        nodeId, ...kinds, outDepth,
+        nodeId,
+        MAX_NODES_IN_GRAPH
+      ) as Array<{
+        id: string;
+        name: string;
+        kind: string;
+        package: string | null;
+        file: string | null;
+        depth: number;
+      }>;
+
+      const truncated = neighborhoodRows.length > MAX_NODES_IN_GRAPH - 1;
+      if (truncated) {
+        app.log.warn(`Neighborhood of ${nodeId} exceeds ${MAX_NODES_IN_GRAPH} nodes, truncating`);
+        neighborhoodRows.splice(MAX_NODES_IN_GRAPH - 1);
+      }
+
+      const nodes: GraphNode[] = [nodeRow, ...neighborhoodRows].map(row => ({
+        data: {
+          id: row.id,
+          label: row.name || row.id,
+          kind: row.kind,
+          package: row.package,
+          file: row.file
+        }
+      }));
+
+      const response: GraphResponse = {
+        nodes,
+        edges: loadEdges(db, nodes.map(node => node.data.id), kinds),
+        truncated
+      };
+
+      return sendGraph(reply, response, formatValidation.format, nodeRow.name || nodeId);
+    } catch (error) {
+      app.log.error(error, "Error in /node/graph endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /queries - stored analysis queries with the named parameters each one expects
+  app.get("/queries", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const rows = db.prepare(`SELECT name, description, sql FROM queries ORDER BY name`).all() as StoredQueryRow[];
+      return reply.send(rows.map(row => ({
+        name: row.name,
+        description: row.description,
+        params: extractQueryParams(row.sql)
+      })));
+    } catch (error) {
+      app.log.error(error, "Error in /queries endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // POST /queries/run - body { name, params, limit }; parameter names are arbitrary, so they travel in the body
+  app.post<{ Body: { name?: unknown; params?: unknown; limit?: unknown } }>("/queries/run", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const body = request.body || {};
+      if (typeof body.name !== 'string' || !/^[A-Za-z0-9_]{1,100}$/.test(body.name)) {
+        return reply.code(400).send({ error: "Query name is required" });
+      }
+
+      const rawLimit = body.limit === undefined ? undefined : String(body.limit);
+      const limitResult = parseBoundedInt(rawLimit, 'Limit', DEFAULT_QUERY_ROW_LIMIT, 1, MAX_QUERY_ROW_LIMIT);
+      if (!limitResult.valid) {
+        return reply.code(400).send({ error: limitResult.error });
+      }
+
+      const stored = db.prepare(`SELECT name, description, sql FROM queries WHERE name = ?`).get(body.name) as StoredQueryRow | undefined;
+      if (!stored) {
+        return reply.code(404).send({ error: `Query not found: ${body.name}` });
+      }
+
+      const paramsValidation = validateQueryParams(extractQueryParams(stored.sql), body.params);
+      if (!paramsValidation.valid) {
+        return reply.code(400).send({ error: paramsValidation.error || "Invalid query parameters" });
+      }
+
+      const started = Date.now();
+      const result = await runStoredQuery(request.cpg.path, stored.sql, paramsValidation.params, limitResult.value);
+      if (result.timedOut) {
+        return reply.code(408).send({
+          error: "Query timed out",
+          message: `Query "${stored.name}" did not finish within ${QUERY_TIMEOUT_MS / 1000} seconds. Try a lower row limit.`
+        });
+      }
+
+      const response: QueryResult = {
+        name: stored.name,
+        columns: result.columns,
+        rows: result.rows,
+        truncated: result.truncated,
+        elapsed_ms: Date.now() - started,
+        graph: buildResultGraph(db, result.columns, result.rows)
+      };
+      return reply.send(response);
+    } catch (error) {
+      app.log.error(error, "Error in /queries/run endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /findings?category=...&severity=...&package=...&file=...&offset=...&limit=... - paginated findings,
+  // most severe first. `package` matches exactly; `file` matches any part of the path.
+  app.get<{
+    Querystring: { category?: string; severity?: string; package?: string; file?: string; offset?: string; limit?: string }
+  }>("/findings", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const validation = validateFindingFilters(request.query);
+      if (!validation.valid) {
+        return reply.code(400).send({ error: validation.error || "Invalid filters" });
+      }
+      const filters = validation.filters;
+
+      const offsetResult = parseBoundedInt(request.query.offset, 'Offset', 0, 0, Number.MAX_SAFE_INTEGER);
+      if (!offsetResult.valid) {
+        return reply.code(400).send({ error: offsetResult.error });
+      }
+      const limitResult = parseBoundedInt(request.query.limit, 'Limit', DEFAULT_FINDINGS_PAGE_SIZE, 1, MAX_FINDINGS_PAGE_SIZE);
+      if (!limitResult.valid) {
+        return reply.code(400).send({ error: limitResult.error });
+      }
+
+      const conditions: string[] = [];
+      const params: string[] = [];
+      if (filters.category) {
+        conditions.push('f.category = ?');
+        params.push(filters.category);
+      }
+      if (filters.severity) {
+        conditions.push('f.severity = ?');
+        params.push(filters.severity);
+      }
+      if (filters.package) {
+        conditions.push('n.package = ?');
+        params.push(filters.package);
+      }
+      if (filters.file) {
+        conditions.push(`f.file LIKE ? ESCAPE '\\'`);
+        params.push(`%${filters.file.replace(/[\\%_]/g, '\\$&')}%`);
+      }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const { total } = db.prepare(`
+        SELECT COUNT(*) AS total
+        FROM findings f
+        LEFT JOIN nodes n ON n.id = f.node_id
+        ${where}
+      `).get(...params) as { total: number };
+
+      const findings = db.prepare(`
+        SELECT f.id, f.category, f.severity, f.node_id, f.file, f.line, f.message, f.details, n.package
+        FROM findings f
+        LEFT JOIN nodes n ON n.id = f.node_id
+        ${where}
+        ORDER BY CASE f.severity WHEN 'error' THEN 0 WHEN 'warning' THEN 1 ELSE 2 END, f.file, f.line, f.id
+        LIMIT ? OFFSET ?
+      `).all(...params, limitResult.value, offsetResult.value) as FindingRow[];
+
+      return reply.send({
+        findings,
+        total,
+        offset: offsetResult.value,
+        limit: limitResult.value
+      });
+    } catch (error) {
+      app.log.error(error, "Error in /findings endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /findings/facets - categories, severities and packages with finding counts, for filter pickers
+  app.get("/findings/facets", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const facet = (column: string) => db.prepare(`
+        SELECT ${column} AS value, COUNT(*) AS count
+        FROM findings f
+        LEFT JOIN nodes n ON n.id = f.node_id
+        WHERE ${column} IS NOT NULL
+        GROUP BY ${column}
+        ORDER BY count DESC, value
+      `).all() as Array<{ value: string; count: number }>;
+
+      return reply.send({
+        categories: facet('f.category'),
+        severities: facet('f.severity'),
+        packages: facet('n.package')
+      });
+    } catch (error) {
+      app.log.error(error, "Error in /findings/facets endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // POST /findings/nodes - body { ids }; finding count and worst severity per node, for graph overlays.
+  // A graph's node IDs do not fit in a query string, so they travel in the body.
+  app.post<{ Body: { ids?: unknown } }>("/findings/nodes", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const ids = request.body?.ids;
+      if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string' || id.length > MAX_ID_LENGTH)) {
+        return reply.code(400).send({ error: "ids must be an array of node IDs" });
+      }
+      if (ids.length > MAX_NODES_IN_GRAPH) {
+        return reply.code(400).send({ error: `Too many node IDs (max ${MAX_NODES_IN_GRAPH})` });
+      }
+      if (ids.length === 0) {
+        return reply.send({});
+      }
+
+      const placeholders = ids.map(() => '?').join(',');
+      const rows = db.prepare(`
+        SELECT node_id,
+          COUNT(*) AS count,
+          MIN(CASE severity WHEN 'error' THEN 0 WHEN 'warning' THEN 1 ELSE 2 END) AS rank
+        FROM findings
+        WHERE node_id IN (${placeholders})
+        GROUP BY node_id
+      `).all(...ids) as Array<{ node_id: string; count: number; rank: number }>;
+
+      const summary: Record<string, { severity: string; count: number }> = {};
+      for (const row of rows) {
+        summary[row.node_id] = { severity: FINDING_SEVERITIES[row.rank], count: row.count };
+      }
+      return reply.send(summary);
+    } catch (error) {
+      app.log.error(error, "Error in /findings/nodes endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /dashboard/overview - headline counts from dashboard_overview plus the node and edge kind breakdowns
+  app.get("/dashboard/overview", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const rows = db.prepare(`SELECT key, value FROM dashboard_overview`).all() as Array<{ key: string; value: string }>;
+      // dashboard_overview stores every value as TEXT; hand numbers back as numbers
+      const overview: Record<string, number | string> = {};
+      for (const row of rows) {
+        const numeric = Number(row.value);
+        overview[row.key] = row.value !== '' && Number.isFinite(numeric) ? numeric : row.value;
+      }
+
+      return reply.send({
+        overview,
+        node_kinds: db.prepare(`SELECT kind, count FROM stats_node_kinds ORDER BY count DESC`).all(),
+        edge_kinds: db.prepare(`SELECT kind, count FROM stats_edge_kinds ORDER BY count DESC`).all()
+      });
+    } catch (error) {
+      app.log.error(error, "Error in /dashboard/overview endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /dashboard/complexity - function counts per cyclomatic complexity bucket, lowest bucket first
+  app.get("/dashboard/complexity", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const rows = db.prepare(`
+        SELECT bucket, bucket_min, bucket_max, function_count
+        FROM dashboard_complexity_distribution
+        ORDER BY bucket_min
+      `).all();
+      return reply.send(rows);
+    } catch (error) {
+      app.log.error(error, "Error in /dashboard/complexity endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /dashboard/packages - per-package size and complexity totals for the treemap, largest first
+  app.get("/dashboard/packages", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const rows = db.prepare(`
+        SELECT package, file_count, function_count, total_loc, total_complexity,
+          avg_complexity, max_complexity, type_count, interface_count
+        FROM dashboard_package_treemap
+        ORDER BY total_loc DESC, package
+      `).all();
+      return reply.send(rows);
+    } catch (error) {
+      app.log.error(error, "Error in /dashboard/packages endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /dashboard/top-functions?metric=complexity|loc|fan_in|fan_out&limit=... - leaderboard for one metric
+  app.get<{ Querystring: { metric?: string; limit?: string } }>("/dashboard/top-functions", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const metric = request.query.metric || 'complexity';
+      if (!(DASHBOARD_METRICS as readonly string[]).includes(metric)) {
+        return reply.code(400).send({ error: `Metric must be one of: ${DASHBOARD_METRICS.join(', ')}` });
+      }
+      const limitResult = parseBoundedInt(request.query.limit, 'Limit', DEFAULT_DASHBOARD_LIMIT, 1, MAX_DASHBOARD_LIMIT);
+      if (!limitResult.valid) {
+        return reply.code(400).send({ error: limitResult.error });
+      }
+
+      const rows = db.prepare(`
+        SELECT rank, function_id, name, package, file, value
+        FROM dashboard_top_functions
+        WHERE metric = ?
+        ORDER BY rank
+        LIMIT ?
+      `).all(metric, limitResult.value) as TopFunctionRow[];
+      return reply.send(rows);
+    } catch (error) {
+      app.log.error(error, "Error in /dashboard/top-functions endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /dashboard/hotspots?limit=... - functions by combined complexity, size, fan-in and findings score
+  app.get<{ Querystring: { limit?: string } }>("/dashboard/hotspots", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const limitResult = parseBoundedInt(request.query.limit, 'Limit', DEFAULT_DASHBOARD_LIMIT, 1, MAX_DASHBOARD_LIMIT);
+      if (!limitResult.valid) {
+        return reply.code(400).send({ error: limitResult.error });
+      }
+
+      const rows = db.prepare(`
+        SELECT function_id, name, package, file, complexity, loc, fan_in, fan_out, finding_count, hotspot_score
+        FROM dashboard_hotspots
+        ORDER BY hotspot_score DESC
+        LIMIT ?
+      `).all(limitResult.value) as HotspotRow[];
+      return reply.send(rows);
+    } catch (error) {
+      app.log.error(error, "Error in /dashboard/hotspots endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /dashboard/files?limit=... - per-file complexity and findings from dashboard_file_heatmap, hottest first
+  app.get<{ Querystring: { limit?: string } }>("/dashboard/files", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const limitResult = parseBoundedInt(request.query.limit, 'Limit', DEFAULT_DASHBOARD_LIMIT, 1, MAX_DASHBOARD_LIMIT);
+      if (!limitResult.valid) {
+        return reply.code(400).send({ error: limitResult.error });
+      }
+
+      const rows = db.prepare(`
+        SELECT file, package, function_count, total_loc, total_complexity, max_complexity,
+          avg_complexity, finding_count, hotspot_score
+        FROM dashboard_file_heatmap
+        ORDER BY hotspot_score DESC
+        LIMIT ?
+      `).all(limitResult.value);
+      return reply.send(rows);
+    } catch (error) {
+      app.log.error(error, "Error in /dashboard/files endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /packages/graph?expand=<pkg,...>&external=true - package dependency graph weighted by call count;
+  // expanded packages are returned as compound nodes containing their functions
+  app.get<{ Querystring: { expand?: string; external?: string; format?: string } }>("/packages/graph", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const validation = validatePackageList(request.query.expand);
+      if (!validation.valid) {
+        return reply.code(400).send({ error: validation.error || "Invalid packages" });
+      }
+
+      const formatValidation = validateExportFormat(request.query.format);
+      if (!formatValidation.valid) {
+        return reply.code(400).send({ error: formatValidation.error });
+      }
+
+      const graph = buildPackageGraph(db, validation.packages, request.query.external === 'true');
+      return sendGraph(reply, graph, formatValidation.format, 'packages');
+    } catch (error) {
+      app.log.error(error, "Error in /packages/graph endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /diff?base=<db>&id=<function id>&depth=... or ?base=<db>&package=<pkg> - compares the selected
+  // database (the head) with another snapshot, matching functions by ID without their position
+  app.get<{ Querystring: { base?: string; id?: string; package?: string; depth?: string } }>("/diff", async (request, reply) => {
+    try {
+      const head = request.cpg;
+      const baseId = request.query.base || '';
+      if (baseId === '') {
+        return reply.code(400).send({ error: "A base database is required" });
+      }
+      const base = databasesById.get(baseId);
+      if (!base) {
+        return reply.code(404).send({ error: `Unknown database: ${baseId}` });
+      }
+      reloadIfChanged(base, app.log);
+
+      const rawId = request.query.id || '';
+      const packageName = (request.query.package || '').trim();
+      if ((rawId === '') === (packageName === '')) {
+        return reply.code(400).send({ error: "Exactly one of id or package is required" });
+      }
+
+      if (packageName !== '') {
+        if (packageName.length > MAX_ID_LENGTH) {
+          return reply.code(400).send({ error: "Package name too long" });
+        }
+        const scope = { package: packageName };
+        const sides = diffSnapshots(base.db, head.db, scope);
+        const graph = mergeDiffSides(sides.base, sides.head);
+        return reply.send({ base: base.id, head: head.id, package: packageName, ...graph });
+      }
+
+      const validation = sanitizeNodeId(rawId);
+      if (!validation.valid) {
+        return reply.code(400).send({ error: validation.error || "Invalid function ID" });
+      }
+      const depthResult = parseBoundedInt(request.query.depth, 'Depth', DEFAULT_GRAPH_DEPTH, 1, MAX_GRAPH_DEPTH);
+      if (!depthResult.valid) {
+        return reply.code(400).send({ error: depthResult.error });
+      }
+
+      const key = functionKey(validation.sanitized);
+      const scope = { key, depth: depthResult.value };
+      const sides = diffSnapshots(base.db, head.db, scope);
+      const seed = sides.head.functions.get(key) || sides.base.functions.get(key);
+      if (!seed) {
+        return reply.code(404).send({ error: `Function not found in ${base.id} or ${head.id}: ${validation.sanitized}` });
+      }
+
+      return reply.send({
+        base: base.id,
+        head: head.id,
+        id: seed.id,
+        package: seed.package,
+        depth: depthResult.value,
+        ...mergeDiffSides(sides.base, sides.head)
+      });
+    } catch (error) {
+      app.log.error(error, "Error in /diff endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /usages?id=...&limit=... - every use of a definition from xrefs, grouped by file and enclosing function
+  app.get<{ Querystring: { id: string; limit?: string } }>("/usages", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const validation = sanitizeNodeId(request.query.id || '');
+      if (!validation.valid) {
+        return reply.code(400).send({ error: validation.error || "Invalid node ID" });
+      }
+      const limitResult = parseBoundedInt(request.query.limit, 'Limit', DEFAULT_USAGE_LIMIT, 1, MAX_USAGE_LIMIT);
+      if (!limitResult.valid) {
+        return reply.code(400).send({ error: limitResult.error });
+      }
+
+      const definition = db.prepare(`SELECT id, name, kind, file, line FROM nodes WHERE id = ?`)
+        .get(validation.sanitized) as { id: string; name: string; kind: string; file: string | null; line: number | null } | undefined;
+      if (!definition) {
+        return reply.code(404).send({ error: "Node not found" });
+      }
+
+      const { total } = db.prepare(`SELECT COUNT(*) AS total FROM xrefs WHERE def_id = ?`)
+        .get(definition.id) as { total: number };
 
-interface SourceRow {
-  file_name: string;
-  start_line: number;
-  end_line: number;
-  code: string;
-}
+      // A use inside a function body belongs to that function; a function node is its own owner
+      const rows = db.prepare(`
+        SELECT x.use_id, x.use_file, x.use_line, x.use_kind, owner.id AS function_id, owner.name AS function_name
+        FROM xrefs x
+        LEFT JOIN nodes u ON u.id = x.use_id
+        LEFT JOIN nodes owner ON owner.id = CASE WHEN u.kind = 'function' THEN u.id ELSE u.parent_function END
+        WHERE x.def_id = ?
+        ORDER BY x.use_file, owner.name IS NULL, owner.name, owner.id, x.use_line
+        LIMIT ?
+      `).all(definition.id, limitResult.value) as UsageRow[];
 
-async function main() {
-  const app = Fastify({ logger: true });
+      return reply.send({
+        definition,
+        total,
+        truncated: total > rows.length,
+        files: groupUsages(rows)
+      });
+    } catch (error) {
+      app.log.error(error, "Error in /usages endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
 
-  // Register CORS support
-  await app.register(cors, {
-    origin: true
+  // GET /taint/summary - taint flow counts by label and source category, and tainted sinks per sink category
+  app.get("/taint/summary", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const flows = db.prepare(`SELECT label, source_category, node_count FROM v_taint_summary`).all();
+      const sinkCategories = db.prepare(`
+        SELECT COALESCE(cat.value, 'unknown') AS value, COUNT(*) AS count
+        FROM taint_flow_state tfs
+        LEFT JOIN node_properties cat ON cat.node_id = tfs.node_id AND cat.key = 'taint_category'
+        WHERE tfs.label = 'sink_reached'
+        GROUP BY value
+        ORDER BY count DESC, value
+      `).all();
+      return reply.send({ flows, sink_categories: sinkCategories });
+    } catch (error) {
+      app.log.error(error, "Error in /taint/summary endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
   });
 
-  // Connect to SQLite database in read-only mode
-  // In Docker, the path will be /app/cpg.db, locally it's ../../cpg.db
-  const dbPath = process.env.DB_PATH || "../../cpg.db";
-  let db: Database.Database;
-  
-  try {
-    db = new Database(dbPath, { readonly: true });
-    app.log.info(`Connected to database: ${dbPath}`);
-  } catch (error) {
-    app.log.error(`Failed to connect to database: ${error}`);
-    process.exit(1);
-  }
+  // GET /taint/sinks?category=...&limit=... - sinks reached by unsanitized taint, one row per source
+  app.get<{ Querystring: { category?: string; limit?: string } }>("/taint/sinks", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const category = request.query.category || '';
+      if (category !== '' && !/^[a-z_]{1,50}$/.test(category)) {
+        return reply.code(400).send({ error: "Invalid taint category" });
+      }
+      const limitResult = parseBoundedInt(request.query.limit, 'Limit', DEFAULT_TAINT_SINK_LIMIT, 1, MAX_TAINT_SINK_LIMIT);
+      if (!limitResult.valid) {
+        return reply.code(400).send({ error: limitResult.error });
+      }
 
-  // Health check endpoint (after database connection)
-  app.get("/health", async (request, reply) => {
+      const where = category !== '' ? `AND COALESCE(cat.value, 'unknown') = ?` : '';
+      const params: Array<string | number> = category !== '' ? [category] : [];
+      const { total } = db.prepare(`
+        SELECT COUNT(*) AS total
+        FROM taint_flow_state tfs
+        LEFT JOIN node_properties cat ON cat.node_id = tfs.node_id AND cat.key = 'taint_category'
+        WHERE tfs.label = 'sink_reached' ${where}
+      `).get(...params) as { total: number };
+
+      // The sink's spec description comes from the taint_specs entry of the function it calls
+      const sinks = db.prepare(`
+        SELECT tfs.node_id AS sink_id, sink.name AS sink_name, sink.file, sink.line,
+          COALESCE(cat.value, 'unknown') AS sink_category,
+          (SELECT ts.description FROM edges cs
+             JOIN nodes callee ON callee.id = cs.target
+             JOIN taint_specs ts ON ts.package = callee.package AND ts.func_name = callee.name AND ts.role = 'sink'
+           WHERE cs.source = tfs.node_id AND cs.kind = 'call_site' LIMIT 1) AS description,
+          tfs.source_id, src.name AS source_name, src.file AS source_file, src.line AS source_line,
+          tfs.source_category, tfs.min_hops AS hops,
+          fn.id AS function_id, fn.name AS function_name
+        FROM taint_flow_state tfs
+        JOIN nodes sink ON sink.id = tfs.node_id
+        JOIN nodes src ON src.id = tfs.source_id
+        LEFT JOIN node_properties cat ON cat.node_id = tfs.node_id AND cat.key = 'taint_category'
+        LEFT JOIN nodes fn ON fn.id = sink.parent_function
+        WHERE tfs.label = 'sink_reached' ${where}
+        ORDER BY sink_category, tfs.min_hops, sink.file, sink.line
+        LIMIT ?
+      `).all(...params, limitResult.value);
+
+      return reply.send({ total, truncated: total > sinks.length, sinks });
+    } catch (error) {
+      app.log.error(error, "Error in /taint/sinks endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /taint/hotspots - functions holding both a taint source and a sink, from the taint_path stored query
+  app.get("/taint/hotspots", async (request, reply) => {
     try {
-      // Check database connection
-      db.prepare("SELECT 1").get();
-      return reply.send({ 
-        status: "ok", 
-        database: "connected",
-        timestamp: new Date().toISOString()
-      });
+      const { db } = request.cpg;
+      const stored = db.prepare(`SELECT sql FROM queries WHERE name = 'taint_path'`).get() as { sql: string } | undefined;
+      if (!stored) {
+        return reply.send({ hotspots: [], truncated: false, timed_out: false });
+      }
+
+      const result = await runStoredQuery(request.cpg.path, stored.sql, {}, MAX_TAINT_HOTSPOTS);
+      const hotspots = result.rows.map(row =>
+        Object.fromEntries(result.columns.map((column, index) => [column, row[index]]))
+      );
+      return reply.send({ hotspots, truncated: result.truncated, timed_out: result.timedOut });
     } catch (error) {
-      app.log.error(error, "Health check failed");
-      return reply.code(503).send({ 
-        status: "error", 
-        database: "disconnected",
-        timestamp: new Date().toISOString()
-      });
+      app.log.error(error, "Error in /taint/hotspots endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
     }
   });
 
-  // GET /functions?q=<query>
-  app.get<{ Querystring: { q?: string } }>("/functions", async (request, reply) => {
+  // GET /taint/path?source=...&sink=... - the data-flow path from a taint source to a sink it reaches,
+  // as a graph plus the ordered hops with their lines
+  app.get<{ Querystring: { source: string; sink: string } }>("/taint/path", async (request, reply) => {
     try {
-      const rawQuery = request.query.q || "";
-      
-      // Validate and sanitize input
-      const validation = validateSearchQuery(rawQuery);
-      if (!validation.valid) {
-        return reply.code(400).send({ error: validation.error || "Invalid query" });
+      const { db } = request.cpg;
+      const source = sanitizeNodeId(request.query.source || '');
+      if (!source.valid) {
+        return reply.code(400).send({ error: source.error || "Invalid source ID" });
       }
-      
-      const sanitizedQuery = validation.sanitized;
-      
-      // If query is empty after sanitization, return empty results
-      if (sanitizedQuery === '') {
-        return reply.send([]);
+      const sink = sanitizeNodeId(request.query.sink || '');
+      if (!sink.valid) {
+        return reply.code(400).send({ error: sink.error || "Invalid sink ID" });
       }
-      
-      const stmt = db.prepare(`
-        SELECT id, name 
-        FROM nodes 
-        WHERE kind = 'function' AND name LIKE ?
-        LIMIT 50
-      `);
-      
-      // Use parameterized query - safe from SQL injection
-      const rows = stmt.all(`%${sanitizedQuery}%`) as FunctionRow[];
-      return reply.send(rows);
+
+      const path = findTaintPath(db, source.sanitized, sink.sanitized);
+      if (!path) {
+        return reply.code(404).send({ error: "No taint flow from this source to this sink" });
+      }
+
+      const placeholders = path.map(() => '?').join(',');
+      const rows = db.prepare(`
+        SELECT n.id, n.name, n.kind, n.file, n.line, n.end_line, tfs.label AS taint, fn.name AS function_name
+        FROM nodes n
+        LEFT JOIN taint_flow_state tfs ON tfs.node_id = n.id AND tfs.source_id = ?
+        LEFT JOIN nodes fn ON fn.id = n.parent_function
+        WHERE n.id IN (${placeholders})
+      `).all(source.sanitized, ...path) as Array<{
+        id: string;
+        name: string | null;
+        kind: string;
+        file: string | null;
+        line: number | null;
+        end_line: number | null;
+        taint: string | null;
+        function_name: string | null;
+      }>;
+      const byId = new Map(rows.map(row => [row.id, row]));
+      const hops = path.map(id => byId.get(id)).filter((row): row is NonNullable<typeof row> => row !== undefined);
+
+      return reply.send({
+        nodes: hops.map(hop => ({
+          data: {
+            id: hop.id,
+            label: hop.name || hop.kind,
+            kind: hop.kind,
+            line: hop.line,
+            end_line: hop.end_line,
+            taint: hop.taint
+          }
+        })),
+        edges: path.slice(1).map((target, index) => ({
+          data: { id: `taint-${index}`, source: path[index], target, kind: 'dfg' }
+        })),
+        paths: [path],
+        hops
+      });
     } catch (error) {
-      app.log.error(error, "Error in /functions endpoint");
+      app.log.error(error, "Error in /taint/path endpoint");
       return reply.code(500).send({ error: "Internal server error" });
     }
   });
 
-  // GET /function/graph?id=... - use query parameter to avoid issues with slashes in ID
-  app.get<{ Querystring: { id: string } }>("/function/graph", async (request, reply) => {
+  // GET /types/detail?id=... - a type declaration with its implementors, implemented
+  // interfaces, embedded types and method set, plus a graph of those relations
+  app.get<{ Querystring: { id: string } }>("/types/detail", async (request, reply) => {
     try {
-      const rawFunctionId = request.query.id || '';
-      
-      // Validate and sanitize input
-      const validation = sanitizeNodeId(rawFunctionId);
-      if (!validation.valid) {
-        return reply.code(400).send({ error: validation.error || "Invalid function ID" });
+      const { db } = request.cpg;
+      const id = sanitizeNodeId(request.query.id || '');
+      if (!id.valid) {
+        return reply.code(400).send({ error: id.error || "Invalid type ID" });
       }
-      
-      const functionId = validation.sanitized;
 
-      // Use the function_neighborhood query from the queries table
-      // This query returns callers and callees of the function
-      const neighborhoodStmt = db.prepare(`
-        SELECT 'caller' AS direction, n.id, n.name, n.package, n.file, n.line
-        FROM edges e JOIN nodes n ON n.id = e.source
-        WHERE e.target = ? AND e.kind = 'call' AND n.kind = 'function'
-        UNION ALL
-        SELECT 'callee' AS direction, n.id, n.name, n.package, n.file, n.line
-        FROM edges e JOIN nodes n ON n.id = e.target
-        WHERE e.source = ? AND e.kind = 'call' AND n.kind = 'function'
-        ORDER BY direction, name
-      `);
-      
-      const neighborhoodRows = neighborhoodStmt.all(functionId, functionId) as Array<{
-        direction: string;
+      const type = db.prepare(`
+        SELECT n.id, n.name, n.package, n.file, n.line, n.type_info AS signature, tk.value AS type_kind
+        FROM nodes n
+        LEFT JOIN node_properties tk ON tk.node_id = n.id AND tk.key = 'type_kind'
+        WHERE n.id = ? AND n.kind = 'type_decl'
+      `).get(id.sanitized) as {
         id: string;
         name: string;
         package: string | null;
         file: string | null;
         line: number | null;
+        signature: string | null;
+        type_kind: string | null;
+      } | undefined;
+      if (!type) {
+        return reply.code(404).send({ error: "Type declaration not found" });
+      }
+
+      const implementors = db.prepare(`
+        SELECT concrete_id AS id, concrete_name AS name, concrete_package AS package, method_count
+        FROM type_impl_map WHERE interface_id = ?
+        ORDER BY concrete_package, concrete_name
+      `).all(type.id) as TypeRelation[];
+      const interfaces = db.prepare(`
+        SELECT interface_id AS id, interface_name AS name, interface_package AS package, method_count
+        FROM type_impl_map WHERE concrete_id = ?
+        ORDER BY interface_package, interface_name
+      `).all(type.id) as TypeRelation[];
+      const embeds = db.prepare(`
+        SELECT embedded_id AS id, embedded_name AS name, embedded_package AS package
+        FROM type_hierarchy WHERE type_id = ? AND embedded_id IS NOT NULL
+        ORDER BY embedded_package, embedded_name
+      `).all(type.id) as TypeRelation[];
+      const embeddedBy = db.prepare(`
+        SELECT type_id AS id, type_name AS name, type_package AS package
+        FROM type_hierarchy WHERE embedded_id = ?
+        ORDER BY type_package, type_name
+      `).all(type.id) as TypeRelation[];
+
+      // Interfaces list their methods as field children; concrete types have has_method edges
+      // in type_method_set, which v_method_sets completes with methods matched by receiver name
+      const methods = type.type_kind === 'interface'
+        ? db.prepare(`
+            SELECT f.id, f.name, f.type_info AS signature, f.file, f.line,
+                   NULL AS complexity, NULL AS loc, 'field' AS kind
+            FROM edges e
+            JOIN nodes f ON f.id = e.target AND f.kind = 'field'
+            WHERE e.source = ? AND e.kind = 'ast'
+            ORDER BY f.line
+          `).all(type.id) as TypeMethod[]
+        : db.prepare(`
+            SELECT n.id, n.name, n.type_info AS signature, n.file, n.line,
+                   tms.complexity, tms.loc, 'function' AS kind
+            FROM type_method_set tms
+            JOIN nodes n ON n.id = tms.method_id
+            WHERE tms.type_id = ?
+            UNION
+            SELECT id, name, type_info, file, line, complexity, loc, 'function'
+            FROM v_method_sets
+            WHERE package IS ? AND receiver_type IN (?, ?)
+            ORDER BY 2
+          `).all(type.id, type.package, type.name, `*${type.name}`) as TypeMethod[];
+
+      const nodes: GraphNode[] = [{ data: { id: type.id, label: type.name, kind: 'type_decl', line: type.line } }];
+      const edges: GraphEdge[] = [];
+      const seen = new Set([type.id]);
+      const addNode = (relation: { id: string; name: string }, kind: string) => {
+        if (seen.has(relation.id)) return;
+        seen.add(relation.id);
+        nodes.push({ data: { id: relation.id, label: relation.name, kind } });
+      };
+      const addEdge = (source: string, target: string, kind: string) => {
+        edges.push({ data: { id: `${kind}:${source}:${target}`, source, target, kind } });
+      };
+      implementors.forEach(rel => { addNode(rel, 'type_decl'); addEdge(rel.id, type.id, 'implements'); });
+      interfaces.forEach(rel => { addNode(rel, 'type_decl'); addEdge(type.id, rel.id, 'implements'); });
+      embeds.forEach(rel => { addNode(rel, 'type_decl'); addEdge(type.id, rel.id, 'embeds'); });
+      embeddedBy.forEach(rel => { addNode(rel, 'type_decl'); addEdge(rel.id, type.id, 'embeds'); });
+      methods.forEach(method => {
+        addNode(method, method.kind);
+        addEdge(type.id, method.id, 'has_method');
+      });
+
+      return reply.send({
+        type,
+        implementors,
+        interfaces,
+        embeds,
+        embedded_by: embeddedBy,
+        methods,
+        nodes,
+        edges
+      });
+    } catch (error) {
+      app.log.error(error, "Error in /types/detail endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /comm/topology - components as nodes and the protocols between them as labeled edges
+  app.get("/comm/topology", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const rows = db.prepare(`
+        SELECT source_component, target_component, protocol_id, protocol_name, transport, encoding, label
+        FROM v_comm_topology
+      `).all() as Array<{
+        source_component: string;
+        target_component: string;
+        protocol_id: string;
+        protocol_name: string;
+        transport: string | null;
+        encoding: string | null;
+        label: string | null;
       }>;
-      
-      // Get the function itself (ID is TEXT in the database)
-      app.log.info(`Looking for function with ID: ${functionId}`);
-      const functionStmt = db.prepare(`SELECT id, name FROM nodes WHERE id = ? AND kind = 'function'`);
-      const functionRow = functionStmt.get(functionId) as { id: string; name: string } | undefined;
-      
-      if (!functionRow) {
-        app.log.warn(`Function not found: ${functionId}`);
-        // Try without kind check in case the node exists but kind is different
-        const anyNodeStmt = db.prepare(`SELECT id, name, kind FROM nodes WHERE id = ?`);
-        const anyNode = anyNodeStmt.get(functionId) as { id: string; name: string; kind: string } | undefined;
-        if (anyNode) {
-          app.log.warn(`Node exists but kind is '${anyNode.kind}', not 'function'`);
-          return reply.code(400).send({ error: `Node exists but is not a function (kind: ${anyNode.kind})` });
+
+      const components = new Set<string>();
+      rows.forEach(row => {
+        components.add(row.source_component);
+        components.add(row.target_component);
+      });
+
+      const nodes: GraphNode[] = Array.from(components).sort().map(component => ({
+        data: { id: component, label: component, kind: 'component' }
+      }));
+      const edges = rows.map(row => ({
+        data: {
+          id: `comm:${row.source_component}:${row.target_component}:${row.protocol_id}`,
+          source: row.source_component,
+          target: row.target_component,
+          kind: 'comm',
+          label: row.protocol_name,
+          protocol: row.protocol_id,
+          transport: row.transport,
+          encoding: row.encoding
         }
-        return reply.code(404).send({ error: `Function not found: ${functionId}` });
+      }));
+
+      return reply.send({ nodes, edges });
+    } catch (error) {
+      app.log.error(error, "Error in /comm/topology endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /comm/protocol?id=... - one protocol with its session types, participants, message
+  // steps and the code endpoints implementing each role
+  app.get<{ Querystring: { id: string } }>("/comm/protocol", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const id = (request.query.id || '').trim();
+      if (id === '') {
+        return reply.code(400).send({ error: "Protocol ID is required" });
       }
-      
-      app.log.info(`Found function: ${functionRow.name} (${functionRow.id})`);
-      
-      // Collect all unique node IDs (function + callers + callees)
-      const nodeIds = new Set<string>();
-      if (functionRow) {
-        nodeIds.add(functionRow.id);
+      if (id.length > MAX_ID_LENGTH) {
+        return reply.code(400).send({ error: `Protocol ID too long (max ${MAX_ID_LENGTH} characters)` });
       }
-      neighborhoodRows.forEach(row => nodeIds.add(row.id));
-      
-      // Format nodes for Cytoscape
-      const nodes: GraphNode[] = [];
-      if (functionRow) {
-        nodes.push({
-          data: {
-            id: functionRow.id,
-            label: functionRow.name || functionRow.id
-          }
-        });
+
+      const protocol = db.prepare(`
+        SELECT id, name, description, session_type_client, session_type_server,
+               transport, encoding, pattern, is_dual
+        FROM comm_protocols WHERE id = ?
+      `).get(id) as Record<string, unknown> | undefined;
+      if (!protocol) {
+        return reply.code(404).send({ error: "Protocol not found" });
       }
-      neighborhoodRows.forEach(row => {
-        nodes.push({
-          data: {
-            id: row.id,
-            label: row.name || row.id
-          }
-        });
+
+      const participants = db.prepare(`
+        SELECT p.component, p.role, p.description, c.status, c.endpoints_found, c.endpoints_expected, c.details
+        FROM comm_participants p
+        LEFT JOIN comm_conformance c ON c.protocol_id = p.protocol_id AND c.component = p.component
+        WHERE p.protocol_id = ?
+        ORDER BY CASE p.role WHEN 'client' THEN 0 WHEN 'server' THEN 1 ELSE 2 END, p.component
+      `).all(id);
+      const steps = db.prepare(`
+        SELECT step_order, participant, direction, message_type, payload_encoding, description
+        FROM comm_session_steps WHERE protocol_id = ?
+        ORDER BY step_order
+      `).all(id);
+      const endpoints = db.prepare(`
+        SELECT id, component, role, endpoint_type, function_id, function_name, package, file, line,
+               url_path, http_method, confidence
+        FROM comm_endpoints WHERE protocol_id = ?
+        ORDER BY component, role, file, line
+      `).all(id);
+
+      return reply.send({
+        protocol: { ...protocol, is_dual: Boolean(protocol.is_dual) },
+        participants,
+        steps,
+        endpoints
       });
-      
-      // Get edges between these nodes
-      const nodeIdArray = Array.from(nodeIds);
-      
-      // Safety check: if no nodes, return empty edges
-      if (nodeIdArray.length === 0) {
-        const response: GraphResponse = {
-          nodes,
-          edges: []
-        };
-        return reply.send(response);
+    } catch (error) {
+      app.log.error(error, "Error in /comm/protocol endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // POST /git/nodes - body { ids }; the git statistics of each function node's file, for graph overlays
+  app.post<{ Body: { ids?: unknown } }>("/git/nodes", async (request, reply) => {
+    try {
+      const { db, hasGitHistory } = request.cpg;
+      const ids = request.body?.ids;
+      if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string' || id.length > MAX_ID_LENGTH)) {
+        return reply.code(400).send({ error: "ids must be an array of node IDs" });
       }
-      
-      // Safety check: limit maximum number of nodes to prevent DoS
-      if (nodeIdArray.length > MAX_NODES_IN_GRAPH) {
-        app.log.warn(`Too many nodes requested: ${nodeIdArray.length}, limiting to ${MAX_NODES_IN_GRAPH}`);
-        nodeIdArray.splice(MAX_NODES_IN_GRAPH);
+      if (ids.length > MAX_NODES_IN_GRAPH) {
+        return reply.code(400).send({ error: `Too many node IDs (max ${MAX_NODES_IN_GRAPH})` });
       }
-      
-      // Use safe parameterized query with proper placeholders
-      // better-sqlite3 handles array binding safely, but we'll use explicit placeholders
-      const placeholders = nodeIdArray.map(() => '?').join(',');
-      const edgesStmt = db.prepare(`
-        SELECT e.source, e.target
-        FROM edges e
-        WHERE e.kind = 'call'
-          AND e.source IN (${placeholders})
-          AND e.target IN (${placeholders})
-      `);
-      
-      // Bind parameters safely - spread array twice for source and target
-      const edgeRows = edgesStmt.all(...nodeIdArray, ...nodeIdArray) as Array<{
-        source: string;
-        target: string;
-      }>;
-      
-      // Format edges for Cytoscape
-      const edges: GraphEdge[] = edgeRows.map((edge, index) => ({
+      if (ids.length === 0 || !hasGitHistory) {
+        return reply.send({});
+      }
+
+      const placeholders = ids.map(() => '?').join(',');
+      const rows = db.prepare(`
+        SELECT n.id, r.churn, r.commit_count, r.change_risk_score
+        FROM nodes n
+        JOIN v_file_risk r ON r.file = n.file
+        WHERE n.id IN (${placeholders}) AND n.kind = 'function' AND r.commit_count IS NOT NULL
+      `).all(...ids) as Array<{ id: string; churn: number; commit_count: number; change_risk_score: number }>;
+
+      const stats: Record<string, { churn: number; commit_count: number; change_risk_score: number }> = {};
+      for (const row of rows) {
+        stats[row.id] = { churn: row.churn, commit_count: row.commit_count, change_risk_score: row.change_risk_score };
+      }
+      return reply.send(stats);
+    } catch (error) {
+      app.log.error(error, "Error in /git/nodes endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /git/file?file=... - commit history summary and risk score of one file
+  app.get<{ Querystring: { file: string } }>("/git/file", async (request, reply) => {
+    try {
+      const { db, hasGitHistory } = request.cpg;
+      const file = (request.query.file || '').trim();
+      if (file === '') {
+        return reply.code(400).send({ error: "File is required" });
+      }
+      if (file.length > MAX_ID_LENGTH) {
+        return reply.code(400).send({ error: `File too long (max ${MAX_ID_LENGTH} characters)` });
+      }
+
+      const history = hasGitHistory ? db.prepare(`
+        SELECT g.file, g.commit_count, g.author_count, g.last_author, g.last_date,
+               g.insertions, g.deletions, g.churn, r.change_risk_score
+        FROM git_file_history g
+        LEFT JOIN v_file_risk r ON r.file = g.file
+        WHERE g.file = ?
+      `).get(file) : undefined;
+      if (!history) {
+        return reply.code(404).send({ error: "No git history for this file" });
+      }
+
+      return reply.send(history);
+    } catch (error) {
+      app.log.error(error, "Error in /git/file endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /git/risk?limit=<n> - files ranked by change risk (complexity combined with change velocity)
+  app.get<{ Querystring: { limit?: string } }>("/git/risk", async (request, reply) => {
+    try {
+      const { db, hasGitHistory } = request.cpg;
+      const limitResult = parseBoundedInt(request.query.limit, 'Limit', DEFAULT_RISK_FILE_LIMIT, 1, MAX_RISK_FILE_LIMIT);
+      if (!limitResult.valid) {
+        return reply.code(400).send({ error: limitResult.error });
+      }
+      if (!hasGitHistory) {
+        return reply.send([]);
+      }
+
+      const files = db.prepare(`
+        SELECT file, function_count, avg_complexity, max_complexity, commit_count, author_count,
+               churn, last_author, last_date, change_risk_score
+        FROM v_file_risk
+        WHERE commit_count IS NOT NULL
+        ORDER BY change_risk_score DESC
+        LIMIT ?
+      `).all(limitResult.value);
+
+      return reply.send(files);
+    } catch (error) {
+      app.log.error(error, "Error in /git/risk endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /slice?file=...&line=<n>&direction=backward|forward&depth=<n> - program slice from the
+  // data-flow nodes on one source line, via the backward_slice / forward_slice stored queries
+  app.get<{ Querystring: { file: string; line?: string; direction?: string; depth?: string } }>("/slice", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const file = (request.query.file || '').trim();
+      if (file === '') {
+        return reply.code(400).send({ error: "File is required" });
+      }
+      if (file.length > MAX_ID_LENGTH) {
+        return reply.code(400).send({ error: `File too long (max ${MAX_ID_LENGTH} characters)` });
+      }
+      if (!request.query.line) {
+        return reply.code(400).send({ error: "Line is required" });
+      }
+      const lineResult = parseBoundedInt(request.query.line, 'Line', 1, 1, Number.MAX_SAFE_INTEGER);
+      if (!lineResult.valid) {
+        return reply.code(400).send({ error: lineResult.error });
+      }
+      const direction = request.query.direction || 'backward';
+      if (!(SLICE_DIRECTIONS as readonly string[]).includes(direction)) {
+        return reply.code(400).send({ error: `Direction must be one of: ${SLICE_DIRECTIONS.join(', ')}` });
+      }
+      const depthResult = parseBoundedInt(request.query.depth, 'Depth', DEFAULT_SLICE_DEPTH, 1, MAX_SLICE_DEPTH);
+      if (!depthResult.valid) {
+        return reply.code(400).send({ error: depthResult.error });
+      }
+
+      const kinds = SLICE_EDGE_KINDS[direction as typeof SLICE_DIRECTIONS[number]];
+      const kindPlaceholders = kinds.map(() => '?').join(',');
+      const seeds = (db.prepare(`
+        SELECT n.id FROM nodes n
+        WHERE n.file = ? AND n.line = ?
+          AND EXISTS (
+            SELECT 1 FROM edges e
+            WHERE e.kind IN (${kindPlaceholders}) AND (e.source = n.id OR e.target = n.id)
+          )
+        ORDER BY n.col
+        LIMIT ?
+      `).all(file, lineResult.value, ...kinds, MAX_SLICE_SEEDS) as Array<{ id: string }>).map(row => row.id);
+      if (seeds.length === 0) {
+        return reply.code(404).send({ error: "No data-flow node on this line" });
+      }
+
+      const stored = db.prepare(`SELECT sql FROM queries WHERE name = ?`).get(`${direction}_slice`) as { sql: string } | undefined;
+      if (!stored) {
+        return reply.code(404).send({ error: `Stored query ${direction}_slice not found` });
+      }
+      const bounded = boundSliceDepth(stored.sql, depthResult.value);
+      if (bounded === null) {
+        app.log.error(`Stored query ${direction}_slice has no s.depth bound`);
+        return reply.code(500).send({ error: `Stored query ${direction}_slice has no depth bound, so depth ${depthResult.value} cannot be applied` });
+      }
+      const sql = seedSliceNodes(bounded);
+      if (sql === null) {
+        app.log.error(`Stored query ${direction}_slice does not start from :node_id`);
+        return reply.code(500).send({ error: `Stored query ${direction}_slice does not start from :node_id, so the line cannot be sliced` });
+      }
+
+      // A line can hold several data-flow nodes; the slice of the line is the union of theirs,
+      // found in one run of the query under one deadline
+      const result = await runStoredQuery(request.cpg.path, sql, { node_ids: JSON.stringify(seeds) }, MAX_NODES_IN_GRAPH);
+      const sliceNodes = result.rows.map(row => Object.fromEntries(result.columns.map((column, index) => [column, row[index]])));
+
+      const nodes = sliceNodes.map(node => ({
         data: {
-          id: `edge-${index}`,
-          source: String(edge.source),
-          target: String(edge.target)
+          id: node.id as string,
+          label: (node.name as string | null) || (node.kind as string),
+          kind: node.kind as string,
+          line: node.line as number | null,
+          end_line: node.end_line as number | null,
+          file: node.file as string | null,
+          slice: seeds.includes(node.id as string) ? 'seed' : undefined
         }
       }));
-      
-      const response: GraphResponse = {
+      const ids = nodes.map(node => node.data.id);
+      const lines = Array.from(new Set(
+        nodes.filter(node => node.data.file === file && node.data.line).map(node => node.data.line as number)
+      )).sort((a, b) => a - b);
+
+      return reply.send({
         nodes,
-        edges
-      };
-      
-      return reply.send(response);
+        edges: loadEdges(db, ids, [...kinds]),
+        truncated: result.truncated || undefined,
+        timed_out: result.timedOut || undefined,
+        file,
+        line: lineResult.value,
+        direction,
+        depth: depthResult.value,
+        seeds,
+        lines
+      });
     } catch (error) {
-      app.log.error(error, "Error in /function/:id/graph endpoint");
+      app.log.error(error, "Error in /slice endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /files - every file in sources, grouped by package, with its outline entry count
+  app.get("/files", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const rows = db.prepare(`
+        SELECT s.file, COALESCE(s.package, '') AS package, COALESCE(o.symbols, 0) AS symbols
+        FROM sources s
+        LEFT JOIN (SELECT file, COUNT(*) AS symbols FROM file_outline GROUP BY file) o ON o.file = s.file
+        ORDER BY package, s.file
+      `).all() as Array<{ file: string; package: string; symbols: number }>;
+
+      const packages: Array<{ package: string; files: Array<{ file: string; symbols: number }> }> = [];
+      for (const row of rows) {
+        let group = packages[packages.length - 1];
+        if (!group || group.package !== row.package) {
+          group = { package: row.package, files: [] };
+          packages.push(group);
+        }
+        group.files.push({ file: row.file, symbols: row.symbols });
+      }
+
+      return reply.send({ packages });
+    } catch (error) {
+      app.log.error(error, "Error in /files endpoint");
+      return reply.code(500).send({ error: "Internal server error" });
+    }
+  });
+
+  // GET /files/outline?file=... - functions and types declared in a file, nested by parent
+  app.get<{ Querystring: { file: string } }>("/files/outline", async (request, reply) => {
+    try {
+      const { db } = request.cpg;
+      const file = (request.query.file || '').trim();
+      if (file === '') {
+        return reply.code(400).send({ error: "File is required" });
+      }
+      if (file.length > MAX_ID_LENGTH) {
+        return reply.code(400).send({ error: `File too long (max ${MAX_ID_LENGTH} characters)` });
+      }
+
+      const source = db.prepare(`SELECT file, package FROM sources WHERE file = ?`)
+        .get(file) as { file: string; package: string | null } | undefined;
+      if (!source) {
+        return reply.code(404).send({ error: "File not found" });
+      }
+
+      const rows = db.prepare(`
+        SELECT id, name, kind, line, end_line, signature, parent_id, COALESCE(depth, 0) AS depth
+        FROM file_outline
+        WHERE file = ?
+        ORDER BY line, depth
+      `).all(file) as Omit<OutlineEntry, 'children'>[];
+
+      return reply.send({
+        file: source.file,
+        package: source.package,
+        entries: buildOutlineTree(rows)
+      });
+    } catch (error) {
+      app.log.error(error, "Error in /files/outline endpoint");
       return reply.code(500).send({ error: "Internal server error" });
     }
   });
 
-  // GET /source?id=... - use query parameter to avoid issues with slashes in ID
-  app.get<{ Querystring: { id: string } }>("/source", async (request, reply) => {
+  // GET /source?id=...&full=true - use query parameter to avoid issues with slashes in ID.
+  // With full=true the whole file is returned and the node's lines are given as `range`.
+  app.get<{ Querystring: { id: string; full?: string } }>("/source", async (request, reply) => {
     try {
+      const { db } = request.cpg;
       const rawNodeId = request.query.id || '';
       
       // Validate and sanitize input
@@ -352,6 +2958,11 @@ async function main() {
       
       const nodeId = validation.sanitized;
 
+      const full = request.query.full;
+      if (full !== undefined && full !== 'true' && full !== 'false') {
+        return reply.code(400).send({ error: "full must be true or false" });
+      }
+
       // Check if this is an external node (starts with "ext::")
       if (nodeId.startsWith('ext::')) {
         // Get node info for external functions
@@ -414,6 +3025,18 @@ async function main() {
       const lines = source.content.split('\n');
       const startLine = (node.line || 1) - 1; // Convert to 0-based index
       const endLine = (node.end_line || node.line || lines.length) - 1;
+
+      if (full === 'true') {
+        const fileResponse: SourceRow = {
+          file_name: node.file,
+          start_line: 1,
+          end_line: lines.length,
+          code: source.content,
+          range: { start: startLine + 1, end: endLine + 1 }
+        };
+        return reply.send(fileResponse);
+      }
+
       const code = lines.slice(startLine, endLine + 1).join('\n');
       
       const response: SourceRow = {
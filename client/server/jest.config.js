@@ -4,7 +4,7 @@ module.exports = {
   roots: ['<rootDir>/__tests__'],
   testMatch: ['**/*.test.ts'],
   collectCoverageFrom: [
-    'index.ts',
+    '*.ts',
     '!**/node_modules/**',
     '!**/__tests__/**',
   ],
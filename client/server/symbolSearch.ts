@@ -0,0 +1,163 @@
+// Symbol search: query parsing, the in-memory search-key index and ranking. The /symbols route
+// loads the symbols from the database and hands them to indexSymbols once per snapshot.
+
+export const SYMBOL_KINDS = ['function', 'method', 'type', 'field', 'const', 'var'] as const;
+export type SymbolKind = typeof SYMBOL_KINDS[number];
+
+export interface SymbolEntry {
+  id: string;
+  name: string;
+  kind: SymbolKind;
+  package: string | null;
+  file: string | null;
+  line: number | null;
+  signature: string | null;
+  // Lowercased name and, for methods, `Receiver.Name`; words split at camel-case and `_` boundaries
+  search: string;
+  qualified: string;
+  words: string[];
+}
+
+// Symbols with lookup maps from search keys to positions in `entries`, each list ascending:
+// - grams: every distinct two- and three-character substring of the name and qualified name
+// - initials: the first two characters a camel-case match can start with, i.e. a word's first two
+//   letters or the first letters of two words in order
+// - packages: lowercased package name
+export interface SymbolIndex {
+  entries: SymbolEntry[];
+  grams: Map<string, number[]>;
+  initials: Map<string, number[]>;
+  packages: Map<string, number[]>;
+}
+
+export interface SymbolQuery {
+  text: string;
+  kinds: SymbolKind[];
+  packages: string[];
+}
+
+// Split an identifier into lowercase words: handleHTTPRequest -> handle, http, request
+export function identifierWords(name: string): string[] {
+  return (name.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) || []).map(word => word.toLowerCase());
+}
+
+// Whether the query can be spelled by taking a non-empty prefix of some words in order,
+// e.g. "hr" or "handReq" for handleHTTPRequest
+export function matchesWordPrefixes(words: string[], query: string): boolean {
+  // reached[i]: the first i query characters are spelled by the words seen so far
+  const reached: boolean[] = [true];
+  for (const word of words) {
+    for (let start = query.length - 1; start >= 0; start--) {
+      if (!reached[start]) continue;
+      for (let length = 0; length < word.length && word[length] === query[start + length]; length++) {
+        reached[start + length + 1] = true;
+      }
+    }
+    if (reached[query.length]) return true;
+  }
+  return false;
+}
+
+// Rank tier of a symbol for a lowercase query: 0 exact, 1 prefix, 2 camel-case, 3 substring, -1 no match.
+// Queries containing a dot are matched against `Receiver.Name` for methods.
+export function rankSymbol(entry: SymbolEntry, query: string): number {
+  const target = query.indexOf('.') !== -1 ? entry.qualified : entry.search;
+  if (target === query) return 0;
+  if (target.startsWith(query)) return 1;
+  if (query.indexOf('.') === -1 && matchesWordPrefixes(entry.words, query)) return 2;
+  if (target.indexOf(query) !== -1) return 3;
+  return -1;
+}
+
+export function indexSymbols(entries: SymbolEntry[]): SymbolIndex {
+  const index: SymbolIndex = { entries, grams: new Map(), initials: new Map(), packages: new Map() };
+  const add = (map: Map<string, number[]>, key: string, position: number) => {
+    const list = map.get(key);
+    if (!list) {
+      map.set(key, [position]);
+    } else if (list[list.length - 1] !== position) {
+      list.push(position);
+    }
+  };
+  entries.forEach((entry, position) => {
+    for (const target of entry.qualified === entry.search ? [entry.search] : [entry.search, entry.qualified]) {
+      for (let i = 0; i + 2 <= target.length; i++) {
+        add(index.grams, target.slice(i, i + 2), position);
+        if (i + 3 <= target.length) add(index.grams, target.slice(i, i + 3), position);
+      }
+    }
+    entry.words.forEach((word, i) => {
+      if (word.length >= 2) add(index.initials, word.slice(0, 2), position);
+      for (const later of entry.words.slice(i + 1)) {
+        add(index.initials, word[0] + later[0], position);
+      }
+    });
+    add(index.packages, (entry.package || '').toLowerCase(), position);
+  });
+  return index;
+}
+
+// Intersect ascending position lists, shortest first
+function intersectPositions(lists: number[][]): number[] {
+  if (lists.length === 0) return [];
+  const [shortest, ...rest] = [...lists].sort((a, b) => a.length - b.length);
+  const others = rest.map(list => new Set(list));
+  return shortest.filter(position => others.every(other => other.has(position)));
+}
+
+// Positions of the symbols that can match a search: those holding every three-character piece of
+// the text (or the two-character text itself) plus camel-case candidates from the initials map.
+// A one-character text matches most symbols anyway, so it and filter-only searches take them all.
+// The candidates are still ranked by rankSymbol, which drops the false positives.
+export function symbolCandidates(index: SymbolIndex, query: SymbolQuery): number[] {
+  let candidates: number[] | null = null;
+  const { text } = query;
+  if (text.length >= 2) {
+    const pieces = text.length === 2 ? [text] : Array.from({ length: text.length - 2 }, (_, i) => text.slice(i, i + 3));
+    const found = new Set(intersectPositions(pieces.map(piece => index.grams.get(piece) || [])));
+    if (text.indexOf('.') === -1) {
+      for (const position of index.initials.get(text.slice(0, 2)) || []) {
+        found.add(position);
+      }
+    }
+    candidates = Array.from(found).sort((a, b) => a - b);
+  }
+
+  if (query.packages.length > 0) {
+    const inPackages = new Set<number>();
+    index.packages.forEach((positions, pkg) => {
+      if (query.packages.some(filter => pkg.indexOf(filter) !== -1)) {
+        positions.forEach(position => inPackages.add(position));
+      }
+    });
+    candidates = (candidates || Array.from(inPackages).sort((a, b) => a - b)).filter(position => inPackages.has(position));
+  }
+
+  return candidates || index.entries.map((_, position) => position);
+}
+
+// Split `kind:` and `pkg:` filters (comma-separated, repeatable) from the name text of a search
+export function parseSymbolQuery(raw: string): { valid: boolean; query: SymbolQuery; error?: string } {
+  const query: SymbolQuery = { text: '', kinds: [], packages: [] };
+  const text: string[] = [];
+  for (const token of raw.split(/\s+/)) {
+    const filter = /^(kind|pkg):(.*)$/i.exec(token);
+    if (!filter) {
+      if (token !== '') text.push(token);
+      continue;
+    }
+    const values = filter[2].split(',').map(value => value.trim().toLowerCase()).filter(value => value !== '');
+    if (filter[1].toLowerCase() === 'kind') {
+      for (const value of values) {
+        if (!(SYMBOL_KINDS as readonly string[]).includes(value)) {
+          return { valid: false, query, error: `Kind must be one of: ${SYMBOL_KINDS.join(', ')}` };
+        }
+        query.kinds.push(value as SymbolKind);
+      }
+    } else {
+      query.packages.push(...values);
+    }
+  }
+  query.text = text.join(' ').toLowerCase();
+  return { valid: true, query };
+}
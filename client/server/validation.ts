@@ -0,0 +1,131 @@
+// Request validation helpers for the API routes. They only check and normalize raw input, so
+// they live apart from the routes and are tested directly.
+
+export const MAX_QUERY_LENGTH = 200;
+export const MAX_ID_LENGTH = 500;
+export const MIN_QUERY_LENGTH = 1;
+
+// Node ID characters: package::function@file:line:col plus method receivers (*Store, Map[K, V])
+// and the SSA names of external callees ((*sync.Mutex).Lock, handle$1). Spaces only follow commas.
+const NODE_ID_PATTERN = /^(?:[a-zA-Z0-9:_/@.\-*()[\]$,]|, )+$/;
+
+export function validateFunctionId(id: string): { valid: boolean; error?: string } {
+  if (typeof id !== 'string') {
+    return { valid: false, error: "Function ID is required" };
+  }
+  
+  const trimmed = id.trim();
+  if (trimmed === '') {
+    return { valid: false, error: "Function ID cannot be empty" };
+  }
+  
+  if (trimmed.length > MAX_ID_LENGTH) {
+    return { valid: false, error: `Function ID too long (max ${MAX_ID_LENGTH} characters)` };
+  }
+  
+  if (!NODE_ID_PATTERN.test(trimmed)) {
+    return { valid: false, error: "Function ID contains invalid characters" };
+  }
+  
+  return { valid: true };
+}
+
+export function validateSearchQuery(query: string): { valid: boolean; sanitized: string; error?: string } {
+  if (typeof query !== 'string') {
+    return { valid: false, sanitized: '', error: "Query must be a string" };
+  }
+  
+  // Trim whitespace
+  let sanitized = query.trim();
+  
+  // Check minimum length (but allow empty for "show all")
+  if (sanitized.length > 0 && sanitized.length < MIN_QUERY_LENGTH) {
+    return { valid: false, sanitized: '', error: `Query too short (min ${MIN_QUERY_LENGTH} character)` };
+  }
+  
+  // Limit maximum length
+  if (sanitized.length > MAX_QUERY_LENGTH) {
+    sanitized = sanitized.substring(0, MAX_QUERY_LENGTH);
+  }
+  
+  // Remove null bytes and control characters (except newlines and tabs).
+  // Search runs over the in-memory symbol index, so `_` and `%` stay literal.
+  sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
+  
+  return { valid: true, sanitized };
+}
+
+export function sanitizeNodeId(nodeId: string): { valid: boolean; sanitized: string; error?: string } {
+  if (typeof nodeId !== 'string') {
+    return { valid: false, sanitized: '', error: "Node ID is required" };
+  }
+  
+  let sanitized: string;
+  try {
+    // Decode URL encoding
+    sanitized = decodeURIComponent(nodeId);
+  } catch (e) {
+    // If decoding fails, use as-is but log warning
+    sanitized = nodeId;
+  }
+  
+  sanitized = sanitized.trim();
+  
+  if (sanitized === '') {
+    return { valid: false, sanitized: '', error: "Node ID cannot be empty" };
+  }
+  
+  if (sanitized.length > MAX_ID_LENGTH) {
+    return { valid: false, sanitized: '', error: `Node ID too long (max ${MAX_ID_LENGTH} characters)` };
+  }
+  
+  // Remove null bytes and control characters
+  sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
+  
+  if (!NODE_ID_PATTERN.test(sanitized)) {
+    return { valid: false, sanitized: '', error: "Node ID contains invalid characters" };
+  }
+  
+  return { valid: true, sanitized };
+}
+
+export function parseBoundedInt(
+  raw: string | undefined,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number
+): { valid: boolean; value: number; error?: string } {
+  if (raw === undefined || raw === '') {
+    return { valid: true, value: fallback };
+  }
+
+  if (!/^\d+$/.test(raw)) {
+    return { valid: false, value: fallback, error: `${name} must be a non-negative integer` };
+  }
+
+  const value = parseInt(raw, 10);
+  if (value < min || value > max) {
+    return { valid: false, value: fallback, error: `${name} must be between ${min} and ${max}` };
+  }
+
+  return { valid: true, value };
+}
+
+// Named parameters (:node_id, :function_id, ...) of a stored query, in order of first use.
+// Quoted strings and comments are skipped so literals like ' -> ' are not mistaken for parameters.
+export function extractQueryParams(sql: string): string[] {
+  const stripped = sql
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/--[^\n]*/g, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '');
+  const params: string[] = [];
+  const pattern = /:([A-Za-z_][A-Za-z0-9_]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(stripped)) !== null) {
+    if (!params.includes(match[1])) {
+      params.push(match[1]);
+    }
+  }
+  return params;
+}
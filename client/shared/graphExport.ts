@@ -0,0 +1,146 @@
+// Text serializers for graph exports, shared by the API's ?format= responses and the viewer's
+// export menu so both write the same files. Only the fields the formats read are typed here;
+// GraphML writes every other scalar field it finds on the elements.
+//
+// This directory belongs to neither package: its package.json keeps it CommonJS so the server can
+// require it through ts-node, and tsconfig.app includes it so Vite bundles it like app source.
+
+export interface ExportNode {
+  data: {
+    id: string;
+    label: string;
+    parent?: string;
+  };
+}
+
+export interface ExportEdge {
+  data: {
+    id: string;
+    source: string;
+    target: string;
+    kind?: string;
+    label?: string;
+  };
+}
+
+export interface ExportGraph {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+// Call edges are the common case; only other kinds, or explicit labels, are printed in exports
+function exportEdgeLabel(edge: ExportEdge): string | undefined {
+  return edge.data.label ?? (edge.data.kind && edge.data.kind !== 'call' ? edge.data.kind : undefined);
+}
+
+// Compound parents become clusters or subgraphs around their children rather than nodes
+function splitCompoundNodes(graph: ExportGraph) {
+  const parentIds = new Set(graph.nodes.map(node => node.data.parent).filter((id): id is string => !!id));
+  const parents = graph.nodes.filter(node => parentIds.has(node.data.id));
+  const childrenOf = (parentId: string | undefined) =>
+    graph.nodes.filter(node => !parentIds.has(node.data.id) && node.data.parent === parentId);
+  const edges = graph.edges.filter(edge => !parentIds.has(edge.data.source) && !parentIds.has(edge.data.target));
+  return { parents, childrenOf, edges };
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+export function graphToDot(graph: ExportGraph, name = 'graph'): string {
+  const { parents, childrenOf, edges } = splitCompoundNodes(graph);
+  const nodeLine = (node: ExportNode, indent: string) => `${indent}${dotString(node.data.id)} [label=${dotString(node.data.label)}];`;
+
+  const lines = [`digraph ${dotString(name)} {`, '  node [shape=box, style=rounded];'];
+  parents.forEach((parent, index) => {
+    lines.push(`  subgraph cluster_${index} {`, `    label=${dotString(parent.data.label)};`);
+    childrenOf(parent.data.id).forEach(node => lines.push(nodeLine(node, '    ')));
+    lines.push('  }');
+  });
+  childrenOf(undefined).forEach(node => lines.push(nodeLine(node, '  ')));
+  edges.forEach(edge => {
+    const label = exportEdgeLabel(edge);
+    lines.push(`  ${dotString(edge.data.source)} -> ${dotString(edge.data.target)}${label ? ` [label=${dotString(label)}]` : ''};`);
+  });
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+export function xmlEscape(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// GraphML attribute types for the scalar data fields present on the elements
+function graphmlKeys(elements: Array<Record<string, unknown>>, skip: string[]): Map<string, string> {
+  const keys = new Map<string, string>();
+  elements.forEach(data => {
+    Object.keys(data).forEach(key => {
+      const value = data[key];
+      if (skip.includes(key) || keys.has(key)) return;
+      if (typeof value === 'number') keys.set(key, 'double');
+      else if (typeof value === 'boolean') keys.set(key, 'boolean');
+      else if (typeof value === 'string') keys.set(key, 'string');
+    });
+  });
+  return keys;
+}
+
+export function graphToGraphML(graph: ExportGraph): string {
+  const nodeData = graph.nodes.map(node => node.data as Record<string, unknown>);
+  const edgeData = graph.edges.map(edge => edge.data as Record<string, unknown>);
+  const nodeKeys = graphmlKeys(nodeData, ['id']);
+  const edgeKeys = graphmlKeys(edgeData, ['id', 'source', 'target']);
+  const dataLines = (data: Record<string, unknown>, keys: Map<string, string>, prefix: string) =>
+    Array.from(keys.keys())
+      .filter(key => data[key] !== undefined && data[key] !== null)
+      .map(key => `      <data key="${prefix}_${xmlEscape(key)}">${xmlEscape(String(data[key]))}</data>`);
+  const keyLines = (keys: Map<string, string>, prefix: string, kind: string) =>
+    Array.from(keys.keys()).map(key =>
+      `  <key id="${prefix}_${xmlEscape(key)}" for="${kind}" attr.name="${xmlEscape(key)}" attr.type="${keys.get(key)}"/>`);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...keyLines(nodeKeys, 'n', 'node'),
+    ...keyLines(edgeKeys, 'e', 'edge'),
+    '  <graph id="G" edgedefault="directed">'
+  ];
+  graph.nodes.forEach((node, index) => {
+    lines.push(`    <node id="${xmlEscape(node.data.id)}">`, ...dataLines(nodeData[index], nodeKeys, 'n'), '    </node>');
+  });
+  graph.edges.forEach((edge, index) => {
+    lines.push(
+      `    <edge id="${xmlEscape(edge.data.id)}" source="${xmlEscape(edge.data.source)}" target="${xmlEscape(edge.data.target)}">`,
+      ...dataLines(edgeData[index], edgeKeys, 'e'),
+      '    </edge>'
+    );
+  });
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+// Mermaid labels are quoted; quotes inside them need its entity syntax
+function mermaidLabel(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`;
+}
+
+export function graphToMermaid(graph: ExportGraph): string {
+  const { parents, childrenOf, edges } = splitCompoundNodes(graph);
+  // Node IDs contain characters Mermaid does not accept, so nodes are numbered
+  const aliases = new Map(graph.nodes.map((node, index) => [node.data.id, `n${index}`] as [string, string]));
+  const nodeLine = (node: ExportNode, indent: string) => `${indent}${aliases.get(node.data.id)}[${mermaidLabel(node.data.label)}]`;
+
+  const lines = ['flowchart LR'];
+  parents.forEach(parent => {
+    lines.push(`  subgraph ${aliases.get(parent.data.id)} [${mermaidLabel(parent.data.label)}]`);
+    childrenOf(parent.data.id).forEach(node => lines.push(nodeLine(node, '    ')));
+    lines.push('  end');
+  });
+  childrenOf(undefined).forEach(node => lines.push(nodeLine(node, '  ')));
+  edges.forEach(edge => {
+    const label = exportEdgeLabel(edge);
+    const arrow = label ? `-->|${mermaidLabel(label)}|` : '-->';
+    lines.push(`  ${aliases.get(edge.data.source)} ${arrow} ${aliases.get(edge.data.target)}`);
+  });
+  return lines.join('\n') + '\n';
+}
@@ -1,38 +1,256 @@
-import { useReducer, useCallback, useRef, useEffect, useMemo, memo } from 'react';
+import { Fragment, useReducer, useCallback, useRef, useEffect, useMemo, memo } from 'react';
 import axios from 'axios';
 import './App.css';
 import Graph from './Graph';
 import SourceViewer from './SourceViewer';
-import type { FunctionRow, GraphResponse, SourceResponse } from './types';
+import EdgeKindPicker from './components/EdgeKindPicker';
+import QueryPanel from './components/QueryPanel';
+import QueryResultTable from './components/QueryResultTable';
+import FindingsPanel from './components/FindingsPanel';
+import Dashboard from './components/Dashboard';
+import UsagesPanel from './components/UsagesPanel';
+import FilesPanel from './components/FilesPanel';
+import TaintPanel from './components/TaintPanel';
+import TypeDetails from './components/TypeDetails';
+import ProtocolDetails from './components/ProtocolDetails';
+import DiffDetails from './components/DiffDetails';
+import type {
+  CommEndpoint,
+  CommProtocolDetail,
+  ComplexityBucket,
+  DashboardData,
+  DashboardMetric,
+  DashboardOverview,
+  DatabaseInfo,
+  DiffResponse,
+  EdgeKindRow,
+  FileHeat,
+  Finding,
+  FindingFacets,
+  FindingFilters,
+  FindingsPage,
+  FileGitHistory,
+  GitMetric,
+  NodeGitStats,
+  SymbolPage,
+  SymbolResult,
+  GraphDirection,
+  GraphExpansion,
+  GraphLayout,
+  GraphOptions,
+  GraphResponse,
+  GraphView,
+  Hotspot,
+  PathOptions,
+  LineRange,
+  MetricEncoding,
+  NodeFindingSummary,
+  NodeMetric,
+  PackageSummary,
+  QueryDisplay,
+  QueryResult,
+  SidebarTab,
+  SliceDirection,
+  SliceResponse,
+  SourceResponse,
+  StoredQuery,
+  TopFunction,
+  Usage,
+  UsageFunctionGroup,
+  SourcePackage,
+  FileOutline,
+  OutlineEntry,
+  TaintHop,
+  TaintHotspot,
+  TaintPathResponse,
+  TaintSink,
+  TaintSinksPage,
+  TaintSummary,
+  TypeDetail,
+  TypeMethod,
+  UsagesResponse,
+} from './types';
 import { logger } from './utils/logger';
-import { DEBOUNCE_DELAY, API_BASE_URL } from './constants';
+import { applyExpansions } from './utils/graphExpansion';
+import { buildViewUrl, parseViewUrl, type ViewUrlState } from './utils/viewUrl';
+import {
+  DEBOUNCE_DELAY,
+  API_BASE_URL,
+  DEFAULT_GRAPH_DEPTH,
+  MAX_GRAPH_DEPTH,
+  GRAPH_DIRECTIONS,
+  DEFAULT_PATH_COUNT,
+  MAX_PATH_COUNT,
+  DEFAULT_PATH_DEPTH,
+  MAX_PATH_DEPTH,
+  DEFAULT_EDGE_KINDS,
+  NEIGHBOR_DIRECTIONS,
+  NEIGHBOR_DIRECTION_LABELS,
+  FINDINGS_PAGE_SIZE,
+  MAX_SOURCE_FINDINGS,
+  MAX_NODES_IN_GRAPH,
+  NODE_METRIC_LABELS,
+  GIT_METRIC_LABELS,
+  GRAPH_LAYOUT_LABELS,
+  DASHBOARD_LIST_SIZE,
+  MAX_EXPANDED_PACKAGES,
+  SYMBOL_PAGE_SIZE,
+} from './constants';
+
+const SIDEBAR_TABS: Array<{ tab: SidebarTab; label: string }> = [
+  { tab: 'functions', label: 'Functions' },
+  { tab: 'files', label: 'Files' },
+  { tab: 'queries', label: 'Queries' },
+  { tab: 'findings', label: 'Findings' },
+  { tab: 'taint', label: 'Taint' },
+];
+
+// Call graphs read best as a hierarchy and control flow as a tree from its entry
+const DEFAULT_GRAPH_LAYOUTS: Partial<Record<GraphView, GraphLayout>> = {
+  neighborhood: 'hierarchical',
+  path: 'hierarchical',
+  diff: 'hierarchical',
+  cfg: 'breadthfirst',
+  taint: 'breadthfirst',
+  slice: 'breadthfirst',
+};
 
 type AppState = {
   searchQuery: string;
-  functions: FunctionRow[];
+  symbols: SymbolPage | null;
   selectedFunctionId: string | null;
+  pathTargetId: string | null;
+  pathOptions: PathOptions;
+  selectedNodeId: string | null;
+  graphView: GraphView;
+  highlightRange: LineRange | null;
   graphData: GraphResponse | null;
+  // In-place expansion steps of the neighborhood view, replayed on top of expansionBase
+  expansions: GraphExpansion[];
+  expansionBase: GraphResponse | null;
   sourceData: SourceResponse | null;
   focusMode: boolean;
+  // Layouts picked by hand, per view
+  graphLayouts: Partial<Record<GraphView, GraphLayout>>;
+  graphOptions: GraphOptions;
+  metricEncoding: MetricEncoding;
+  edgeKinds: EdgeKindRow[];
+  queries: StoredQuery[];
+  queryResult: QueryResult | null;
+  queryDisplay: QueryDisplay;
+  sidebarTab: SidebarTab;
+  findingFacets: FindingFacets | null;
+  findingFilters: FindingFilters;
+  findingsPage: FindingsPage | null;
+  selectedFindingId: number | null;
+  nodeFindings: Record<string, NodeFindingSummary>;
+  sourceFindings: Finding[];
+  dashboard: DashboardData | null;
+  dashboardMetric: DashboardMetric;
+  topFunctions: TopFunction[];
+  expandedPackages: string[];
+  showExternalPackages: boolean;
+  usages: UsagesResponse | null;
+  selectedUseId: string | null;
+  sourceFiles: SourcePackage[] | null;
+  selectedFile: string | null;
+  fileOutline: FileOutline | null;
+  taintSummary: TaintSummary | null;
+  taintSinks: TaintSinksPage | null;
+  taintHotspots: TaintHotspot[] | null;
+  taintCategory: string;
+  selectedTaintSink: TaintSink | null;
+  taintHops: TaintHop[] | null;
+  typeDetail: TypeDetail | null;
+  commProtocol: CommProtocolDetail | null;
+  gitMetric: GitMetric | null;
+  nodeGitStats: Record<string, NodeGitStats>;
+  sourceGitHistory: FileGitHistory | null;
+  slice: SliceResponse | null;
+  diff: DiffResponse | null;
+  databases: DatabaseInfo[];
+  // null until the user picks one; the server then answers from its first database
+  database: string | null;
   loading: {
-    functions: boolean;
+    symbols: boolean;
     graph: boolean;
     source: boolean;
+    query: boolean;
+    findings: boolean;
+    dashboard: boolean;
+    usages: boolean;
+    files: boolean;
+    outline: boolean;
+    taint: boolean;
+    comm: boolean;
   };
   errors: {
-    functions: string | null;
+    symbols: string | null;
     graph: string | null;
     source: string | null;
+    query: string | null;
+    findings: string | null;
+    dashboard: string | null;
+    usages: string | null;
+    files: string | null;
+    outline: string | null;
+    taint: string | null;
+    comm: string | null;
   };
 };
 
 type AppAction =
   | { type: 'SET_SEARCH_QUERY'; payload: string }
-  | { type: 'SET_FUNCTIONS'; payload: FunctionRow[] }
+  | { type: 'SET_SYMBOLS'; payload: SymbolPage | null }
   | { type: 'SET_SELECTED_FUNCTION'; payload: string | null }
+  | { type: 'SET_PATH_TARGET'; payload: string | null }
+  | { type: 'SET_PATH_OPTIONS'; payload: Partial<PathOptions> }
+  | { type: 'SET_SELECTED_NODE'; payload: string | null }
+  | { type: 'SET_GRAPH_VIEW'; payload: GraphView }
+  | { type: 'SET_HIGHLIGHT_RANGE'; payload: LineRange | null }
   | { type: 'SET_GRAPH_DATA'; payload: GraphResponse | null }
+  | { type: 'ADD_EXPANSION'; payload: GraphExpansion }
+  | { type: 'SET_EXPANSIONS'; payload: GraphExpansion[] }
   | { type: 'SET_SOURCE_DATA'; payload: SourceResponse | null }
   | { type: 'SET_FOCUS_MODE'; payload: boolean }
+  | { type: 'SET_GRAPH_LAYOUT'; payload: { view: GraphView; layout: GraphLayout } }
+  | { type: 'SET_GRAPH_OPTIONS'; payload: Partial<GraphOptions> }
+  | { type: 'SET_METRIC_ENCODING'; payload: Partial<MetricEncoding> }
+  | { type: 'SET_EDGE_KINDS'; payload: EdgeKindRow[] }
+  | { type: 'SET_QUERIES'; payload: StoredQuery[] }
+  | { type: 'SET_QUERY_RESULT'; payload: QueryResult | null }
+  | { type: 'SET_QUERY_DISPLAY'; payload: QueryDisplay }
+  | { type: 'SET_SIDEBAR_TAB'; payload: SidebarTab }
+  | { type: 'SET_FINDING_FACETS'; payload: FindingFacets }
+  | { type: 'SET_FINDING_FILTERS'; payload: Partial<FindingFilters> }
+  | { type: 'SET_FINDINGS_PAGE'; payload: FindingsPage | null }
+  | { type: 'SET_SELECTED_FINDING'; payload: number | null }
+  | { type: 'SET_NODE_FINDINGS'; payload: Record<string, NodeFindingSummary> }
+  | { type: 'SET_SOURCE_FINDINGS'; payload: Finding[] }
+  | { type: 'SET_DASHBOARD'; payload: DashboardData }
+  | { type: 'SET_DASHBOARD_METRIC'; payload: DashboardMetric }
+  | { type: 'SET_TOP_FUNCTIONS'; payload: TopFunction[] }
+  | { type: 'SET_EXPANDED_PACKAGES'; payload: string[] }
+  | { type: 'SET_SHOW_EXTERNAL_PACKAGES'; payload: boolean }
+  | { type: 'SET_USAGES'; payload: UsagesResponse | null }
+  | { type: 'SET_SELECTED_USE'; payload: string | null }
+  | { type: 'SET_SOURCE_FILES'; payload: SourcePackage[] }
+  | { type: 'SET_SELECTED_FILE'; payload: string | null }
+  | { type: 'SET_FILE_OUTLINE'; payload: FileOutline | null }
+  | { type: 'SET_TAINT_SUMMARY'; payload: TaintSummary }
+  | { type: 'SET_TAINT_SINKS'; payload: TaintSinksPage | null }
+  | { type: 'SET_TAINT_HOTSPOTS'; payload: TaintHotspot[] }
+  | { type: 'SET_TAINT_CATEGORY'; payload: string }
+  | { type: 'SET_TAINT_PATH'; payload: { sink: TaintSink | null; hops: TaintHop[] | null } }
+  | { type: 'SET_TYPE_DETAIL'; payload: TypeDetail | null }
+  | { type: 'SET_COMM_PROTOCOL'; payload: CommProtocolDetail | null }
+  | { type: 'SET_GIT_METRIC'; payload: GitMetric | null }
+  | { type: 'SET_NODE_GIT_STATS'; payload: Record<string, NodeGitStats> }
+  | { type: 'SET_SOURCE_GIT_HISTORY'; payload: FileGitHistory | null }
+  | { type: 'SET_SLICE'; payload: SliceResponse | null }
+  | { type: 'SET_DIFF'; payload: DiffResponse | null }
+  | { type: 'SET_DATABASES'; payload: DatabaseInfo[] }
+  | { type: 'SET_DATABASE'; payload: string }
   | { type: 'SET_LOADING'; payload: { key: keyof AppState['loading']; value: boolean } }
   | { type: 'SET_ERROR'; payload: { key: keyof AppState['errors']; value: string | null } }
   | { type: 'CLEAR_GRAPH' }
@@ -40,20 +258,94 @@ type AppAction =
 
 const initialState: AppState = {
   searchQuery: '',
-  functions: [],
+  symbols: null,
   selectedFunctionId: null,
+  pathTargetId: null,
+  pathOptions: { count: DEFAULT_PATH_COUNT, depth: DEFAULT_PATH_DEPTH },
+  selectedNodeId: null,
+  graphView: 'dashboard',
+  highlightRange: null,
   graphData: null,
+  expansions: [],
+  expansionBase: null,
   sourceData: null,
   focusMode: false,
+  graphLayouts: {},
+  graphOptions: {
+    depth: DEFAULT_GRAPH_DEPTH,
+    direction: 'both',
+    edgeKinds: DEFAULT_EDGE_KINDS,
+  },
+  metricEncoding: {
+    size: null,
+    color: null,
+  },
+  edgeKinds: [],
+  queries: [],
+  queryResult: null,
+  queryDisplay: 'table',
+  sidebarTab: 'functions',
+  findingFacets: null,
+  findingFilters: {
+    category: '',
+    severity: '',
+    package: '',
+    file: '',
+  },
+  findingsPage: null,
+  selectedFindingId: null,
+  nodeFindings: {},
+  sourceFindings: [],
+  dashboard: null,
+  dashboardMetric: 'complexity',
+  topFunctions: [],
+  expandedPackages: [],
+  showExternalPackages: false,
+  usages: null,
+  selectedUseId: null,
+  sourceFiles: null,
+  selectedFile: null,
+  fileOutline: null,
+  taintSummary: null,
+  taintSinks: null,
+  taintHotspots: null,
+  taintCategory: '',
+  selectedTaintSink: null,
+  taintHops: null,
+  typeDetail: null,
+  commProtocol: null,
+  gitMetric: null,
+  nodeGitStats: {},
+  sourceGitHistory: null,
+  slice: null,
+  diff: null,
+  databases: [],
+  database: null,
   loading: {
-    functions: false,
+    symbols: false,
     graph: false,
     source: false,
+    query: false,
+    findings: false,
+    dashboard: false,
+    usages: false,
+    files: false,
+    outline: false,
+    taint: false,
+    comm: false,
   },
   errors: {
-    functions: null,
+    symbols: null,
     graph: null,
     source: null,
+    query: null,
+    findings: null,
+    dashboard: null,
+    usages: null,
+    files: null,
+    outline: null,
+    taint: null,
+    comm: null,
   },
 };
 
@@ -61,12 +353,32 @@ function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     case 'SET_SEARCH_QUERY':
       return { ...state, searchQuery: action.payload };
-    case 'SET_FUNCTIONS':
-      return { ...state, functions: action.payload };
+    case 'SET_SYMBOLS':
+      return { ...state, symbols: action.payload };
     case 'SET_SELECTED_FUNCTION':
       return { ...state, selectedFunctionId: action.payload };
+    case 'SET_PATH_TARGET':
+      return { ...state, pathTargetId: action.payload };
+    case 'SET_PATH_OPTIONS':
+      return { ...state, pathOptions: { ...state.pathOptions, ...action.payload } };
+    case 'SET_SELECTED_NODE':
+      return { ...state, selectedNodeId: action.payload };
+    case 'SET_GRAPH_VIEW':
+      return { ...state, graphView: action.payload };
+    case 'SET_HIGHLIGHT_RANGE':
+      return { ...state, highlightRange: action.payload };
     case 'SET_GRAPH_DATA':
-      return { ...state, graphData: action.payload };
+      return { ...state, graphData: action.payload, expansions: [], expansionBase: null };
+    case 'ADD_EXPANSION':
+    case 'SET_EXPANSIONS': {
+      const base = state.expansionBase ?? state.graphData;
+      if (!base) return state;
+      const requested = action.type === 'ADD_EXPANSION' ? [...state.expansions, action.payload] : action.payload;
+      const { graph, expansions } = applyExpansions(base, requested, MAX_NODES_IN_GRAPH);
+      return expansions.length > 0
+        ? { ...state, graphData: graph, expansions, expansionBase: base }
+        : { ...state, graphData: base, expansions: [], expansionBase: null };
+    }
     case 'SET_SOURCE_DATA':
       return { ...state, sourceData: action.payload };
     case 'SET_LOADING':
@@ -80,43 +392,202 @@ function appReducer(state: AppState, action: AppAction): AppState {
         errors: { ...state.errors, [action.payload.key]: action.payload.value },
       };
     case 'CLEAR_GRAPH':
-      return { ...state, graphData: null, sourceData: null, errors: { ...state.errors, graph: null } };
+      return {
+        ...state,
+        graphData: null,
+        expansions: [],
+        expansionBase: null,
+        sourceData: null,
+        selectedNodeId: null,
+        highlightRange: null,
+        errors: { ...state.errors, graph: null },
+      };
     case 'CLEAR_SOURCE':
-      return { ...state, sourceData: null, errors: { ...state.errors, source: null } };
+      return { ...state, sourceData: null, highlightRange: null, errors: { ...state.errors, source: null } };
     case 'SET_FOCUS_MODE':
       return { ...state, focusMode: action.payload };
+    case 'SET_GRAPH_LAYOUT':
+      return { ...state, graphLayouts: { ...state.graphLayouts, [action.payload.view]: action.payload.layout } };
+    case 'SET_GRAPH_OPTIONS':
+      return { ...state, graphOptions: { ...state.graphOptions, ...action.payload } };
+    case 'SET_METRIC_ENCODING':
+      return { ...state, metricEncoding: { ...state.metricEncoding, ...action.payload } };
+    case 'SET_EDGE_KINDS':
+      return { ...state, edgeKinds: action.payload };
+    case 'SET_QUERIES':
+      return { ...state, queries: action.payload };
+    case 'SET_QUERY_RESULT':
+      return { ...state, queryResult: action.payload };
+    case 'SET_QUERY_DISPLAY':
+      return { ...state, queryDisplay: action.payload };
+    case 'SET_SIDEBAR_TAB':
+      return { ...state, sidebarTab: action.payload };
+    case 'SET_FINDING_FACETS':
+      return { ...state, findingFacets: action.payload };
+    case 'SET_FINDING_FILTERS':
+      return { ...state, findingFilters: { ...state.findingFilters, ...action.payload } };
+    case 'SET_FINDINGS_PAGE':
+      return { ...state, findingsPage: action.payload };
+    case 'SET_SELECTED_FINDING':
+      return { ...state, selectedFindingId: action.payload };
+    case 'SET_NODE_FINDINGS':
+      return { ...state, nodeFindings: action.payload };
+    case 'SET_SOURCE_FINDINGS':
+      return { ...state, sourceFindings: action.payload };
+    case 'SET_DASHBOARD':
+      return { ...state, dashboard: action.payload };
+    case 'SET_DASHBOARD_METRIC':
+      return { ...state, dashboardMetric: action.payload };
+    case 'SET_TOP_FUNCTIONS':
+      return { ...state, topFunctions: action.payload };
+    case 'SET_EXPANDED_PACKAGES':
+      return { ...state, expandedPackages: action.payload };
+    case 'SET_SHOW_EXTERNAL_PACKAGES':
+      return { ...state, showExternalPackages: action.payload };
+    case 'SET_USAGES':
+      return { ...state, usages: action.payload };
+    case 'SET_SELECTED_USE':
+      return { ...state, selectedUseId: action.payload };
+    case 'SET_SOURCE_FILES':
+      return { ...state, sourceFiles: action.payload };
+    case 'SET_SELECTED_FILE':
+      return { ...state, selectedFile: action.payload };
+    case 'SET_FILE_OUTLINE':
+      return { ...state, fileOutline: action.payload };
+    case 'SET_TAINT_SUMMARY':
+      return { ...state, taintSummary: action.payload };
+    case 'SET_TAINT_SINKS':
+      return { ...state, taintSinks: action.payload };
+    case 'SET_TAINT_HOTSPOTS':
+      return { ...state, taintHotspots: action.payload };
+    case 'SET_TAINT_CATEGORY':
+      return { ...state, taintCategory: action.payload };
+    case 'SET_TAINT_PATH':
+      return { ...state, selectedTaintSink: action.payload.sink, taintHops: action.payload.hops };
+    case 'SET_TYPE_DETAIL':
+      return { ...state, typeDetail: action.payload };
+    case 'SET_COMM_PROTOCOL':
+      return { ...state, commProtocol: action.payload };
+    case 'SET_GIT_METRIC':
+      return { ...state, gitMetric: action.payload };
+    case 'SET_NODE_GIT_STATS':
+      return { ...state, nodeGitStats: action.payload };
+    case 'SET_SOURCE_GIT_HISTORY':
+      return { ...state, sourceGitHistory: action.payload };
+    case 'SET_SLICE':
+      return { ...state, slice: action.payload };
+    case 'SET_DIFF':
+      return { ...state, diff: action.payload };
+    case 'SET_DATABASES':
+      return { ...state, databases: action.payload };
+    case 'SET_DATABASE':
+      // Everything loaded so far belongs to the previous database; keep only display preferences
+      return {
+        ...initialState,
+        databases: state.databases,
+        database: action.payload,
+        sidebarTab: state.sidebarTab,
+        graphOptions: state.graphOptions,
+        metricEncoding: state.metricEncoding,
+        queryDisplay: state.queryDisplay,
+        dashboardMetric: state.dashboardMetric,
+        gitMetric: state.gitMetric,
+        focusMode: state.focusMode,
+        graphLayouts: state.graphLayouts,
+      };
     default:
       return state;
   }
 }
 
+// A shared link opens on its function, node and graph settings; their data loads after mount
+function initialStateFromUrl(search: string): AppState {
+  const view = parseViewUrl(search);
+  return {
+    ...initialState,
+    selectedFunctionId: view.functionId,
+    selectedNodeId: view.nodeId,
+    searchQuery: view.query,
+    database: view.database,
+    graphOptions: view.graphOptions,
+    focusMode: view.focusMode,
+  };
+}
+
+// Plain call graphs keep the function-only endpoint; any other edge kind
+// goes through the general node neighborhood
+function fetchNeighborhood(id: string, options: GraphOptions, signal: AbortSignal) {
+  const callGraphOnly = options.edgeKinds.length === 1 && options.edgeKinds[0] === 'call';
+  return callGraphOnly
+    ? axios.get<GraphResponse>(`${API_BASE_URL}/function/graph`, {
+      params: { id, depth: options.depth, direction: options.direction },
+      signal,
+    })
+    : axios.get<GraphResponse>(`${API_BASE_URL}/node/graph`, {
+      params: {
+        id,
+        depth: options.depth,
+        direction: NEIGHBOR_DIRECTIONS[options.direction],
+        kinds: options.edgeKinds.join(','),
+      },
+      signal,
+    });
+}
+
 function App() {
-  const [state, dispatch] = useReducer(appReducer, initialState);
+  const [state, dispatch] = useReducer(appReducer, window.location.search, initialStateFromUrl);
 
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const graphAbortControllerRef = useRef<AbortController | null>(null);
   const sourceAbortControllerRef = useRef<AbortController | null>(null);
+  const findingsAbortControllerRef = useRef<AbortController | null>(null);
+  const usagesAbortControllerRef = useRef<AbortController | null>(null);
+  const outlineAbortControllerRef = useRef<AbortController | null>(null);
+  const taintAbortControllerRef = useRef<AbortController | null>(null);
+  const commAbortControllerRef = useRef<AbortController | null>(null);
+  const databaseRef = useRef<string | null>(state.database);
+  const viewRestoredRef = useRef(false);
+
+  // Every request names the selected database, so handlers never have to pass it along
+  useEffect(() => {
+    const interceptor = axios.interceptors.request.use((config) => {
+      if (databaseRef.current) {
+        config.params = { ...config.params, db: databaseRef.current };
+      }
+      return config;
+    });
+    return () => axios.interceptors.request.eject(interceptor);
+  }, []);
 
-  const handleSearch = useCallback(async (query: string) => {
+  useEffect(() => {
+    axios.get<{ databases: DatabaseInfo[] }>(`${API_BASE_URL}/databases`)
+      .then((response) => dispatch({ type: 'SET_DATABASES', payload: response.data.databases }))
+      .catch((error) => logger.error('Error fetching databases:', error));
+  }, []);
+
+  const handleSearch = useCallback(async (query: string, offset = 0) => {
     if (!query.trim()) {
-      dispatch({ type: 'SET_FUNCTIONS', payload: [] });
+      dispatch({ type: 'SET_SYMBOLS', payload: null });
       return;
     }
 
-    dispatch({ type: 'SET_LOADING', payload: { key: 'functions', value: true } });
-    dispatch({ type: 'SET_ERROR', payload: { key: 'functions', value: null } });
+    dispatch({ type: 'SET_LOADING', payload: { key: 'symbols', value: true } });
+    dispatch({ type: 'SET_ERROR', payload: { key: 'symbols', value: null } });
 
     try {
-      const response = await axios.get<FunctionRow[]>(`${API_BASE_URL}/functions`, {
-        params: { q: query },
+      const response = await axios.get<SymbolPage>(`${API_BASE_URL}/symbols`, {
+        params: { q: query, offset, limit: SYMBOL_PAGE_SIZE },
       });
-      dispatch({ type: 'SET_FUNCTIONS', payload: response.data });
+      dispatch({ type: 'SET_SYMBOLS', payload: response.data });
     } catch (error) {
-      logger.error('Error fetching functions:', error);
-      dispatch({ type: 'SET_ERROR', payload: { key: 'functions', value: 'Failed to fetch functions. Please try again.' } });
-      dispatch({ type: 'SET_FUNCTIONS', payload: [] });
+      logger.error('Error searching symbols:', error);
+      const errorMessage = axios.isAxiosError(error) && error.response?.status === 400
+        ? error.response.data?.error || 'Invalid search.'
+        : 'Failed to search symbols. Please try again.';
+      dispatch({ type: 'SET_ERROR', payload: { key: 'symbols', value: errorMessage } });
+      dispatch({ type: 'SET_SYMBOLS', payload: null });
     } finally {
-      dispatch({ type: 'SET_LOADING', payload: { key: 'functions', value: false } });
+      dispatch({ type: 'SET_LOADING', payload: { key: 'symbols', value: false } });
     }
   }, []);
 
@@ -141,36 +612,458 @@ function App() {
     };
   }, []);
 
-  const handleFunctionClick = useCallback(async (functionId: string) => {
-    if (graphAbortControllerRef.current) {
-      graphAbortControllerRef.current.abort();
+  useEffect(() => {
+    axios.get<EdgeKindRow[]>(`${API_BASE_URL}/edge-kinds`)
+      .then((response) => dispatch({ type: 'SET_EDGE_KINDS', payload: response.data }))
+      .catch((error) => logger.error('Error fetching edge kinds:', error));
+  }, [state.database]);
+
+  useEffect(() => {
+    axios.get<StoredQuery[]>(`${API_BASE_URL}/queries`)
+      .then((response) => dispatch({ type: 'SET_QUERIES', payload: response.data }))
+      .catch((error) => logger.error('Error fetching stored queries:', error));
+  }, [state.database]);
+
+  useEffect(() => {
+    axios.get<FindingFacets>(`${API_BASE_URL}/findings/facets`)
+      .then((response) => dispatch({ type: 'SET_FINDING_FACETS', payload: response.data }))
+      .catch((error) => logger.error('Error fetching finding facets:', error));
+  }, [state.database]);
+
+  useEffect(() => {
+    dispatch({ type: 'SET_LOADING', payload: { key: 'dashboard', value: true } });
+    const listParams = { params: { limit: DASHBOARD_LIST_SIZE } };
+    Promise.all([
+      axios.get<DashboardOverview>(`${API_BASE_URL}/dashboard/overview`),
+      axios.get<ComplexityBucket[]>(`${API_BASE_URL}/dashboard/complexity`),
+      axios.get<PackageSummary[]>(`${API_BASE_URL}/dashboard/packages`),
+      axios.get<Hotspot[]>(`${API_BASE_URL}/dashboard/hotspots`, listParams),
+      axios.get<FileHeat[]>(`${API_BASE_URL}/dashboard/files`, listParams),
+    ])
+      .then(([overview, complexity, packages, hotspots, files]) => dispatch({
+        type: 'SET_DASHBOARD',
+        payload: {
+          overview: overview.data,
+          complexity: complexity.data,
+          packages: packages.data,
+          hotspots: hotspots.data,
+          files: files.data,
+        },
+      }))
+      .catch((error) => {
+        logger.error('Error fetching dashboard:', error);
+        dispatch({ type: 'SET_ERROR', payload: { key: 'dashboard', value: 'Failed to load the dashboard.' } });
+      })
+      .finally(() => dispatch({ type: 'SET_LOADING', payload: { key: 'dashboard', value: false } }));
+  }, [state.database]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    axios.get<TopFunction[]>(`${API_BASE_URL}/dashboard/top-functions`, {
+      params: { metric: state.dashboardMetric, limit: DASHBOARD_LIST_SIZE },
+      signal: controller.signal,
+    })
+      .then((response) => dispatch({ type: 'SET_TOP_FUNCTIONS', payload: response.data }))
+      .catch((error) => {
+        if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
+          return;
+        }
+        logger.error('Error fetching top functions:', error);
+      });
+    return () => controller.abort();
+  }, [state.dashboardMetric, state.database]);
+
+  // Severity halos for whatever graph is on screen
+  useEffect(() => {
+    const nodeIds = state.graphData?.nodes.map((n) => n.data.id).slice(0, MAX_NODES_IN_GRAPH) ?? [];
+    if (nodeIds.length === 0) {
+      dispatch({ type: 'SET_NODE_FINDINGS', payload: {} });
+      return;
+    }
+
+    const controller = new AbortController();
+    axios.post<Record<string, NodeFindingSummary>>(`${API_BASE_URL}/findings/nodes`, { ids: nodeIds }, {
+      signal: controller.signal,
+    })
+      .then((response) => dispatch({ type: 'SET_NODE_FINDINGS', payload: response.data }))
+      .catch((error) => {
+        if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
+          return;
+        }
+        logger.error('Error fetching node findings:', error);
+      });
+    return () => controller.abort();
+  }, [state.graphData]);
+
+  // Git statistics for the overlay, only fetched while one is chosen. They carry every metric,
+  // so switching between metrics does not refetch.
+  const gitOverlayOn = state.gitMetric !== null;
+  useEffect(() => {
+    const nodeIds = state.graphData?.nodes.map((n) => n.data.id).slice(0, MAX_NODES_IN_GRAPH) ?? [];
+    if (!gitOverlayOn || nodeIds.length === 0) {
+      dispatch({ type: 'SET_NODE_GIT_STATS', payload: {} });
+      return;
+    }
+
+    const controller = new AbortController();
+    axios.post<Record<string, NodeGitStats>>(`${API_BASE_URL}/git/nodes`, { ids: nodeIds }, {
+      signal: controller.signal,
+    })
+      .then((response) => dispatch({ type: 'SET_NODE_GIT_STATS', payload: response.data }))
+      .catch((error) => {
+        if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
+          return;
+        }
+        logger.error('Error fetching node git statistics:', error);
+      });
+    return () => controller.abort();
+  }, [state.graphData, gitOverlayOn]);
+
+  // Gutter markers for the file in the source viewer
+  const sourceFile = state.sourceData?.file_name ?? null;
+  useEffect(() => {
+    if (!sourceFile) {
+      dispatch({ type: 'SET_SOURCE_FINDINGS', payload: [] });
+      return;
+    }
+
+    const controller = new AbortController();
+    axios.get<FindingsPage>(`${API_BASE_URL}/findings`, {
+      params: { file: sourceFile, limit: MAX_SOURCE_FINDINGS },
+      signal: controller.signal,
+    })
+      .then((response) => dispatch({ type: 'SET_SOURCE_FINDINGS', payload: response.data.findings }))
+      .catch((error) => {
+        if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
+          return;
+        }
+        logger.error('Error fetching source findings:', error);
+      });
+    return () => controller.abort();
+  }, [sourceFile]);
+
+  // Last author, last date and commit count for the source viewer header
+  useEffect(() => {
+    dispatch({ type: 'SET_SOURCE_GIT_HISTORY', payload: null });
+    if (!sourceFile) return;
+
+    const controller = new AbortController();
+    axios.get<FileGitHistory>(`${API_BASE_URL}/git/file`, {
+      params: { file: sourceFile },
+      signal: controller.signal,
+    })
+      .then((response) => dispatch({ type: 'SET_SOURCE_GIT_HISTORY', payload: response.data }))
+      .catch((error) => {
+        if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
+          return;
+        }
+        // Files outside git, or a CPG generated without history, simply have no git line
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          return;
+        }
+        logger.error('Error fetching file git history:', error);
+      });
+    return () => controller.abort();
+  }, [sourceFile]);
+
+  // Run the one request the graph pane shows at a time: starting it aborts the previous one, and
+  // only the request still current may clear the shared controller and its loading flag
+  const fetchGraph = useCallback(async <T,>(
+    key: 'graph' | 'query',
+    request: (signal: AbortSignal) => Promise<{ data: T }>,
+    onSuccess: (data: T) => void,
+    errorText: string,
+  ) => {
+    graphAbortControllerRef.current?.abort();
+    const controller = new AbortController();
+    graphAbortControllerRef.current = controller;
+    // A superseded request of the other kind never clears its own spinner
+    dispatch({ type: 'SET_LOADING', payload: { key: key === 'graph' ? 'query' : 'graph', value: false } });
+    dispatch({ type: 'SET_LOADING', payload: { key, value: true } });
+
+    try {
+      const response = await request(controller.signal);
+      onSuccess(response.data);
+    } catch (error) {
+      if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
+        return;
+      }
+      logger.error(`${errorText}:`, error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.response?.data?.error || `${errorText}. Please try again.`
+        : `${errorText}. Please try again.`;
+      dispatch({ type: 'SET_ERROR', payload: { key, value: errorMessage } });
+    } finally {
+      if (graphAbortControllerRef.current === controller) {
+        dispatch({ type: 'SET_LOADING', payload: { key, value: false } });
+        graphAbortControllerRef.current = null;
+      }
     }
+  }, []);
 
+  const loadGraph = useCallback(async (functionId: string, options: GraphOptions) => {
     dispatch({ type: 'SET_SELECTED_FUNCTION', payload: functionId });
+    dispatch({ type: 'SET_PATH_TARGET', payload: null });
+    dispatch({ type: 'SET_GRAPH_VIEW', payload: 'neighborhood' });
+    dispatch({ type: 'CLEAR_GRAPH' });
+
+    await fetchGraph(
+      'graph',
+      (signal) => fetchNeighborhood(functionId, options, signal),
+      (data) => dispatch({ type: 'SET_GRAPH_DATA', payload: data }),
+      'Failed to fetch graph',
+    );
+  }, [fetchGraph]);
+
+  const loadPath = useCallback(async (fromId: string, toId: string, options: PathOptions) => {
+    dispatch({ type: 'SET_PATH_TARGET', payload: toId });
+    dispatch({ type: 'SET_GRAPH_VIEW', payload: 'path' });
+    dispatch({ type: 'CLEAR_GRAPH' });
+
+    await fetchGraph(
+      'graph',
+      (signal) => axios.get<GraphResponse>(`${API_BASE_URL}/function/path`, {
+        params: { from: fromId, to: toId, k: options.count, depth: options.depth },
+        signal,
+      }),
+      (data) => dispatch({ type: 'SET_GRAPH_DATA', payload: data }),
+      'Failed to find call paths',
+    );
+  }, [fetchGraph]);
+
+  // The data-flow path of one tainted sink, from its source through every propagating node
+  const loadTaintPath = useCallback(async (sink: TaintSink) => {
+    dispatch({ type: 'SET_TAINT_PATH', payload: { sink, hops: null } });
+    dispatch({ type: 'SET_PATH_TARGET', payload: null });
+    dispatch({ type: 'SET_GRAPH_VIEW', payload: 'taint' });
+    dispatch({ type: 'CLEAR_GRAPH' });
+
+    await fetchGraph(
+      'graph',
+      (signal) => axios.get<TaintPathResponse>(`${API_BASE_URL}/taint/path`, {
+        params: { source: sink.source_id, sink: sink.sink_id },
+        signal,
+      }),
+      (data) => {
+        dispatch({ type: 'SET_GRAPH_DATA', payload: data });
+        dispatch({ type: 'SET_TAINT_PATH', payload: { sink, hops: data.hops } });
+      },
+      'Failed to load the taint path',
+    );
+  }, [fetchGraph]);
+
+  // A type declaration with the types it implements, embeds or is implemented by, and its methods
+  const loadTypeView = useCallback(async (typeId: string) => {
+    dispatch({ type: 'SET_TYPE_DETAIL', payload: null });
+    dispatch({ type: 'SET_PATH_TARGET', payload: null });
+    dispatch({ type: 'SET_GRAPH_VIEW', payload: 'type' });
+    dispatch({ type: 'CLEAR_GRAPH' });
+
+    await fetchGraph(
+      'graph',
+      (signal) => axios.get<TypeDetail>(`${API_BASE_URL}/types/detail`, {
+        params: { id: typeId },
+        signal,
+      }),
+      (data) => {
+        dispatch({ type: 'SET_GRAPH_DATA', payload: data });
+        dispatch({ type: 'SET_TYPE_DETAIL', payload: data });
+      },
+      'Failed to load the type',
+    );
+  }, [fetchGraph]);
+
+  // Program slice from the data-flow nodes on one source line, drawn as a data-flow subgraph
+  const loadSlice = useCallback(async (file: string, line: number, direction: SliceDirection, depth: number) => {
+    dispatch({ type: 'SET_SLICE', payload: null });
+    dispatch({ type: 'SET_PATH_TARGET', payload: null });
+    dispatch({ type: 'SET_GRAPH_VIEW', payload: 'slice' });
+    dispatch({ type: 'CLEAR_GRAPH' });
+
+    await fetchGraph(
+      'graph',
+      (signal) => axios.get<SliceResponse>(`${API_BASE_URL}/slice`, {
+        params: { file, line, direction, depth },
+        signal,
+      }),
+      (data) => {
+        dispatch({ type: 'SET_GRAPH_DATA', payload: data });
+        dispatch({ type: 'SET_SLICE', payload: data });
+      },
+      'Failed to compute the slice',
+    );
+  }, [fetchGraph]);
+
+  const handleSliceRequest = useCallback((line: number, direction: SliceDirection, depth: number) => {
+    if (sourceFile) {
+      loadSlice(sourceFile, line, direction, depth);
+    }
+  }, [loadSlice, sourceFile]);
+
+  // Compare the selected database with another snapshot, over a function's call neighborhood
+  // or a whole package
+  const loadDiff = useCallback(async (base: string, scope: { id: string; depth: number } | { package: string }) => {
+    dispatch({ type: 'SET_DIFF', payload: null });
+    dispatch({ type: 'SET_PATH_TARGET', payload: null });
+    dispatch({ type: 'SET_GRAPH_VIEW', payload: 'diff' });
+    dispatch({ type: 'CLEAR_GRAPH' });
+
+    await fetchGraph(
+      'graph',
+      (signal) => axios.get<DiffResponse>(`${API_BASE_URL}/diff`, {
+        params: { base, ...scope },
+        signal,
+      }),
+      (data) => {
+        dispatch({ type: 'SET_GRAPH_DATA', payload: data });
+        dispatch({ type: 'SET_DIFF', payload: data });
+      },
+      'Failed to compare the databases',
+    );
+  }, [fetchGraph]);
+
+  // Picking a base starts a diff of the selected function's neighborhood, or re-runs the current
+  // diff against the new base; clearing it returns to the call graph
+  const handleDiffBaseChange = useCallback((base: string) => {
+    if (base === '') {
+      if (state.selectedFunctionId) {
+        loadGraph(state.selectedFunctionId, state.graphOptions);
+      }
+      return;
+    }
+    if (state.graphView === 'diff' && state.diff) {
+      loadDiff(base, state.diff.id
+        ? { id: state.diff.id, depth: state.diff.depth ?? state.graphOptions.depth }
+        : { package: state.diff.package ?? '' });
+    } else if (state.selectedFunctionId) {
+      loadDiff(base, { id: state.selectedFunctionId, depth: state.graphOptions.depth });
+    }
+  }, [loadDiff, loadGraph, state.graphView, state.diff, state.selectedFunctionId, state.graphOptions]);
+
+  // Switch a diff between the function's neighborhood and the package that holds it
+  const handleDiffScopeToggle = useCallback(() => {
+    if (!state.diff) return;
+    if (state.diff.id && state.diff.package) {
+      loadDiff(state.diff.base, { package: state.diff.package });
+    } else if (state.selectedFunctionId) {
+      loadDiff(state.diff.base, { id: state.selectedFunctionId, depth: state.graphOptions.depth });
+    }
+  }, [loadDiff, state.diff, state.selectedFunctionId, state.graphOptions.depth]);
+
+  // Components and the protocols between them; protocol details load separately on edge click
+  const loadTopology = useCallback(async () => {
+    dispatch({ type: 'SET_COMM_PROTOCOL', payload: null });
+    dispatch({ type: 'SET_PATH_TARGET', payload: null });
+    dispatch({ type: 'SET_GRAPH_VIEW', payload: 'comm' });
     dispatch({ type: 'CLEAR_GRAPH' });
-    dispatch({ type: 'SET_LOADING', payload: { key: 'graph', value: true } });
 
-    graphAbortControllerRef.current = new AbortController();
+    await fetchGraph(
+      'graph',
+      (signal) => axios.get<GraphResponse>(`${API_BASE_URL}/comm/topology`, {
+        signal,
+      }),
+      (data) => dispatch({ type: 'SET_GRAPH_DATA', payload: data }),
+      'Failed to fetch the service topology',
+    );
+  }, [fetchGraph]);
+
+  const loadCommProtocol = useCallback(async (protocolId: string) => {
+    if (commAbortControllerRef.current) {
+      commAbortControllerRef.current.abort();
+    }
+
+    dispatch({ type: 'SET_COMM_PROTOCOL', payload: null });
+    dispatch({ type: 'SET_LOADING', payload: { key: 'comm', value: true } });
+    dispatch({ type: 'SET_ERROR', payload: { key: 'comm', value: null } });
+
+    commAbortControllerRef.current = new AbortController();
 
     try {
-      const response = await axios.get<GraphResponse>(`${API_BASE_URL}/function/graph`, {
-        params: { id: functionId },
-        signal: graphAbortControllerRef.current.signal,
+      const response = await axios.get<CommProtocolDetail>(`${API_BASE_URL}/comm/protocol`, {
+        params: { id: protocolId },
+        signal: commAbortControllerRef.current.signal,
       });
-      dispatch({ type: 'SET_GRAPH_DATA', payload: response.data });
+      dispatch({ type: 'SET_COMM_PROTOCOL', payload: response.data });
     } catch (error) {
       if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
         return;
       }
-      logger.error('Error fetching graph:', error);
+      logger.error('Error fetching protocol:', error);
       const errorMessage = axios.isAxiosError(error)
-        ? error.response?.data?.error || 'Failed to fetch graph. Please try again.'
-        : 'Failed to fetch graph. Please try again.';
-      dispatch({ type: 'SET_ERROR', payload: { key: 'graph', value: errorMessage } });
+        ? error.response?.data?.error || 'Failed to load the protocol. Please try again.'
+        : 'Failed to load the protocol. Please try again.';
+      dispatch({ type: 'SET_ERROR', payload: { key: 'comm', value: errorMessage } });
     } finally {
-      dispatch({ type: 'SET_LOADING', payload: { key: 'graph', value: false } });
-      graphAbortControllerRef.current = null;
+      dispatch({ type: 'SET_LOADING', payload: { key: 'comm', value: false } });
+      commAbortControllerRef.current = null;
+    }
+  }, []);
+
+  const loadPackageGraph = useCallback(async (expanded: string[], external: boolean) => {
+    dispatch({ type: 'SET_EXPANDED_PACKAGES', payload: expanded });
+    dispatch({ type: 'SET_SHOW_EXTERNAL_PACKAGES', payload: external });
+    dispatch({ type: 'SET_GRAPH_VIEW', payload: 'packages' });
+    dispatch({ type: 'CLEAR_GRAPH' });
+
+    await fetchGraph(
+      'graph',
+      (signal) => axios.get<GraphResponse>(`${API_BASE_URL}/packages/graph`, {
+        params: { expand: expanded.join(',') || undefined, external: external || undefined },
+        signal,
+      }),
+      (data) => dispatch({ type: 'SET_GRAPH_DATA', payload: data }),
+      'Failed to fetch the package graph',
+    );
+  }, [fetchGraph]);
+
+  const handlePathTargetClick = useCallback((functionId: string) => {
+    if (state.selectedFunctionId) {
+      loadPath(state.selectedFunctionId, functionId, state.pathOptions);
+    }
+  }, [loadPath, state.selectedFunctionId, state.pathOptions]);
+
+  const handlePathOptionsChange = useCallback((changes: Partial<PathOptions>) => {
+    dispatch({ type: 'SET_PATH_OPTIONS', payload: changes });
+    if (state.selectedFunctionId && state.pathTargetId) {
+      loadPath(state.selectedFunctionId, state.pathTargetId, { ...state.pathOptions, ...changes });
+    }
+  }, [loadPath, state.selectedFunctionId, state.pathTargetId, state.pathOptions]);
+
+  const handleClearPath = useCallback(() => {
+    if (state.selectedFunctionId) {
+      loadGraph(state.selectedFunctionId, state.graphOptions);
+    }
+  }, [loadGraph, state.selectedFunctionId, state.graphOptions]);
+
+  const handleFunctionClick = useCallback((functionId: string) => {
+    loadGraph(functionId, state.graphOptions);
+  }, [loadGraph, state.graphOptions]);
+
+  const handleSymbolPageChange = useCallback((offset: number) => {
+    handleSearch(state.searchQuery, offset);
+  }, [handleSearch, state.searchQuery]);
+
+  const updateGraphOptions = useCallback((changes: Partial<GraphOptions>) => {
+    dispatch({ type: 'SET_GRAPH_OPTIONS', payload: changes });
+    if (state.selectedFunctionId) {
+      loadGraph(state.selectedFunctionId, { ...state.graphOptions, ...changes });
     }
+  }, [loadGraph, state.selectedFunctionId, state.graphOptions]);
+
+  const handleDepthChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateGraphOptions({ depth: Number(e.target.value) });
+  }, [updateGraphOptions]);
+
+  const handleDirectionChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateGraphOptions({ direction: e.target.value as GraphDirection });
+  }, [updateGraphOptions]);
+
+  const handleEdgeKindsChange = useCallback((edgeKinds: string[]) => {
+    updateGraphOptions({ edgeKinds });
+  }, [updateGraphOptions]);
+
+  const handleMetricChange = useCallback((channel: keyof MetricEncoding, e: React.ChangeEvent<HTMLSelectElement>) => {
+    dispatch({ type: 'SET_METRIC_ENCODING', payload: { [channel]: (e.target.value || null) as NodeMetric | null } });
   }, []);
 
   const handleNodeClick = useCallback(async (nodeId: string) => {
@@ -178,6 +1071,7 @@ function App() {
       sourceAbortControllerRef.current.abort();
     }
 
+    dispatch({ type: 'SET_SELECTED_NODE', payload: nodeId });
     dispatch({ type: 'CLEAR_SOURCE' });
     dispatch({ type: 'SET_LOADING', payload: { key: 'source', value: true } });
 
@@ -185,7 +1079,7 @@ function App() {
 
     try {
       const response = await axios.get<SourceResponse>(`${API_BASE_URL}/source`, {
-        params: { id: nodeId },
+        params: { id: nodeId, full: true },
         signal: sourceAbortControllerRef.current.signal,
       });
       dispatch({ type: 'SET_SOURCE_DATA', payload: response.data });
@@ -206,90 +1100,1023 @@ function App() {
     }
   }, []);
 
-  const handleKeyDown = useCallback((e: React.KeyboardEvent, functionId: string) => {
+  // A type opens its relations in the graph and its declaration in the source viewer
+  const handleTypeClick = useCallback((typeId: string) => {
+    loadTypeView(typeId);
+    handleNodeClick(typeId);
+  }, [loadTypeView, handleNodeClick]);
+
+  // Functions and methods open their call graph, types their type view; other symbols
+  // open in the source viewer
+  const handleSymbolClick = useCallback((symbol: SymbolResult) => {
+    if (symbol.kind === 'function' || symbol.kind === 'method') {
+      handleFunctionClick(symbol.id);
+    } else if (symbol.kind === 'type') {
+      handleTypeClick(symbol.id);
+    } else {
+      handleNodeClick(symbol.id);
+    }
+  }, [handleFunctionClick, handleTypeClick, handleNodeClick]);
+
+  const loadCfg = useCallback(async (functionId: string) => {
+    dispatch({ type: 'SET_PATH_TARGET', payload: null });
+    dispatch({ type: 'SET_GRAPH_VIEW', payload: 'cfg' });
+    dispatch({ type: 'CLEAR_GRAPH' });
+
+    await fetchGraph(
+      'graph',
+      (signal) => axios.get<GraphResponse>(`${API_BASE_URL}/function/cfg`, {
+        params: { id: functionId },
+        signal,
+      }),
+      (data) => {
+        dispatch({ type: 'SET_GRAPH_DATA', payload: data });
+        // Blocks highlight ranges inside the function, so keep its source on screen
+        handleNodeClick(functionId);
+      },
+      'Failed to fetch control-flow graph',
+    );
+  }, [fetchGraph, handleNodeClick]);
+
+  const runQuery = useCallback(async (name: string, params: Record<string, string>, limit: number) => {
+    dispatch({ type: 'SET_PATH_TARGET', payload: null });
+    dispatch({ type: 'SET_GRAPH_VIEW', payload: 'query' });
+    dispatch({ type: 'CLEAR_GRAPH' });
+    dispatch({ type: 'SET_QUERY_RESULT', payload: null });
+    dispatch({ type: 'SET_ERROR', payload: { key: 'query', value: null } });
+
+    await fetchGraph(
+      'query',
+      (signal) => axios.post<QueryResult>(`${API_BASE_URL}/queries/run`, { name, params, limit }, {
+        signal,
+      }),
+      (data) => {
+        dispatch({ type: 'SET_QUERY_RESULT', payload: data });
+        dispatch({ type: 'SET_GRAPH_DATA', payload: data.graph ?? null });
+        if (!data.graph) {
+          dispatch({ type: 'SET_QUERY_DISPLAY', payload: 'table' });
+        }
+      },
+      'Failed to run query',
+    );
+  }, [fetchGraph]);
+
+  const loadFindings = useCallback(async (filters: FindingFilters, offset: number) => {
+    if (findingsAbortControllerRef.current) {
+      findingsAbortControllerRef.current.abort();
+    }
+
+    dispatch({ type: 'SET_LOADING', payload: { key: 'findings', value: true } });
+    dispatch({ type: 'SET_ERROR', payload: { key: 'findings', value: null } });
+
+    findingsAbortControllerRef.current = new AbortController();
+
+    try {
+      const response = await axios.get<FindingsPage>(`${API_BASE_URL}/findings`, {
+        // Empty filters are left out rather than sent as blank parameters
+        params: {
+          ...Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== '')),
+          offset,
+          limit: FINDINGS_PAGE_SIZE,
+        },
+        signal: findingsAbortControllerRef.current.signal,
+      });
+      dispatch({ type: 'SET_FINDINGS_PAGE', payload: response.data });
+    } catch (error) {
+      if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
+        return;
+      }
+      logger.error('Error fetching findings:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.error || 'Failed to fetch findings. Please try again.'
+        : 'Failed to fetch findings. Please try again.';
+      dispatch({ type: 'SET_ERROR', payload: { key: 'findings', value: errorMessage } });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: { key: 'findings', value: false } });
+      findingsAbortControllerRef.current = null;
+    }
+  }, []);
+
+  const loadFiles = useCallback(async () => {
+    dispatch({ type: 'SET_LOADING', payload: { key: 'files', value: true } });
+    dispatch({ type: 'SET_ERROR', payload: { key: 'files', value: null } });
+
+    try {
+      const response = await axios.get<{ packages: SourcePackage[] }>(`${API_BASE_URL}/files`);
+      dispatch({ type: 'SET_SOURCE_FILES', payload: response.data.packages });
+    } catch (error) {
+      logger.error('Error fetching files:', error);
+      dispatch({ type: 'SET_ERROR', payload: { key: 'files', value: 'Failed to load files. Please try again.' } });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: { key: 'files', value: false } });
+    }
+  }, []);
+
+  const handleFileSelect = useCallback(async (file: string) => {
+    if (outlineAbortControllerRef.current) {
+      outlineAbortControllerRef.current.abort();
+    }
+
+    dispatch({ type: 'SET_SELECTED_FILE', payload: file });
+    dispatch({ type: 'SET_FILE_OUTLINE', payload: null });
+    dispatch({ type: 'SET_LOADING', payload: { key: 'outline', value: true } });
+    dispatch({ type: 'SET_ERROR', payload: { key: 'outline', value: null } });
+
+    outlineAbortControllerRef.current = new AbortController();
+
+    try {
+      const response = await axios.get<FileOutline>(`${API_BASE_URL}/files/outline`, {
+        params: { file },
+        signal: outlineAbortControllerRef.current.signal,
+      });
+      dispatch({ type: 'SET_FILE_OUTLINE', payload: response.data });
+    } catch (error) {
+      if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
+        return;
+      }
+      logger.error('Error fetching file outline:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.error || 'Failed to load the file outline. Please try again.'
+        : 'Failed to load the file outline. Please try again.';
+      dispatch({ type: 'SET_ERROR', payload: { key: 'outline', value: errorMessage } });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: { key: 'outline', value: false } });
+      outlineAbortControllerRef.current = null;
+    }
+  }, []);
+
+  const loadTaintSinks = useCallback(async (category: string) => {
+    if (taintAbortControllerRef.current) {
+      taintAbortControllerRef.current.abort();
+    }
+
+    dispatch({ type: 'SET_TAINT_CATEGORY', payload: category });
+    dispatch({ type: 'SET_LOADING', payload: { key: 'taint', value: true } });
+    dispatch({ type: 'SET_ERROR', payload: { key: 'taint', value: null } });
+
+    taintAbortControllerRef.current = new AbortController();
+
+    try {
+      const response = await axios.get<TaintSinksPage>(`${API_BASE_URL}/taint/sinks`, {
+        params: { category: category || undefined },
+        signal: taintAbortControllerRef.current.signal,
+      });
+      dispatch({ type: 'SET_TAINT_SINKS', payload: response.data });
+    } catch (error) {
+      if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
+        return;
+      }
+      logger.error('Error fetching tainted sinks:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.error || 'Failed to load tainted sinks. Please try again.'
+        : 'Failed to load tainted sinks. Please try again.';
+      dispatch({ type: 'SET_ERROR', payload: { key: 'taint', value: errorMessage } });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: { key: 'taint', value: false } });
+      taintAbortControllerRef.current = null;
+    }
+  }, []);
+
+  // Summary and hotspots do not depend on the category filter, so they are fetched once
+  const loadTaint = useCallback(() => {
+    axios.get<TaintSummary>(`${API_BASE_URL}/taint/summary`)
+      .then((response) => dispatch({ type: 'SET_TAINT_SUMMARY', payload: response.data }))
+      .catch((error) => logger.error('Error fetching taint summary:', error));
+    axios.get<{ hotspots: TaintHotspot[] }>(`${API_BASE_URL}/taint/hotspots`)
+      .then((response) => dispatch({ type: 'SET_TAINT_HOTSPOTS', payload: response.data.hotspots }))
+      .catch((error) => logger.error('Error fetching taint hotspots:', error));
+    loadTaintSinks('');
+  }, [loadTaintSinks]);
+
+  const handleSidebarTabChange = useCallback((tab: SidebarTab) => {
+    dispatch({ type: 'SET_SIDEBAR_TAB', payload: tab });
+    if (tab === 'findings' && !state.findingsPage) {
+      loadFindings(state.findingFilters, 0);
+    }
+    if (tab === 'files' && !state.sourceFiles) {
+      loadFiles();
+    }
+    if (tab === 'taint' && !state.taintSinks) {
+      loadTaint();
+    }
+  }, [loadFindings, loadFiles, loadTaint, state.findingsPage, state.findingFilters, state.sourceFiles, state.taintSinks]);
+
+  const handleDatabaseChange = useCallback((database: string) => {
+    [graphAbortControllerRef, sourceAbortControllerRef, findingsAbortControllerRef, usagesAbortControllerRef,
+      outlineAbortControllerRef, taintAbortControllerRef, commAbortControllerRef].forEach((ref) => ref.current?.abort());
+    databaseRef.current = database;
+    dispatch({ type: 'SET_DATABASE', payload: database });
+
+    // The dashboard and facets reload from their effects; the open sidebar tab is reloaded here
+    if (state.sidebarTab === 'findings') {
+      loadFindings(initialState.findingFilters, 0);
+    }
+    if (state.sidebarTab === 'files') {
+      loadFiles();
+    }
+    if (state.sidebarTab === 'taint') {
+      loadTaint();
+    }
+  }, [loadFindings, loadFiles, loadTaint, state.sidebarTab]);
+
+  // Bring the viewer to the state a URL describes, on load and on browser back/forward
+  const restoreView = useCallback((view: ViewUrlState) => {
+    // Links without a database name the default one, the first the server lists
+    const defaultDatabase = state.databases[0]?.id ?? null;
+    const target = view.database ?? defaultDatabase;
+    const current = databaseRef.current ?? defaultDatabase;
+    if (target && current && target !== current) {
+      handleDatabaseChange(target);
+    }
+    dispatch({ type: 'SET_GRAPH_OPTIONS', payload: view.graphOptions });
+    dispatch({ type: 'SET_FOCUS_MODE', payload: view.focusMode });
+    dispatch({ type: 'SET_SEARCH_QUERY', payload: view.query });
+    handleSearch(view.query);
+
+    if (view.functionId) {
+      loadGraph(view.functionId, view.graphOptions);
+    } else {
+      graphAbortControllerRef.current?.abort();
+      dispatch({ type: 'SET_SELECTED_FUNCTION', payload: null });
+      dispatch({ type: 'SET_GRAPH_VIEW', payload: 'dashboard' });
+      dispatch({ type: 'CLEAR_GRAPH' });
+    }
+    if (view.nodeId) {
+      handleNodeClick(view.nodeId);
+    } else {
+      sourceAbortControllerRef.current?.abort();
+      dispatch({ type: 'SET_SELECTED_NODE', payload: null });
+      dispatch({ type: 'CLEAR_SOURCE' });
+    }
+  }, [handleDatabaseChange, handleSearch, loadGraph, handleNodeClick, state.databases]);
+
+  useEffect(() => {
+    if (viewRestoredRef.current) return;
+    viewRestoredRef.current = true;
+    restoreView(parseViewUrl(window.location.search));
+  }, [restoreView]);
+
+  useEffect(() => {
+    const handlePopState = () => restoreView(parseViewUrl(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [restoreView]);
+
+  // Mirror the view into the URL. Opening another function adds a history entry, so back and
+  // forward step through visited functions; other changes rewrite the current entry.
+  useEffect(() => {
+    const search = buildViewUrl({
+      functionId: state.selectedFunctionId,
+      nodeId: state.selectedNodeId,
+      query: state.searchQuery,
+      database: state.database,
+      graphOptions: state.graphOptions,
+      focusMode: state.focusMode,
+    });
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (state.selectedFunctionId && state.selectedFunctionId !== parseViewUrl(window.location.search).functionId) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [state.selectedFunctionId, state.selectedNodeId, state.searchQuery, state.database, state.graphOptions, state.focusMode]);
+
+  const handleFindingFiltersChange = useCallback((changes: Partial<FindingFilters>) => {
+    dispatch({ type: 'SET_FINDING_FILTERS', payload: changes });
+    loadFindings({ ...state.findingFilters, ...changes }, 0);
+  }, [loadFindings, state.findingFilters]);
+
+  const handleFindingsPageChange = useCallback((offset: number) => {
+    loadFindings(state.findingFilters, offset);
+  }, [loadFindings, state.findingFilters]);
+
+  const findUsages = useCallback(async (nodeId: string) => {
+    if (usagesAbortControllerRef.current) {
+      usagesAbortControllerRef.current.abort();
+    }
+
+    dispatch({ type: 'SET_USAGES', payload: null });
+    dispatch({ type: 'SET_SELECTED_USE', payload: null });
+    dispatch({ type: 'SET_LOADING', payload: { key: 'usages', value: true } });
+    dispatch({ type: 'SET_ERROR', payload: { key: 'usages', value: null } });
+
+    usagesAbortControllerRef.current = new AbortController();
+
+    try {
+      const response = await axios.get<UsagesResponse>(`${API_BASE_URL}/usages`, {
+        params: { id: nodeId },
+        signal: usagesAbortControllerRef.current.signal,
+      });
+      dispatch({ type: 'SET_USAGES', payload: response.data });
+    } catch (error) {
+      if (axios.isCancel(error) || (axios.isAxiosError(error) && error.name === 'AbortError')) {
+        return;
+      }
+      logger.error('Error fetching usages:', error);
+      const errorMessage = axios.isAxiosError(error)
+        ? error.response?.data?.error || 'Failed to find usages. Please try again.'
+        : 'Failed to find usages. Please try again.';
+      dispatch({ type: 'SET_ERROR', payload: { key: 'usages', value: errorMessage } });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: { key: 'usages', value: false } });
+      usagesAbortControllerRef.current = null;
+    }
+  }, []);
+
+  // A usage opens its enclosing function: call graph in the middle, source with the use line highlighted
+  const handleUsageClick = useCallback((usage: Usage, group: UsageFunctionGroup) => {
+    dispatch({ type: 'SET_SELECTED_USE', payload: usage.use_id });
+    if (group.function_id) {
+      loadGraph(group.function_id, state.graphOptions);
+    }
+    handleNodeClick(group.function_id ?? usage.use_id);
+    if (usage.line) {
+      dispatch({ type: 'SET_HIGHLIGHT_RANGE', payload: { start: usage.line, end: usage.line } });
+    }
+  }, [handleNodeClick, loadGraph, state.graphOptions]);
+
+  // A tainted sink shows its flow in the graph and the sink line in the source viewer
+  const handleTaintSinkClick = useCallback((sink: TaintSink) => {
+    loadTaintPath(sink);
+    handleNodeClick(sink.sink_id);
+  }, [loadTaintPath, handleNodeClick]);
+
+  const handleTaintHopClick = useCallback((hop: TaintHop) => {
+    handleNodeClick(hop.id);
+  }, [handleNodeClick]);
+
+  // Outline entries open in the source viewer; functions also get their call graph and
+  // types their type view
+  const handleOutlineEntryClick = useCallback((entry: OutlineEntry) => {
+    if (entry.kind === 'function') {
+      loadGraph(entry.id, state.graphOptions);
+    } else if (entry.kind === 'type_decl') {
+      loadTypeView(entry.id);
+    }
+    handleNodeClick(entry.id);
+  }, [handleNodeClick, loadGraph, loadTypeView, state.graphOptions]);
+
+  // Methods open their call graph; interface methods have none and only show their source
+  const handleTypeMethodClick = useCallback((method: TypeMethod) => {
+    if (method.kind === 'function') {
+      handleFunctionClick(method.id);
+    } else {
+      handleNodeClick(method.id);
+    }
+  }, [handleFunctionClick, handleNodeClick]);
+
+  const handleFindingClick = useCallback((finding: Finding) => {
+    if (!finding.node_id) return;
+    dispatch({ type: 'SET_SELECTED_FINDING', payload: finding.id });
+    handleNodeClick(finding.node_id);
+    if (finding.line) {
+      dispatch({ type: 'SET_HIGHLIGHT_RANGE', payload: { start: finding.line, end: finding.line } });
+    }
+  }, [handleNodeClick]);
+
+  const handleCfgToggle = useCallback(() => {
+    if (state.graphView === 'cfg') {
+      if (state.selectedFunctionId) {
+        loadGraph(state.selectedFunctionId, state.graphOptions);
+      }
+      return;
+    }
+    const functionId = state.selectedNodeId ?? state.selectedFunctionId;
+    if (functionId) {
+      loadCfg(functionId);
+    }
+  }, [loadCfg, loadGraph, state.graphView, state.selectedNodeId, state.selectedFunctionId, state.graphOptions]);
+
+  const handleGraphNodeClick = useCallback((nodeId: string) => {
+    // Packages and topology components have no source of their own
+    const kind = state.graphData?.nodes.find((n) => n.data.id === nodeId)?.data.kind;
+    if ((state.graphView === 'packages' && kind === 'package') || (state.graphView === 'comm' && kind === 'component')) {
+      return;
+    }
+    // A function removed since the base snapshot has no source in the selected database
+    if (state.graphView === 'diff' && state.diff?.nodes.find((n) => n.data.id === nodeId)?.data.diff === 'removed') {
+      return;
+    }
+    if (state.graphView !== 'cfg') {
+      handleNodeClick(nodeId);
+      return;
+    }
+    // In the CFG the function source is already shown; a block just marks its lines
+    const node = state.graphData?.nodes.find((n) => n.data.id === nodeId);
+    const line = node?.data.line;
+    if (line) {
+      dispatch({ type: 'SET_HIGHLIGHT_RANGE', payload: { start: line, end: node.data.end_line ?? line } });
+    } else {
+      dispatch({ type: 'SET_HIGHLIGHT_RANGE', payload: null });
+    }
+  }, [handleNodeClick, state.graphView, state.graphData, state.diff]);
+
+  // Double click in the package graph: a package toggles between collapsed and expanded,
+  // a function opens its call graph
+  const handlePackageGraphDoubleClick = useCallback((nodeId: string) => {
+    const node = state.graphData?.nodes.find((n) => n.data.id === nodeId);
+    if (node?.data.kind === 'function') {
+      handleFunctionClick(nodeId);
+      return;
+    }
+    if (node?.data.kind !== 'package') return;
+    const expanded = state.expandedPackages.includes(nodeId)
+      ? state.expandedPackages.filter((pkg) => pkg !== nodeId)
+      : [...state.expandedPackages, nodeId].slice(-MAX_EXPANDED_PACKAGES);
+    loadPackageGraph(expanded, state.showExternalPackages);
+  }, [handleFunctionClick, loadPackageGraph, state.graphData, state.expandedPackages, state.showExternalPackages]);
+
+  // In the topology each edge is a protocol between two components
+  const handleGraphEdgeClick = useCallback((edgeId: string) => {
+    if (state.graphView !== 'comm') return;
+    const protocol = state.graphData?.edges.find((e) => e.data.id === edgeId)?.data.protocol;
+    if (protocol) {
+      loadCommProtocol(protocol);
+    }
+  }, [loadCommProtocol, state.graphView, state.graphData]);
+
+  // An endpoint opens its implementing function in the source viewer, keeping the topology
+  const handleCommEndpointClick = useCallback((endpoint: CommEndpoint) => {
+    if (endpoint.function_id) {
+      handleNodeClick(endpoint.function_id);
+    }
+  }, [handleNodeClick]);
+
+  // Double click on a type declaration in any graph opens its type view; within the type
+  // view a method opens its call graph
+  const handleTypeGraphDoubleClick = useCallback((nodeId: string) => {
+    const kind = state.graphData?.nodes.find((n) => n.data.id === nodeId)?.data.kind;
+    const inTypeView = state.graphView === 'type';
+    if (kind === 'type_decl' && !(inTypeView && nodeId === state.typeDetail?.type.id)) {
+      handleTypeClick(nodeId);
+    } else if (kind === 'function' && inTypeView) {
+      handleFunctionClick(nodeId);
+    }
+  }, [handleFunctionClick, handleTypeClick, state.graphData, state.graphView, state.typeDetail]);
+
+  // Double click in the neighborhood merges the node's direct neighbors into the drawn graph,
+  // or collapses that step again when the node is already expanded
+  const handleNeighborhoodDoubleClick = useCallback(async (nodeId: string) => {
+    const node = state.graphData?.nodes.find((n) => n.data.id === nodeId);
+    if (node?.data.kind === 'type_decl') {
+      handleTypeGraphDoubleClick(nodeId);
+      return;
+    }
+    if (state.expansions.some((expansion) => expansion.nodeId === nodeId)) {
+      dispatch({ type: 'SET_EXPANSIONS', payload: state.expansions.filter((expansion) => expansion.nodeId !== nodeId) });
+      return;
+    }
+    // External functions have no body in the CPG, and the root's neighborhood is already drawn
+    if (nodeId.startsWith('ext::') || nodeId === state.selectedFunctionId) {
+      return;
+    }
+
+    await fetchGraph(
+      'graph',
+      (signal) => fetchNeighborhood(
+        nodeId,
+        { ...state.graphOptions, depth: 1 },
+        signal,
+      ),
+      (data) => dispatch({ type: 'ADD_EXPANSION', payload: { nodeId, label: node?.data.label ?? nodeId, graph: data } }),
+      'Failed to expand node',
+    );
+  }, [fetchGraph, handleTypeGraphDoubleClick, state.graphData, state.expansions, state.selectedFunctionId, state.graphOptions]);
+
+  const handleDashboardMetricChange = useCallback((metric: DashboardMetric) => {
+    dispatch({ type: 'SET_DASHBOARD_METRIC', payload: metric });
+  }, []);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent, symbol: SymbolResult) => {
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
-      handleFunctionClick(functionId);
+      handleSymbolClick(symbol);
     }
-  }, [handleFunctionClick]);
+  }, [handleSymbolClick]);
+
+  const isCallGraph = state.graphOptions.edgeKinds.length === 1 && state.graphOptions.edgeKinds[0] === 'call';
+  // Only the call graph and package graph endpoints join the metrics table
+  const hasMetrics = (isCallGraph && state.graphView === 'neighborhood') || state.graphView === 'packages';
+
+  const graphLayout = state.graphLayouts[state.graphView] ?? DEFAULT_GRAPH_LAYOUTS[state.graphView] ?? 'force';
 
   const memoizedGraph = useMemo(() => {
     if (!state.graphData) return null;
-    return <Graph graphData={state.graphData} onNodeClick={handleNodeClick} />;
-  }, [state.graphData, handleNodeClick]);
+    return (
+      <Graph
+        graphData={state.graphData}
+        onNodeClick={handleGraphNodeClick}
+        onNodeDoubleClick={
+          state.graphView === 'packages' ? handlePackageGraphDoubleClick
+            : state.graphView === 'neighborhood' ? handleNeighborhoodDoubleClick
+              : handleTypeGraphDoubleClick
+        }
+        onEdgeClick={handleGraphEdgeClick}
+        layout={graphLayout}
+        rootId={state.graphView === 'neighborhood' || state.graphView === 'path' || state.graphView === 'diff' ? state.selectedFunctionId : null}
+        nodeFindings={state.nodeFindings}
+        metricEncoding={state.metricEncoding}
+        nodeGitStats={state.nodeGitStats}
+        gitMetric={state.gitMetric}
+        exportName={state.graphView}
+        focusMode={state.focusMode}
+        preservePositions={state.graphView === 'neighborhood'}
+        clusterable={state.graphView === 'neighborhood'}
+      />
+    );
+  }, [state.graphData, handleGraphNodeClick, handlePackageGraphDoubleClick, handleNeighborhoodDoubleClick, handleTypeGraphDoubleClick, handleGraphEdgeClick, state.graphView, state.nodeFindings, state.metricEncoding, state.nodeGitStats, state.gitMetric, state.focusMode, graphLayout, state.selectedFunctionId]);
 
   return (
     <div className="app-container">
       <header className="app-header">
         <h1>Code Property Graph Viewer</h1>
+        {state.databases.length > 1 && (
+          <select
+            value={state.database ?? state.databases[0].id}
+            onChange={(e) => handleDatabaseChange(e.target.value)}
+            className="database-select"
+            aria-label="Database"
+          >
+            {state.databases.map((database) => (
+              <option key={database.id} value={database.id} title={database.path}>
+                {database.id}
+                {database.stats ? ` (${database.stats.total_nodes.toLocaleString()} nodes)` : ''}
+              </option>
+            ))}
+          </select>
+        )}
       </header>
 
       <div className="app-content">
         <div className="search-panel">
-            <div className="search-section">
-              <label htmlFor="function-search">
-                <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
-                  <circle cx="7" cy="7" r="4"/>
-                  <path d="m10 10 4 4"/>
-                </svg>
-                Search Functions:
-              </label>
-              <input
-              id="function-search"
-              type="text"
-              value={state.searchQuery}
-              onChange={handleSearchChange}
-              placeholder="Enter function name..."
-              className="search-input"
-              aria-label="Search functions"
-              aria-describedby="search-help"
-            />
-            <span id="search-help" className="sr-only">
-              Type to search for functions in the codebase
-            </span>
-            {state.loading.functions && (
-              <div className="loading" role="status" aria-live="polite">
-                Loading...
-              </div>
-            )}
-            {state.errors.functions && (
-              <div className="error" role="alert" aria-live="assertive">
-                {state.errors.functions}
+          <div className="sidebar-tabs" role="tablist" aria-label="Sidebar">
+            {SIDEBAR_TABS.map(({ tab, label }) => (
+              <button
+                key={tab}
+                role="tab"
+                aria-selected={state.sidebarTab === tab}
+                onClick={() => handleSidebarTabChange(tab)}
+                className={`sidebar-tab ${state.sidebarTab === tab ? 'active' : ''}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {state.sidebarTab === 'functions' && (
+            <>
+              <div className="search-section">
+                <label htmlFor="function-search">
+                  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+                    <circle cx="7" cy="7" r="4"/>
+                    <path d="m10 10 4 4"/>
+                  </svg>
+                  Search Symbols:
+                </label>
+                <input
+                id="function-search"
+                type="text"
+                value={state.searchQuery}
+                onChange={handleSearchChange}
+                placeholder="Name, kind:type, pkg:scrape..."
+                className="search-input"
+                aria-label="Search functions and other symbols"
+                aria-describedby="search-help"
+              />
+              <span id="search-help" className="sr-only">
+                Type to search functions, methods, types, fields and constants; narrow with kind: and pkg: filters
+              </span>
+              {state.loading.symbols && (
+                <div className="loading" role="status" aria-live="polite">
+                  Loading...
+                </div>
+              )}
+              {state.errors.symbols && (
+                <div className="error" role="alert" aria-live="assertive">
+                  {state.errors.symbols}
+                </div>
+              )}
+        </div>
+
+            {state.symbols && (
+              <div className="functions-list">
+                <div className="symbol-pager">
+                  <span>
+                    {state.symbols.total === 0
+                      ? 'No matches'
+                      : `${state.symbols.offset + 1}-${state.symbols.offset + state.symbols.symbols.length} of ${state.symbols.total.toLocaleString()}`}
+                  </span>
+                  <button
+                    onClick={() => handleSymbolPageChange(Math.max(state.symbols!.offset - state.symbols!.limit, 0))}
+                    disabled={state.symbols.offset === 0 || state.loading.symbols}
+                    className="symbol-page-button"
+                    aria-label="Previous page"
+                  >
+                    ‹
+                  </button>
+                  <button
+                    onClick={() => handleSymbolPageChange(state.symbols!.offset + state.symbols!.limit)}
+                    disabled={state.symbols.offset + state.symbols.symbols.length >= state.symbols.total || state.loading.symbols}
+                    className="symbol-page-button"
+                    aria-label="Next page"
+                  >
+                    ›
+                  </button>
+                </div>
+                  <ul role="listbox" aria-label="Symbol search results">
+                    {state.symbols.symbols.map((symbol) => {
+                      const isFunction = symbol.kind === 'function' || symbol.kind === 'method';
+                      const isActive = state.selectedFunctionId === symbol.id || state.selectedNodeId === symbol.id;
+                      return (
+                        <li key={symbol.id} role="option">
+                          <button
+                            onClick={() => handleSymbolClick(symbol)}
+                            onKeyDown={(e) => handleKeyDown(e, symbol)}
+                            className={`function-button symbol-button ${isActive ? 'active' : ''}`}
+                            aria-pressed={isActive}
+                            aria-label={`Select ${symbol.kind} ${symbol.name}`}
+                            title={symbol.signature ?? symbol.id}
+                          >
+                            <span className="symbol-main">
+                              <span className={`symbol-kind symbol-kind-${symbol.kind}`}>{symbol.kind}</span>
+                              {symbol.name}
+                            </span>
+                            <span className="symbol-location">
+                              {symbol.package}
+                              {symbol.file && ` · ${symbol.file}${symbol.line ? `:${symbol.line}` : ''}`}
+                            </span>
+                          </button>
+                          {isFunction && state.selectedFunctionId && state.selectedFunctionId !== symbol.id && (
+                            <button
+                              onClick={() => handlePathTargetClick(symbol.id)}
+                              className={`path-target-button ${state.pathTargetId === symbol.id ? 'active' : ''}`}
+                              title="Find call paths from the selected function to this one"
+                              aria-label={`Find call paths to ${symbol.name}`}
+                            >
+                              Path
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                </ul>
               </div>
             )}
-      </div>
+            </>
+          )}
 
-          {state.functions.length > 0 && (
-            <div className="functions-list">
-              <h3>Results ({state.functions.length}):</h3>
-                <ul role="listbox" aria-label="Function search results">
-                  {state.functions.map((func) => {
-                    const getIcon = (name: string) => {
-                      if (name.includes('*') || name.includes('Pointer')) return 'pointer';
-                      if (name.toLowerCase().includes('histogram') || name.toLowerCase().includes('metric')) return 'histogram';
-                      return 'default';
-                    };
-                    return (
-                      <li key={func.id} role="option">
-                        <button
-                          onClick={() => handleFunctionClick(func.id)}
-                          onKeyDown={(e) => handleKeyDown(e, func.id)}
-                          className={`function-button ${state.selectedFunctionId === String(func.id) ? 'active' : ''}`}
-                          aria-pressed={state.selectedFunctionId === String(func.id)}
-                          aria-label={`Select function ${func.name}`}
-                          data-icon={getIcon(func.name)}
-                        >
-                          {func.name}
-        </button>
-                      </li>
-                    );
-                  })}
-              </ul>
-            </div>
+          {state.sidebarTab === 'files' && (
+            <FilesPanel
+              packages={state.sourceFiles}
+              loading={state.loading.files}
+              error={state.errors.files}
+              selectedFile={state.selectedFile}
+              outline={state.fileOutline}
+              outlineLoading={state.loading.outline}
+              outlineError={state.errors.outline}
+              selectedEntryId={state.selectedNodeId}
+              onFileSelect={handleFileSelect}
+              onEntryClick={handleOutlineEntryClick}
+            />
+          )}
+
+          {state.sidebarTab === 'taint' && (
+            <TaintPanel
+              summary={state.taintSummary}
+              sinks={state.taintSinks}
+              hotspots={state.taintHotspots}
+              category={state.taintCategory}
+              loading={state.loading.taint}
+              error={state.errors.taint}
+              selectedSink={state.selectedTaintSink}
+              hops={state.taintHops}
+              selectedNodeId={state.selectedNodeId}
+              onCategoryChange={loadTaintSinks}
+              onSinkClick={handleTaintSinkClick}
+              onHopClick={handleTaintHopClick}
+              onHotspotClick={handleFunctionClick}
+            />
+          )}
+
+          {state.sidebarTab === 'queries' && (
+            <QueryPanel
+              queries={state.queries}
+              selectedNodeId={state.selectedNodeId ?? state.selectedFunctionId}
+              loading={state.loading.query}
+              error={state.errors.query}
+              onRun={runQuery}
+            />
+          )}
+
+          {state.sidebarTab === 'findings' && (
+            <FindingsPanel
+              facets={state.findingFacets}
+              filters={state.findingFilters}
+              page={state.findingsPage}
+              loading={state.loading.findings}
+              error={state.errors.findings}
+              selectedFindingId={state.selectedFindingId}
+              onFiltersChange={handleFindingFiltersChange}
+              onPageChange={handleFindingsPageChange}
+              onFindingClick={handleFindingClick}
+            />
           )}
         </div>
 
         <div className="graph-panel">
+          <div className="graph-toolbar">
+            <label htmlFor="graph-depth">
+              Depth
+              <select
+                id="graph-depth"
+                value={state.graphOptions.depth}
+                onChange={handleDepthChange}
+                className="graph-select"
+              >
+                {Array.from({ length: MAX_GRAPH_DEPTH }, (_, i) => i + 1).map((depth) => (
+                  <option key={depth} value={depth}>{depth}</option>
+                ))}
+              </select>
+            </label>
+            <label htmlFor="graph-direction">
+              Direction
+              <select
+                id="graph-direction"
+                value={state.graphOptions.direction}
+                onChange={handleDirectionChange}
+                className="graph-select"
+              >
+                {GRAPH_DIRECTIONS.map((direction) => (
+                  <option key={direction} value={direction}>
+                    {isCallGraph ? direction : NEIGHBOR_DIRECTION_LABELS[direction]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <EdgeKindPicker
+              available={state.edgeKinds}
+              selected={state.graphOptions.edgeKinds}
+              onChange={handleEdgeKindsChange}
+            />
+            {(['size', 'color'] as const).map((channel) => (
+              <label key={channel} htmlFor={`graph-metric-${channel}`}>
+                {channel === 'size' ? 'Size' : 'Color'}
+                <select
+                  id={`graph-metric-${channel}`}
+                  value={state.metricEncoding[channel] ?? ''}
+                  onChange={(e) => handleMetricChange(channel, e)}
+                  className="graph-select"
+                  disabled={!hasMetrics}
+                  title={hasMetrics ? undefined : 'Metrics are available in the call graph view'}
+                >
+                  <option value="">none</option>
+                  {(Object.keys(NODE_METRIC_LABELS) as NodeMetric[]).map((metric) => (
+                    <option key={metric} value={metric}>{NODE_METRIC_LABELS[metric]}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label htmlFor="graph-git-overlay">
+              Git
+              <select
+                id="graph-git-overlay"
+                value={state.gitMetric ?? ''}
+                onChange={(e) => dispatch({ type: 'SET_GIT_METRIC', payload: (e.target.value || null) as GitMetric | null })}
+                className="graph-select"
+                title="Tint function nodes by their file's git history"
+              >
+                <option value="">none</option>
+                {(Object.keys(GIT_METRIC_LABELS) as GitMetric[]).map((metric) => (
+                  <option key={metric} value={metric}>{GIT_METRIC_LABELS[metric]}</option>
+                ))}
+              </select>
+            </label>
+            {state.databases.length > 1 && (
+              <label htmlFor="graph-diff-base">
+                Diff
+                <select
+                  id="graph-diff-base"
+                  value={state.graphView === 'diff' && state.diff ? state.diff.base : ''}
+                  onChange={(e) => handleDiffBaseChange(e.target.value)}
+                  className="graph-select"
+                  disabled={!state.selectedFunctionId && state.graphView !== 'diff'}
+                  title="Compare the selected function's neighborhood with another database"
+                >
+                  <option value="">none</option>
+                  {state.databases
+                    .filter((database) => database.id !== (state.database ?? state.databases[0].id))
+                    .map((database) => (
+                      <option key={database.id} value={database.id}>against {database.id}</option>
+                    ))}
+                </select>
+              </label>
+            )}
+            <button
+              onClick={() => dispatch({ type: 'SET_GRAPH_VIEW', payload: 'dashboard' })}
+              className={`graph-toolbar-button ${state.graphView === 'dashboard' ? 'active' : ''}`}
+              aria-pressed={state.graphView === 'dashboard'}
+              title="Codebase overview"
+            >
+              Dashboard
+            </button>
+            <button
+              onClick={() => loadPackageGraph(state.expandedPackages, state.showExternalPackages)}
+              className={`graph-toolbar-button ${state.graphView === 'packages' ? 'active' : ''}`}
+              aria-pressed={state.graphView === 'packages'}
+              title="Package dependency graph; double-click a package to expand it into its functions"
+            >
+              Packages
+            </button>
+            <button
+              onClick={loadTopology}
+              className={`graph-toolbar-button ${state.graphView === 'comm' ? 'active' : ''}`}
+              aria-pressed={state.graphView === 'comm'}
+              title="Service communication topology; click a protocol edge for its session type and endpoints"
+            >
+              Topology
+            </button>
+            <button
+              onClick={handleCfgToggle}
+              className={`graph-toolbar-button ${state.graphView === 'cfg' ? 'active' : ''}`}
+              disabled={!state.selectedFunctionId}
+              aria-pressed={state.graphView === 'cfg'}
+              title="Show the control-flow graph of the selected function"
+            >
+              Control flow
+            </button>
+            <button
+              onClick={() => dispatch({ type: 'SET_FOCUS_MODE', payload: !state.focusMode })}
+              className={`graph-toolbar-button ${state.focusMode ? 'active' : ''}`}
+              aria-pressed={state.focusMode}
+              title="Fade everything but the selected node and its direct neighbors"
+            >
+              Focus
+            </button>
+            <label htmlFor="graph-layout">
+              Layout
+              <select
+                id="graph-layout"
+                value={graphLayout}
+                onChange={(e) => dispatch({ type: 'SET_GRAPH_LAYOUT', payload: { view: state.graphView, layout: e.target.value as GraphLayout } })}
+                className="graph-select"
+                disabled={state.graphView === 'dashboard'}
+                title="How nodes are arranged; nodes you drag stay where you put them"
+              >
+                {(Object.keys(GRAPH_LAYOUT_LABELS) as GraphLayout[]).map((layout) => (
+                  <option key={layout} value={layout}>{GRAPH_LAYOUT_LABELS[layout]}</option>
+                ))}
+              </select>
+            </label>
+            {state.pathTargetId && state.graphData?.paths && (
+              <div className="path-summary" role="status">
+                {state.graphData.paths.length} call path{state.graphData.paths.length === 1 ? '' : 's'} found
+                <label htmlFor="path-count">
+                  Paths
+                  <select
+                    id="path-count"
+                    value={state.pathOptions.count}
+                    onChange={(e) => handlePathOptionsChange({ count: Number(e.target.value) })}
+                    className="graph-select"
+                    title="How many of the shortest call paths to find"
+                  >
+                    {Array.from({ length: MAX_PATH_COUNT }, (_, i) => i + 1).map((count) => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </label>
+                <label htmlFor="path-depth">
+                  Max depth
+                  <select
+                    id="path-depth"
+                    value={state.pathOptions.depth}
+                    onChange={(e) => handlePathOptionsChange({ depth: Number(e.target.value) })}
+                    className="graph-select"
+                    title="Longest path searched, in calls"
+                  >
+                    {Array.from({ length: MAX_PATH_DEPTH }, (_, i) => i + 1).map((depth) => (
+                      <option key={depth} value={depth}>{depth}</option>
+                    ))}
+                  </select>
+                </label>
+                <button onClick={handleClearPath} className="path-clear-button">
+                  Back to neighborhood
+                </button>
+              </div>
+            )}
+            {state.graphView === 'neighborhood' && state.expansions.length > 0 && (
+              <nav className="path-summary expansion-breadcrumb" aria-label="Expansion steps">
+                <button
+                  onClick={() => dispatch({ type: 'SET_EXPANSIONS', payload: [] })}
+                  className="expansion-crumb"
+                  title="Collapse every expansion"
+                >
+                  {state.expansionBase?.nodes.find((n) => n.data.id === state.selectedFunctionId)?.data.label ?? 'Start'}
+                </button>
+                {state.expansions.map((expansion, index) => (
+                  <Fragment key={expansion.nodeId}>
+                    <span aria-hidden="true">›</span>
+                    <button
+                      onClick={() => dispatch({ type: 'SET_EXPANSIONS', payload: state.expansions.slice(0, index + 1) })}
+                      className="expansion-crumb"
+                      aria-current={index === state.expansions.length - 1 ? 'step' : undefined}
+                      title="Collapse the steps after this one"
+                    >
+                      {expansion.label}
+                    </button>
+                  </Fragment>
+                ))}
+                {state.graphData?.truncated && <span>(node limit reached)</span>}
+              </nav>
+            )}
+            {state.graphView === 'packages' && (
+              <div className="package-summary">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={state.showExternalPackages}
+                    onChange={(e) => loadPackageGraph(state.expandedPackages, e.target.checked)}
+                  />
+                  External packages
+                </label>
+                {state.expandedPackages.length > 0 && (
+                  <button
+                    onClick={() => loadPackageGraph([], state.showExternalPackages)}
+                    className="graph-toolbar-button"
+                  >
+                    Collapse {state.expandedPackages.length} package{state.expandedPackages.length === 1 ? '' : 's'}
+                  </button>
+                )}
+              </div>
+            )}
+            {state.graphView === 'taint' && state.selectedTaintSink && (
+              <div className="path-summary" role="status">
+                {state.selectedTaintSink.source_name} → {state.selectedTaintSink.sink_name}:{' '}
+                {state.selectedTaintSink.hops} data-flow hop{state.selectedTaintSink.hops === 1 ? '' : 's'}
+              </div>
+            )}
+            {state.graphView === 'type' && state.typeDetail && (
+              <div className="path-summary" role="status">
+                {state.typeDetail.type.name}
+                {state.typeDetail.type.type_kind ? ` (${state.typeDetail.type.type_kind})` : ''}:{' '}
+                {state.typeDetail.type.type_kind === 'interface'
+                  ? `${state.typeDetail.implementors.length} implementor${state.typeDetail.implementors.length === 1 ? '' : 's'}`
+                  : `${state.typeDetail.interfaces.length} interface${state.typeDetail.interfaces.length === 1 ? '' : 's'} satisfied`}
+                , {state.typeDetail.methods.length} method{state.typeDetail.methods.length === 1 ? '' : 's'}
+              </div>
+            )}
+            {state.graphView === 'slice' && state.slice && (
+              <div className="path-summary" role="status">
+                {state.slice.direction === 'backward' ? 'Backward' : 'Forward'} slice from {state.slice.file}:{state.slice.line}:{' '}
+                {state.slice.nodes.length} node{state.slice.nodes.length === 1 ? '' : 's'} on {state.slice.lines.length} line{state.slice.lines.length === 1 ? '' : 's'} of this file,
+                depth {state.slice.depth}
+                {state.slice.truncated ? ' (node limit reached)' : ''}
+                {state.slice.timed_out ? ' (timed out)' : ''}
+              </div>
+            )}
+            {state.graphView === 'diff' && state.diff && (
+              <div className="path-summary" role="status">
+                {state.diff.id ? `Neighborhood of ${state.diff.nodes.find((n) => n.data.id === state.diff?.id)?.data.label ?? state.diff.id}` : `Package ${state.diff.package}`}:{' '}
+                +{state.diff.summary.added_functions} −{state.diff.summary.removed_functions} ~{state.diff.summary.changed_functions} functions,{' '}
+                +{state.diff.summary.added_edges} −{state.diff.summary.removed_edges} calls
+                {state.diff.truncated ? ' (node limit reached)' : ''}
+                {state.diff.package && (
+                  <button
+                    onClick={handleDiffScopeToggle}
+                    className="path-clear-button"
+                    disabled={!state.diff.id && !state.selectedFunctionId}
+                  >
+                    {state.diff.id ? 'Whole package' : 'Back to neighborhood'}
+                  </button>
+                )}
+              </div>
+            )}
+            {state.graphView === 'comm' && state.graphData && (
+              <div className="path-summary" role="status">
+                {state.graphData.nodes.length} component{state.graphData.nodes.length === 1 ? '' : 's'},{' '}
+                {state.graphData.edges.length} protocol link{state.graphData.edges.length === 1 ? '' : 's'}
+              </div>
+            )}
+            {state.graphView === 'query' && state.queryResult && (
+              <div className="query-summary" role="status">
+                <span>
+                  {state.queryResult.name}: {state.queryResult.rows.length} row{state.queryResult.rows.length === 1 ? '' : 's'}
+                  {state.queryResult.truncated ? ' (row limit reached)' : ''} in {state.queryResult.elapsed_ms} ms
+                </span>
+                {state.queryResult.graph && (['table', 'graph'] as const).map((display) => (
+                  <button
+                    key={display}
+                    onClick={() => dispatch({ type: 'SET_QUERY_DISPLAY', payload: display })}
+                    className={`graph-toolbar-button ${state.queryDisplay === display ? 'active' : ''}`}
+                    aria-pressed={state.queryDisplay === display}
+                  >
+                    {display === 'table' ? 'Table' : 'Graph'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           {state.loading.graph && (
             <div className="loading-overlay">
               <div className="loading" role="status" aria-live="polite">
@@ -304,12 +2131,35 @@ function App() {
               </div>
             </div>
           )}
-          {memoizedGraph}
-          {!state.graphData && !state.loading.graph && !state.errors.graph && state.selectedFunctionId && (
-            <div className="placeholder">Select a function to view its graph</div>
-          )}
-          {!state.selectedFunctionId && (
-            <div className="placeholder">Search and select a function to view its graph</div>
+          {state.graphView === 'dashboard' ? (
+            <Dashboard
+              data={state.dashboard}
+              topFunctions={state.topFunctions}
+              topMetric={state.dashboardMetric}
+              loading={state.loading.dashboard}
+              error={state.errors.dashboard}
+              onTopMetricChange={handleDashboardMetricChange}
+              onFunctionClick={handleFunctionClick}
+            />
+          ) : state.graphView === 'query' ? (
+            <>
+              {state.loading.query && (
+                <div className="placeholder">Running query...</div>
+              )}
+              {state.queryResult && (state.queryDisplay === 'graph' && state.queryResult.graph
+                ? memoizedGraph
+                : <QueryResultTable result={state.queryResult} onNodeClick={handleNodeClick} />)}
+            </>
+          ) : (
+            <>
+              {memoizedGraph}
+              {!state.graphData && !state.loading.graph && !state.errors.graph && state.selectedFunctionId && (
+                <div className="placeholder">Select a function to view its graph</div>
+              )}
+              {!state.selectedFunctionId && state.graphView !== 'packages' && state.graphView !== 'taint' && state.graphView !== 'type' && state.graphView !== 'comm' && state.graphView !== 'slice' && state.graphView !== 'diff' && (
+                <div className="placeholder">Search and select a function to view its graph</div>
+              )}
+            </>
           )}
         </div>
 
@@ -320,6 +2170,44 @@ function App() {
             loading={state.loading.source}
             error={state.errors.source}
             nodeId={state.selectedFunctionId}
+            highlightRange={state.highlightRange}
+            findings={state.sourceFindings}
+            gitHistory={state.sourceGitHistory}
+            sliceLines={state.graphView === 'slice' && state.slice?.file === sourceFile ? state.slice.lines : undefined}
+            onSliceRequest={handleSliceRequest}
+          />
+          {state.graphView === 'type' && state.typeDetail && (
+            <TypeDetails
+              detail={state.typeDetail}
+              selectedNodeId={state.selectedNodeId}
+              onTypeClick={handleTypeClick}
+              onMethodClick={handleTypeMethodClick}
+            />
+          )}
+          {state.graphView === 'diff' && state.diff && (
+            <DiffDetails
+              diff={state.diff}
+              selectedNodeId={state.selectedNodeId}
+              onFunctionClick={handleGraphNodeClick}
+            />
+          )}
+          {state.graphView === 'comm' && (
+            <ProtocolDetails
+              detail={state.commProtocol}
+              loading={state.loading.comm}
+              error={state.errors.comm}
+              selectedNodeId={state.selectedNodeId}
+              onEndpointClick={handleCommEndpointClick}
+            />
+          )}
+          <UsagesPanel
+            nodeId={state.selectedNodeId}
+            usages={state.usages}
+            loading={state.loading.usages}
+            error={state.errors.usages}
+            selectedUseId={state.selectedUseId}
+            onFind={findUsages}
+            onUsageClick={handleUsageClick}
           />
           </div>
         </div>
@@ -1,47 +1,267 @@
-import { useEffect, useRef, memo, useCallback } from 'react';
+import { useEffect, useRef, useState, memo, useCallback, useMemo } from 'react';
 import cytoscape from 'cytoscape';
-import type { GraphResponse } from './types';
+import type {
+  ClusterMode,
+  FindingSeverity,
+  GitMetric,
+  GraphLayout,
+  GraphResponse,
+  MetricEncoding,
+  NodeFindingSummary,
+  NodeGitStats,
+  NodeMetric,
+} from './types';
 import { logger } from './utils/logger';
-import { MAX_GRAPH_NODES, LAYOUT_TIMEOUT } from './constants';
-import { graphStylesheet } from './graphStyles';
+import {
+  cytoscapeToSvg,
+  downloadFile,
+  graphToDot,
+  graphToGraphML,
+  graphToMermaid,
+  EXPORT_BACKGROUND,
+  type GraphExportFormat,
+} from './utils/graphExport';
+import { clusterGraph } from './utils/graphClusters';
+import { computeLayout, type LayoutRequest, type LayoutResult } from './utils/graphLayout';
+import { MAX_GRAPH_NODES, CLUSTER_COLLAPSE_SIZE, LAYOUT_TIMEOUT, NODE_METRIC_LABELS, GIT_METRIC_LABELS, DIFF_STATUS_LABELS } from './constants';
+import {
+  graphStylesheet,
+  getEdgeKindStyle,
+  buildGraphStylesheet,
+  buildMetricStylesheet,
+  buildGitOverlayStylesheet,
+  METRIC_COLOR_RANGE,
+  GIT_OVERLAY_COLOR_RANGE,
+  type MetricRange,
+} from './graphStyles';
 import './Graph.css';
 
 interface GraphProps {
   graphData: GraphResponse | null;
   onNodeClick: (nodeId: string) => void;
+  // Replaces the default zoom-to-node on double click
+  onNodeDoubleClick?: (nodeId: string) => void;
+  onEdgeClick?: (edgeId: string) => void;
   focusMode?: boolean;
+  layout?: GraphLayout;
+  // The node the graph was opened on, which the hierarchy, tree and concentric layouts start from
+  rootId?: string | null;
+  nodeFindings?: Record<string, NodeFindingSummary>;
+  metricEncoding?: MetricEncoding;
+  // Git overlay: tints function nodes by the chosen statistic of their file
+  nodeGitStats?: Record<string, NodeGitStats>;
+  gitMetric?: GitMetric | null;
+  // Base name of exported files
+  exportName?: string;
+  // Apply data changes to the drawn graph in place instead of laying it out again
+  preservePositions?: boolean;
+  // Offer grouping nodes by package or file, for graphs that carry those fields
+  clusterable?: boolean;
 }
 
-const LAYOUT_CONFIG = {
-  name: 'cose',
-  idealEdgeLength: 100,
-  nodeOverlap: 20,
-  refresh: 20,
-  fit: true,
-  padding: 30,
-  randomize: false,
-  componentSpacing: 100,
-  nodeRepulsion: 4000000,
-  edgeElasticity: 100,
-  nestingFactor: 5,
-  gravity: 80,
-  numIter: 1000,
-  initialTemp: 200,
-  coolingFactor: 0.95,
-  minTemp: 1.0,
-} as const;
-
-function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
+const CLUSTER_MODES: Array<{ mode: ClusterMode; label: string }> = [
+  { mode: 'none', label: 'No grouping' },
+  { mode: 'package', label: 'Group by package' },
+  { mode: 'file', label: 'Group by file' },
+];
+
+const EXPORT_FORMATS: Array<{ format: GraphExportFormat; label: string }> = [
+  { format: 'png', label: 'PNG image' },
+  { format: 'svg', label: 'SVG image' },
+  { format: 'dot', label: 'Graphviz DOT' },
+  { format: 'graphml', label: 'GraphML' },
+  { format: 'mermaid', label: 'Mermaid flowchart' },
+  { format: 'json', label: 'JSON' },
+];
+
+const FINDING_SEVERITIES: FindingSeverity[] = ['error', 'warning', 'info'];
+const FINDING_CLASSES = FINDING_SEVERITIES.map(severity => `finding-${severity}`).join(' ');
+
+// New nodes go on an arc beside a placed neighbor, facing away from the middle of the graph
+const EXPANSION_RADIUS = 120;
+const EXPANSION_ARC_STEP = 0.4;
+const STRUCTURAL_DATA_KEYS = ['id', 'parent', 'source', 'target'];
+
+/**
+ * Bring the drawn graph in line with the given elements without moving anything already placed:
+ * elements no longer present are removed, and new nodes are positioned next to a neighbor that
+ * has a position, hop by hop outwards. Returns the added elements.
+ */
+function updateInPlace(
+  cy: cytoscape.Core,
+  nodes: cytoscape.ElementDefinition[],
+  edges: cytoscape.ElementDefinition[],
+): cytoscape.CollectionReturnValue {
+  const ids = new Set([...nodes, ...edges].map(element => element.data.id));
+  cy.startBatch();
+  cy.elements().filter(element => !ids.has(element.id())).remove();
+  // Labels, counts and weights may have changed; where an element sits in the graph has not
+  [...nodes, ...edges].forEach(element => {
+    const existing = cy.getElementById(element.data.id as string);
+    if (existing.nonempty()) {
+      existing.data(Object.fromEntries(
+        Object.entries(element.data).filter(([key]) => !STRUCTURAL_DATA_KEYS.includes(key)),
+      ));
+    }
+  });
+
+  const box = cy.nodes().boundingBox({});
+  const center = { x: (box.x1 + box.x2) / 2, y: (box.y1 + box.y2) / 2 };
+  const positions = new Map<string, cytoscape.Position>();
+  cy.nodes().forEach(node => {
+    positions.set(node.id(), node.position());
+  });
+
+  // Compound parents take their position from their children
+  const parentIds = new Set(nodes.map(node => node.data.parent));
+  let pending = nodes.filter(node => !positions.has(node.data.id as string) && !parentIds.has(node.data.id));
+  while (pending.length > 0) {
+    const groups = new Map<string, cytoscape.ElementDefinition[]>();
+    pending.forEach(node => {
+      const anchor = edges
+        .map(edge => edge.data.source === node.data.id ? edge.data.target : edge.data.target === node.data.id ? edge.data.source : null)
+        .find((id): id is string => !!id && positions.has(id));
+      if (anchor) {
+        groups.set(anchor, [...(groups.get(anchor) ?? []), node]);
+      }
+    });
+    if (groups.size === 0) break;
+
+    groups.forEach((group, anchorId) => {
+      const anchor = positions.get(anchorId) as cytoscape.Position;
+      const direction = Math.atan2(anchor.y - center.y, anchor.x - center.x);
+      group.forEach((node, index) => {
+        const angle = direction + (index - (group.length - 1) / 2) * EXPANSION_ARC_STEP;
+        positions.set(node.data.id as string, {
+          x: anchor.x + EXPANSION_RADIUS * Math.cos(angle),
+          y: anchor.y + EXPANSION_RADIUS * Math.sin(angle),
+        });
+      });
+    });
+    pending = pending.filter(node => !positions.has(node.data.id as string));
+  }
+  // Nodes with no path to anything placed line up to the right of the graph
+  pending.forEach((node, index) => {
+    positions.set(node.data.id as string, { x: box.x2 + EXPANSION_RADIUS, y: box.y1 + index * 60 });
+  });
+
+  const added = cy.add([
+    ...nodes
+      .filter(node => cy.getElementById(node.data.id as string).empty())
+      .map(node => ({ ...node, position: positions.get(node.data.id as string) })),
+    ...edges.filter(edge => cy.getElementById(edge.data.id as string).empty()),
+  ]);
+  cy.endBatch();
+  return added;
+}
+
+function Graph({
+  graphData,
+  onNodeClick,
+  onNodeDoubleClick,
+  onEdgeClick,
+  focusMode = false,
+  layout: layoutMode = 'force',
+  rootId = null,
+  nodeFindings,
+  metricEncoding,
+  nodeGitStats,
+  gitMetric = null,
+  exportName = 'graph',
+  preservePositions = false,
+  clusterable = false,
+}: GraphProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const exportMenuRef = useRef<HTMLDetailsElement>(null);
   const cyRef = useRef<cytoscape.Core | null>(null);
   const layoutRef = useRef<cytoscape.Layouts | null>(null);
   const selectedNodeRef = useRef<string | null>(null);
   const hoveredNodeRef = useRef<string | null>(null);
+  // Positions of nodes dragged by hand, kept across layouts until unpinned
+  const pinnedRef = useRef(new Map<string, cytoscape.Position>());
+  const [pinnedCount, setPinnedCount] = useState(0);
+  const layoutWorkerRef = useRef<Worker | null>(null);
+  const pendingLayoutsRef = useRef(new Map<number, { request: LayoutRequest; resolve: (positions: LayoutResult['positions']) => void }>());
+  // Bumped by every layout run, so positions arriving for an older one are dropped
+  const layoutRequestRef = useRef(0);
+  const layoutModeRef = useRef(layoutMode);
+  const rootIdRef = useRef(rootId);
+  // Latest click handler, so a new callback from the parent does not rebuild the Cytoscape instance
+  const onNodeClickRef = useRef(onNodeClick);
+  const onNodeDoubleClickRef = useRef(onNodeDoubleClick);
+  const onEdgeClickRef = useRef(onEdgeClick);
+  // Grouping picked by hand; until then graphs past the display cap are grouped by package
+  const [clusterMode, setClusterMode] = useState<ClusterMode | null>(null);
+  const [clusterOverrides, setClusterOverrides] = useState<Record<string, boolean>>({});
+  const drawnClusterModeRef = useRef<ClusterMode>('none');
+
+  const activeClusterMode: ClusterMode = !clusterable || !graphData ? 'none'
+    : clusterMode ?? (graphData.nodes.length > MAX_GRAPH_NODES ? 'package' : 'none');
+
+  // What is drawn: the graph data, with clusters replacing groups of nodes when grouping is on.
+  // The function the graph was opened on stays visible; neighborhood responses list it first.
+  const displayData = useMemo(() => {
+    if (!graphData || activeClusterMode === 'none') return graphData;
+    return clusterGraph(graphData, activeClusterMode, {
+      overrides: clusterOverrides,
+      keep: rootId ? [rootId] : graphData.nodes.slice(0, 1).map(n => n.data.id),
+      maxNodes: MAX_GRAPH_NODES,
+      collapseSize: CLUSTER_COLLAPSE_SIZE,
+    });
+  }, [graphData, activeClusterMode, clusterOverrides, rootId]);
+
+  useEffect(() => {
+    onNodeClickRef.current = onNodeClick;
+    onNodeDoubleClickRef.current = onNodeDoubleClick;
+    onEdgeClickRef.current = onEdgeClick;
+  }, [onNodeClick, onNodeDoubleClick, onEdgeClick]);
 
   const handleNodeClick = useCallback((nodeId: string) => {
-    onNodeClick(nodeId);
+    onNodeClickRef.current(nodeId);
     selectedNodeRef.current = nodeId;
-  }, [onNodeClick]);
+  }, []);
+
+  // Findings usually arrive after the graph, so the overlay is applied on its own rather than with the layout
+  const nodeFindingsRef = useRef(nodeFindings);
+
+  const applyFindingOverlay = useCallback(() => {
+    if (!cyRef.current) return;
+    const findings = nodeFindingsRef.current ?? {};
+    cyRef.current.nodes().forEach((node) => {
+      node.removeClass(FINDING_CLASSES);
+      const summary = findings[node.id()];
+      if (summary) {
+        node.addClass(`finding-${summary.severity}`);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    nodeFindingsRef.current = nodeFindings;
+    applyFindingOverlay();
+  }, [nodeFindings, applyFindingOverlay]);
+
+  // Like findings, git statistics arrive after the graph; the overlay stores the value as node data
+  // so the git_value stylesheet rule can map it to a color
+  const gitOverlayRef = useRef({ stats: nodeGitStats, metric: gitMetric });
+
+  const applyGitOverlay = useCallback(() => {
+    if (!cyRef.current) return;
+    const { stats, metric } = gitOverlayRef.current;
+    cyRef.current.nodes().forEach((node) => {
+      const value = metric ? stats?.[node.id()]?.[metric] : undefined;
+      if (value === undefined) {
+        node.removeData('git_value');
+      } else {
+        node.data('git_value', value);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    gitOverlayRef.current = { stats: nodeGitStats, metric: gitMetric };
+    applyGitOverlay();
+  }, [nodeGitStats, gitMetric, applyGitOverlay]);
 
   const applyFocusMode = useCallback((nodeId: string | null) => {
     if (!cyRef.current) return;
@@ -65,6 +285,119 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
     visibleEdges.removeClass('fade');
   }, []);
 
+  // Layouts run in a worker; where there is none, such as in tests, they run on the main thread
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    const pending = pendingLayoutsRef.current;
+    const worker = new Worker(new URL('./layoutWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<LayoutResult>) => {
+      pending.get(event.data.id)?.resolve(event.data.positions);
+      pending.delete(event.data.id);
+    };
+    worker.onerror = (event) => {
+      logger.error('Layout worker failed, laying out on the main thread:', event.message);
+      worker.terminate();
+      layoutWorkerRef.current = null;
+      pending.forEach(({ request, resolve }) => resolve(computeLayout(request)));
+      pending.clear();
+    };
+    layoutWorkerRef.current = worker;
+    return () => {
+      worker.terminate();
+      layoutWorkerRef.current = null;
+      pending.clear();
+    };
+  }, []);
+
+  const computePositions = useCallback((request: LayoutRequest) => new Promise<LayoutResult['positions']>((resolve) => {
+    const worker = layoutWorkerRef.current;
+    if (!worker) {
+      resolve(computeLayout(request));
+      return;
+    }
+    pendingLayoutsRef.current.set(request.id, { request, resolve });
+    worker.postMessage(request);
+  }), []);
+
+  // Lay out what is drawn with the current layout, animating nodes to their new places
+  const applyLayout = useCallback(() => {
+    const cy = cyRef.current;
+    if (!cy || cy.nodes().empty()) return;
+    if (layoutRef.current) {
+      try {
+        layoutRef.current.stop();
+      } catch {
+        // Ignore
+      }
+      layoutRef.current = null;
+    }
+
+    const pinned = pinnedRef.current;
+    const request: LayoutRequest = {
+      id: ++layoutRequestRef.current,
+      layout: layoutModeRef.current,
+      rootId: rootIdRef.current,
+      width: cy.width(),
+      height: cy.height(),
+      nodes: cy.nodes().map(node => ({
+        id: node.id(),
+        parent: node.data('parent'),
+        width: node.outerWidth(),
+        height: node.outerHeight(),
+        position: pinned.get(node.id()) ?? { ...node.position() },
+        pinned: pinned.has(node.id()),
+      })),
+      edges: cy.edges().map(edge => ({ id: edge.id(), source: edge.data('source'), target: edge.data('target') })),
+    };
+
+    computePositions(request).then((positions) => {
+      if (!cyRef.current || request.id !== layoutRequestRef.current) return;
+      // Nodes missing from the result, such as compound parents, keep their place
+      const layout = cyRef.current.layout({
+        name: 'preset',
+        positions,
+        animate: true,
+        animationDuration: 400,
+        fit: false,
+      });
+      layoutRef.current = layout;
+
+      layout.one('layoutstop', () => {
+        if (cyRef.current && layoutRef.current === layout) {
+          try {
+            cyRef.current.fit(undefined, 50);
+            if (selectedNodeRef.current && focusMode) {
+              applyFocusMode(selectedNodeRef.current);
+            }
+          } catch (e) {
+            logger.error('Error fitting graph:', e);
+          }
+        }
+        if (layoutRef.current === layout) {
+          layoutRef.current = null;
+        }
+      });
+      layout.run();
+    }).catch((error) => {
+      logger.error('Error computing layout:', error);
+    });
+  }, [computePositions, focusMode, applyFocusMode]);
+
+  // A new layout or root re-arranges what is drawn without rebuilding it
+  useEffect(() => {
+    if (layoutModeRef.current === layoutMode && rootIdRef.current === rootId) return;
+    layoutModeRef.current = layoutMode;
+    rootIdRef.current = rootId;
+    applyLayout();
+  }, [layoutMode, rootId, applyLayout]);
+
+  const handleUnpinAll = useCallback(() => {
+    pinnedRef.current.clear();
+    setPinnedCount(0);
+    cyRef.current?.nodes().removeClass('pinned');
+    applyLayout();
+  }, [applyLayout]);
+
   useEffect(() => {
     if (!containerRef.current || cyRef.current) return;
 
@@ -81,6 +414,11 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
         if (!cyRef.current) return;
         const node = evt.target;
         const nodeId = node.id();
+        // A cluster opens or closes in place instead of selecting anything
+        if (node.data('kind') === 'cluster') {
+          setClusterOverrides(overrides => ({ ...overrides, [nodeId]: !node.isParent() }));
+          return;
+        }
         if (nodeId) {
           handleNodeClick(nodeId);
           if (focusMode) {
@@ -92,6 +430,10 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
       }
     });
 
+    cy.on('tap', 'edge', (evt) => {
+      onEdgeClickRef.current?.(evt.target.id());
+    });
+
     cy.on('mouseover', 'node', (evt) => {
       const node = evt.target;
       const nodeId = node.id();
@@ -121,8 +463,24 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
       }
     });
 
+    // A node dropped by hand stays where it was put; a dragged cluster pins its members
+    cy.on('dragfree', 'node', (evt) => {
+      const node: cytoscape.NodeSingular = evt.target;
+      const moved = node.isParent() ? node.descendants().filter(child => !child.isParent()) : cy.collection().union(node);
+      moved.forEach(child => {
+        pinnedRef.current.set(child.id(), { ...child.position() });
+      });
+      moved.addClass('pinned');
+      setPinnedCount(pinnedRef.current.size);
+    });
+
     cy.on('dbltap', 'node', (evt) => {
       const node = evt.target;
+      if (node.data('kind') === 'cluster') return;
+      if (onNodeDoubleClickRef.current) {
+        onNodeDoubleClickRef.current(node.id());
+        return;
+      }
       cy.animate({
         center: { eles: node },
         zoom: 1.5,
@@ -151,7 +509,7 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
   }, [handleNodeClick, focusMode, applyFocusMode]);
 
   useEffect(() => {
-    if (!graphData || !cyRef.current) {
+    if (!displayData || !cyRef.current) {
       if (layoutRef.current) {
         try {
           layoutRef.current.stop();
@@ -179,12 +537,62 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
       if (!cyRef.current) return;
 
       try {
-        const limitedNodes = graphData.nodes.slice(0, MAX_GRAPH_NODES);
+        const limitedNodes = displayData.nodes.slice(0, MAX_GRAPH_NODES);
         const nodeIds = new Set(limitedNodes.map(n => n.data.id));
-        const limitedEdges = graphData.edges.filter(
+        const limitedEdges = displayData.edges.filter(
           e => nodeIds.has(e.data.source) && nodeIds.has(e.data.target)
         );
 
+        // Highlight the shortest path when the data comes from the path finder
+        const shortestPath = displayData.paths?.[0] ?? [];
+        const pathNodeIds = new Set(shortestPath);
+        const pathHops = new Set(shortestPath.slice(1).map((id, i) => `${shortestPath[i]}\u0000${id}`));
+        const pathEndpoints = new Set([shortestPath[0], shortestPath[shortestPath.length - 1]]);
+
+        const nodeElements = limitedNodes.map(n => ({
+          ...n,
+          data: {
+            ...n.data,
+            type: n.data.id.startsWith('ext::') ? 'external' : 
+                  n.data.label?.toLowerCase().includes('main') ? 'entry' : 'internal',
+          },
+          classes: pathEndpoints.has(n.data.id) ? 'path-node path-endpoint' :
+                   pathNodeIds.has(n.data.id) ? 'path-node' : '',
+        }));
+        const edgeElements = limitedEdges.map(e => {
+          const onPath = pathHops.has(`${e.data.source}\u0000${e.data.target}`);
+          return {
+            ...e,
+            data: {
+              ...e.data,
+              type: onPath ? 'primary' : 'secondary',
+            },
+            classes: onPath ? 'path-edge' : '',
+          };
+        });
+
+        // Switching the grouping moves every node into a different parent, so it is laid out afresh
+        const regrouped = drawnClusterModeRef.current !== activeClusterMode;
+        drawnClusterModeRef.current = activeClusterMode;
+
+        // An expansion or collapse of what is drawn: placed nodes stay put and no layout runs
+        if (preservePositions && !regrouped && limitedNodes.some(n => cy.getElementById(n.data.id).nonempty())) {
+          const added = updateInPlace(cy, nodeElements, edgeElements);
+          applyFindingOverlay();
+          applyGitOverlay();
+          added.style('opacity', 0);
+          added.animate({ style: { 'opacity': 1 } }, {
+            duration: 300,
+            easing: 'ease-out',
+            complete: () => added.removeStyle('opacity'),
+          });
+          cy.animate({ fit: { eles: cy.elements(), padding: 50 } }, { duration: 300 });
+          if (selectedNodeRef.current && focusMode) {
+            applyFocusMode(selectedNodeRef.current);
+          }
+          return;
+        }
+
         cy.startBatch();
         const existingElements = cy.elements();
         if (existingElements.length > 0) {
@@ -193,23 +601,7 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
         }
 
         if (limitedNodes.length > 0) {
-          const newElements = cy.add({
-            nodes: limitedNodes.map(n => ({
-              ...n,
-              data: {
-                ...n.data,
-                type: n.data.id.startsWith('ext::') ? 'external' : 
-                      n.data.label?.toLowerCase().includes('main') ? 'entry' : 'internal',
-              },
-            })),
-            edges: limitedEdges.map(e => ({
-              ...e,
-              data: {
-                ...e.data,
-                type: 'secondary',
-              },
-            })),
-          });
+          const newElements = cy.add({ nodes: nodeElements, edges: edgeElements });
 
           newElements.style('opacity', 0);
           
@@ -243,29 +635,14 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
         }
 
         cy.endBatch();
+        applyFindingOverlay();
+        applyGitOverlay();
 
         if (limitedNodes.length > 0) {
-          const layout = cy.layout(LAYOUT_CONFIG);
-          layoutRef.current = layout;
-
-          const handleLayoutStop = () => {
-            if (cyRef.current && layoutRef.current === layout) {
-              try {
-                cyRef.current.fit(undefined, 50);
-                if (selectedNodeRef.current && focusMode) {
-                  applyFocusMode(selectedNodeRef.current);
-                }
-              } catch (e) {
-                logger.error('Error fitting graph:', e);
-              }
-            }
-            if (layoutRef.current === layout) {
-              layoutRef.current = null;
-            }
-          };
-
-          layout.one('layoutstop', handleLayoutStop);
-          layout.run();
+          cy.nodes().forEach(node => {
+            node.toggleClass('pinned', pinnedRef.current.has(node.id()));
+          });
+          applyLayout();
         }
       } catch (error) {
         logger.error('Error updating graph data:', error);
@@ -275,6 +652,7 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
 
     return () => {
       clearTimeout(timeoutId);
+      layoutRequestRef.current += 1;
       if (layoutRef.current) {
         try {
           layoutRef.current.stop();
@@ -284,7 +662,49 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
         layoutRef.current = null;
       }
     };
-  }, [graphData, focusMode, applyFocusMode]);
+  }, [displayData, activeClusterMode, focusMode, applyFocusMode, applyFindingOverlay, applyGitOverlay, applyLayout, preservePositions]);
+
+  // Value range of each encoded metric over the nodes that are actually drawn
+  const metricRanges = useMemo(() => {
+    const ranges: Partial<Record<NodeMetric, MetricRange>> = {};
+    if (!displayData || !metricEncoding) return ranges;
+    const metrics = [metricEncoding.size, metricEncoding.color].filter((m): m is NodeMetric => !!m);
+    displayData.nodes.slice(0, MAX_GRAPH_NODES).forEach((node) => {
+      metrics.forEach((metric) => {
+        const value = node.data[metric];
+        if (value === undefined) return;
+        const range = ranges[metric];
+        ranges[metric] = range
+          ? { min: Math.min(range.min, value), max: Math.max(range.max, value) }
+          : { min: value, max: value };
+      });
+    });
+    return ranges;
+  }, [displayData, metricEncoding]);
+
+  // Git statistic range over the drawn nodes that have one
+  const gitRange = useMemo(() => {
+    if (!displayData || !gitMetric || !nodeGitStats) return undefined;
+    let range: MetricRange | undefined;
+    displayData.nodes.slice(0, MAX_GRAPH_NODES).forEach((node) => {
+      const value = nodeGitStats[node.data.id]?.[gitMetric];
+      if (value === undefined) return;
+      range = range
+        ? { min: Math.min(range.min, value), max: Math.max(range.max, value) }
+        : { min: value, max: value };
+    });
+    return range;
+  }, [displayData, gitMetric, nodeGitStats]);
+
+  // Runs after the instance effect, so a rebuilt instance (focus mode toggle) gets the metric rules back
+  useEffect(() => {
+    if (!cyRef.current) return;
+    const metricRules = [
+      ...(metricEncoding ? buildMetricStylesheet(metricEncoding, metricRanges) : []),
+      ...(gitRange ? buildGitOverlayStylesheet(gitRange) : []),
+    ];
+    cyRef.current.style(buildGraphStylesheet(metricRules) as cytoscape.StylesheetJson);
+  }, [metricEncoding, metricRanges, gitRange, focusMode]);
 
   useEffect(() => {
     if (focusMode && selectedNodeRef.current && cyRef.current) {
@@ -321,7 +741,171 @@ function Graph({ graphData, onNodeClick, focusMode = false }: GraphProps) {
     };
   }, []);
 
-  return <div ref={containerRef} className="graph-container" />;
+  const legendKinds = useMemo(() => {
+    if (!graphData) return [];
+    const kinds = new Set(graphData.edges.map(e => e.data.kind).filter((kind): kind is string => !!kind));
+    return Array.from(kinds).sort();
+  }, [graphData]);
+
+  const legendSeverities = useMemo(() => {
+    if (!graphData || !nodeFindings) return [];
+    const present = new Set(graphData.nodes.map(n => nodeFindings[n.data.id]?.severity));
+    return FINDING_SEVERITIES.filter(severity => present.has(severity));
+  }, [graphData, nodeFindings]);
+
+  const legendDiffs = useMemo(() => {
+    if (!graphData) return [];
+    const present = new Set(graphData.nodes.map(n => n.data.diff));
+    return (Object.keys(DIFF_STATUS_LABELS) as Array<keyof typeof DIFF_STATUS_LABELS>).filter(status => present.has(status));
+  }, [graphData]);
+
+  // Images come from the rendered view; the other formats serialize the whole graph response,
+  // including nodes beyond the display cap
+  const handleExport = useCallback((format: GraphExportFormat) => {
+    const cy = cyRef.current;
+    if (!graphData || !cy) return;
+    if (exportMenuRef.current) {
+      exportMenuRef.current.open = false;
+    }
+    const name = exportName.replace(/[^\w.-]+/g, '_');
+    try {
+      switch (format) {
+        case 'png':
+          downloadFile(`${name}.png`, cy.png({ output: 'blob', full: true, scale: 2, bg: EXPORT_BACKGROUND }), 'image/png');
+          break;
+        case 'svg':
+          downloadFile(`${name}.svg`, cytoscapeToSvg(cy), 'image/svg+xml');
+          break;
+        case 'dot':
+          downloadFile(`${name}.dot`, graphToDot(graphData, exportName), 'text/vnd.graphviz');
+          break;
+        case 'graphml':
+          downloadFile(`${name}.graphml`, graphToGraphML(graphData), 'application/graphml+xml');
+          break;
+        case 'mermaid':
+          downloadFile(`${name}.mmd`, graphToMermaid(graphData), 'text/plain');
+          break;
+        case 'json':
+          downloadFile(`${name}.json`, JSON.stringify(graphData, null, 2), 'application/json');
+          break;
+      }
+    } catch (error) {
+      logger.error('Error exporting graph:', error);
+    }
+  }, [graphData, exportName]);
+
+  // Nodes past the display cap, counting the members of collapsed clusters among them
+  const undrawnCount = (displayData?.nodes ?? []).slice(MAX_GRAPH_NODES)
+    .reduce((total, node) => total + (node.data.count ?? (node.data.kind === 'cluster' ? 0 : 1)), 0);
+
+  const sizeRange = metricEncoding?.size ? metricRanges[metricEncoding.size] : undefined;
+  const colorRange = metricEncoding?.color ? metricRanges[metricEncoding.color] : undefined;
+
+  return (
+    <div className="graph-wrapper">
+      <div ref={containerRef} className="graph-container" />
+      {clusterable && graphData && graphData.nodes.length > 0 && (
+        <select
+          value={activeClusterMode}
+          onChange={(e) => {
+            setClusterMode(e.target.value as ClusterMode);
+            setClusterOverrides({});
+          }}
+          className="graph-cluster-select"
+          aria-label="Grouping"
+          title="Group nodes into boxes; click a box to collapse it, or a collapsed group to open it"
+        >
+          {CLUSTER_MODES.map(({ mode, label }) => (
+            <option key={mode} value={mode}>{label}</option>
+          ))}
+        </select>
+      )}
+      {pinnedCount > 0 && (
+        <button
+          onClick={handleUnpinAll}
+          className="graph-unpin"
+          title="Let the layout place the nodes you dragged again"
+        >
+          Unpin {pinnedCount} node{pinnedCount === 1 ? '' : 's'}
+        </button>
+      )}
+      {(graphData?.truncated || undrawnCount > 0) && (
+        <div className="graph-truncation" role="status">
+          {graphData?.truncated && <span>The server capped this graph at {graphData.nodes.length} nodes.</span>}
+          {undrawnCount > 0 && (
+            <span>
+              {undrawnCount} node{undrawnCount === 1 ? '' : 's'} past the {MAX_GRAPH_NODES}-node display limit not drawn
+              {clusterable ? '; group or collapse clusters to see them' : ''}.
+            </span>
+          )}
+        </div>
+      )}
+      {graphData && graphData.nodes.length > 0 && (
+        <details ref={exportMenuRef} className="graph-export">
+          <summary>Export</summary>
+          <ul className="graph-export-menu">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <li key={format}>
+                <button onClick={() => handleExport(format)}>{label}</button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {(legendKinds.length > 0 || legendSeverities.length > 0 || legendDiffs.length > 0 || sizeRange || colorRange || gitRange) && (
+        <ul className="graph-legend" aria-label="Graph legend">
+          {legendKinds.map((kind) => {
+            const kindStyle = getEdgeKindStyle(kind);
+            return (
+              <li key={kind}>
+                <span
+                  className="graph-legend-swatch"
+                  style={{ borderTopColor: kindStyle.color, borderTopStyle: kindStyle.lineStyle }}
+                />
+                {kindStyle.label}
+              </li>
+            );
+          })}
+          {sizeRange && metricEncoding?.size && (
+            <li>
+              <span className="graph-legend-size" />
+              Size: {NODE_METRIC_LABELS[metricEncoding.size]} ({sizeRange.min}–{sizeRange.max})
+            </li>
+          )}
+          {colorRange && metricEncoding?.color && (
+            <li>
+              <span
+                className="graph-legend-gradient"
+                style={{ background: `linear-gradient(90deg, ${METRIC_COLOR_RANGE[0]}, ${METRIC_COLOR_RANGE[1]})` }}
+              />
+              Color: {NODE_METRIC_LABELS[metricEncoding.color]} ({colorRange.min}–{colorRange.max})
+            </li>
+          )}
+          {gitRange && gitMetric && (
+            <li>
+              <span
+                className="graph-legend-gradient"
+                style={{ background: `linear-gradient(90deg, ${GIT_OVERLAY_COLOR_RANGE[0]}, ${GIT_OVERLAY_COLOR_RANGE[1]})` }}
+              />
+              Tint: file {GIT_METRIC_LABELS[gitMetric].toLowerCase()} ({gitRange.min}–{gitRange.max})
+            </li>
+          )}
+          {legendSeverities.map((severity) => (
+            <li key={severity}>
+              <span className={`graph-legend-halo finding-halo-${severity}`} />
+              {severity} findings
+            </li>
+          ))}
+          {legendDiffs.map((status) => (
+            <li key={status}>
+              <span className={`graph-legend-halo diff-halo-${status}`} />
+              {DIFF_STATUS_LABELS[status]}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
 }
 
 export default memo(Graph);
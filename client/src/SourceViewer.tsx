@@ -1,5 +1,7 @@
-import { memo, useState } from 'react';
-import type { SourceResponse } from './types';
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
+import type { FileGitHistory, Finding, FindingSeverity, LineRange, SliceDirection, SourceResponse } from './types';
+import { SOURCE_CONTEXT_LINES, SOURCE_CONTEXT_STEP, DEFAULT_SLICE_DEPTH, MAX_SLICE_DEPTH } from './constants';
+import { highlightGo } from './utils/goHighlight';
 import './SourceViewer.css';
 
 interface SourceViewerProps {
@@ -7,9 +9,62 @@ interface SourceViewerProps {
   loading: boolean;
   error: string | null;
   nodeId?: string | null;
+  highlightRange?: LineRange | null;
+  findings?: Finding[];
+  gitHistory?: FileGitHistory | null;
+  // Lines of the current program slice in this file
+  sliceLines?: number[];
+  // Set to make line numbers clickable as slice origins
+  onSliceRequest?: (line: number, direction: SliceDirection, depth: number) => void;
 }
 
-function SourceViewer({ source, loading, error, nodeId }: SourceViewerProps) {
+const SLICE_DEPTHS = Array.from({ length: MAX_SLICE_DEPTH }, (_, index) => index + 1);
+
+const SEVERITY_ORDER: FindingSeverity[] = ['error', 'warning', 'info'];
+
+function SourceViewer({
+  source,
+  loading,
+  error,
+  nodeId,
+  highlightRange,
+  findings,
+  gitHistory,
+  sliceLines,
+  onSliceRequest,
+}: SourceViewerProps) {
+  const [copied, setCopied] = useState(false);
+  // Extra context lines revealed around the node; tied to the source they were revealed for,
+  // so selecting another node starts from the default window again
+  const [expansion, setExpansion] = useState<{ source: SourceResponse | null; above: number; below: number }>({
+    source: null,
+    above: 0,
+    below: 0,
+  });
+  // Line picked as a slice origin; like the expansion it belongs to the source it was picked in
+  const [sliceOrigin, setSliceOrigin] = useState<{ source: SourceResponse; line: number } | null>(null);
+  const [sliceDepth, setSliceDepth] = useState(DEFAULT_SLICE_DEPTH);
+  const highlightRef = useRef<HTMLSpanElement>(null);
+
+  const highlightedLines = useMemo(() => (source ? highlightGo(source.code) : []), [source]);
+
+  // Findings of the shown file grouped by line, for the gutter markers
+  const findingsByLine = useMemo(() => {
+    const byLine = new Map<number, Finding[]>();
+    if (!source || !findings) return byLine;
+    findings.forEach((finding) => {
+      if (finding.file !== source.file_name || !finding.line) return;
+      byLine.set(finding.line, [...(byLine.get(finding.line) ?? []), finding]);
+    });
+    return byLine;
+  }, [source, findings]);
+
+  const sliceLineSet = useMemo(() => new Set(sliceLines ?? []), [sliceLines]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlightRange, source]);
+
   if (loading) {
     return (
       <div className="source-viewer-loading">
@@ -52,15 +107,35 @@ function SourceViewer({ source, loading, error, nodeId }: SourceViewerProps) {
     );
   }
 
-  const [copied, setCopied] = useState(false);
+  // The node's own lines; a plain (non full-file) response holds nothing else
+  const range = source.range ?? { start: source.start_line, end: source.end_line };
+  const extra = expansion.source === source ? expansion : { above: 0, below: 0 };
+  const firstLine = Math.max(
+    source.start_line,
+    Math.min(range.start, highlightRange?.start ?? range.start) - SOURCE_CONTEXT_LINES - extra.above
+  );
+  const lastLine = Math.min(
+    source.end_line,
+    Math.max(range.end, highlightRange?.end ?? range.end) + SOURCE_CONTEXT_LINES + extra.below
+  );
+  const hiddenAbove = firstLine - source.start_line;
+  const hiddenBelow = source.end_line - lastLine;
+  // Scroll target: the highlighted lines if any, otherwise the start of the node
+  const scrollLine = highlightRange?.start ?? range.start;
+
+  const expand = (above: number, below: number) => {
+    setExpansion({ source, above: extra.above + above, below: extra.below + below });
+  };
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(source.code);
+    const lines = source.code.split('\n');
+    navigator.clipboard.writeText(lines.slice(range.start - source.start_line, range.end - source.start_line + 1).join('\n'));
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
   const isExternal = nodeId?.startsWith('ext::') || false;
+  const sliceLine = sliceOrigin && sliceOrigin.source === source ? sliceOrigin.line : null;
 
   return (
     <div className="source-viewer">
@@ -74,12 +149,119 @@ function SourceViewer({ source, loading, error, nodeId }: SourceViewerProps) {
           </span>
         </div>
         <p className="source-lines">
-          Lines {source.start_line} - {source.end_line}
+          Lines {range.start} - {range.end}{source.range ? ` of ${source.end_line}` : ''}
         </p>
+        {gitHistory && gitHistory.file === source.file_name && (
+          <p className="source-git" title={`${gitHistory.author_count} authors, +${gitHistory.insertions} −${gitHistory.deletions}`}>
+            {gitHistory.commit_count} commit{gitHistory.commit_count === 1 ? '' : 's'}
+            {gitHistory.last_author && ` · last by ${gitHistory.last_author}`}
+            {gitHistory.last_date && ` on ${gitHistory.last_date.slice(0, 10)}`}
+            {gitHistory.change_risk_score !== null && ` · risk ${gitHistory.change_risk_score}`}
+          </p>
+        )}
+        {onSliceRequest && sliceLine !== null && (
+          <div className="source-slice-bar">
+            <span>Slice from line {sliceLine}</span>
+            <label>
+              depth
+              <select
+                value={sliceDepth}
+                onChange={(e) => setSliceDepth(Number(e.target.value))}
+                className="source-slice-depth"
+                aria-label="Slice depth"
+              >
+                {SLICE_DEPTHS.map((depth) => (
+                  <option key={depth} value={depth}>{depth}</option>
+                ))}
+              </select>
+            </label>
+            {(['backward', 'forward'] as const).map((direction) => (
+              <button
+                key={direction}
+                onClick={() => onSliceRequest(sliceLine, direction, sliceDepth)}
+                className="source-expand-button"
+                title={direction === 'backward' ? 'Where do the values on this line come from?' : 'What do the values on this line affect?'}
+              >
+                {direction === 'backward' ? 'Backward' : 'Forward'}
+              </button>
+            ))}
+            <button onClick={() => setSliceOrigin(null)} className="source-expand-button" aria-label="Cancel slice">
+              ✕
+            </button>
+          </div>
+        )}
       </div>
       <div style={{ position: 'relative' }}>
         <pre className="source-code">
-          <code>{source.code}</code>
+          <code>
+            {hiddenAbove > 0 && (
+              <span className="source-expand">
+                <button onClick={() => expand(SOURCE_CONTEXT_STEP, 0)} className="source-expand-button">
+                  ↑ {Math.min(SOURCE_CONTEXT_STEP, hiddenAbove)} more lines
+                </button>
+                {hiddenAbove > SOURCE_CONTEXT_STEP && (
+                  <button onClick={() => expand(hiddenAbove, 0)} className="source-expand-button">
+                    Show all {hiddenAbove} above
+                  </button>
+                )}
+              </span>
+            )}
+            {highlightedLines.slice(firstLine - source.start_line, lastLine - source.start_line + 1).map((tokens, index) => {
+              const lineNumber = firstLine + index;
+              const inRange = !!source.range && lineNumber >= range.start && lineNumber <= range.end;
+              const highlighted = !!highlightRange &&
+                lineNumber >= highlightRange.start && lineNumber <= highlightRange.end;
+              const lineFindings = findingsByLine.get(lineNumber);
+              const severity = lineFindings && SEVERITY_ORDER.find(
+                (level) => lineFindings.some((finding) => finding.severity === level)
+              );
+              const inSlice = sliceLineSet.has(lineNumber);
+              return (
+                <span
+                  key={lineNumber}
+                  ref={lineNumber === scrollLine ? highlightRef : undefined}
+                  className={`source-line ${inRange ? 'source-line-range' : ''} ${highlighted ? 'source-line-highlight' : ''} ${inSlice ? 'source-line-slice' : ''}`}
+                >
+                  {onSliceRequest ? (
+                    <button
+                      onClick={() => source && setSliceOrigin({ source, line: lineNumber })}
+                      className={`source-line-number source-line-number-button ${sliceLine === lineNumber ? 'active' : ''}`}
+                      title="Slice from this line"
+                      aria-label={`Slice from line ${lineNumber}`}
+                    >
+                      {lineNumber}
+                    </button>
+                  ) : (
+                    <span className="source-line-number" aria-hidden="true">{lineNumber}</span>
+                  )}
+                  {lineFindings && (
+                    <span
+                      className={`source-gutter-marker gutter-${severity}`}
+                      title={lineFindings.map((finding) => `[${finding.severity}] ${finding.message}`).join('\n')}
+                      aria-label={`${lineFindings.length} finding${lineFindings.length === 1 ? '' : 's'} on line ${lineNumber}`}
+                    />
+                  )}
+                  {tokens.map((token, tokenIndex) => (
+                    token.kind
+                      ? <span key={tokenIndex} className={`token-${token.kind}`}>{token.text}</span>
+                      : token.text
+                  ))}
+                </span>
+              );
+            })}
+            {hiddenBelow > 0 && (
+              <span className="source-expand">
+                <button onClick={() => expand(0, SOURCE_CONTEXT_STEP)} className="source-expand-button">
+                  ↓ {Math.min(SOURCE_CONTEXT_STEP, hiddenBelow)} more lines
+                </button>
+                {hiddenBelow > SOURCE_CONTEXT_STEP && (
+                  <button onClick={() => expand(0, hiddenBelow)} className="source-expand-button">
+                    Show all {hiddenBelow} below
+                  </button>
+                )}
+              </span>
+            )}
+          </code>
         </pre>
         <button
           onClick={handleCopy}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { highlightGo } from '../utils/goHighlight';
+
+const kindsOf = (line: ReturnType<typeof highlightGo>[number]) =>
+  line.filter((token) => token.kind).map((token) => [token.text, token.kind]);
+
+describe('highlightGo', () => {
+  it('should return one token list per line', () => {
+    const lines = highlightGo('package main\n\nfunc main() {}');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toEqual([]);
+  });
+
+  it('should classify keywords, types, builtins and calls', () => {
+    const [line] = highlightGo('func f(s string) int { return len(s) + g(s) }');
+    expect(kindsOf(line)).toEqual([
+      ['func', 'keyword'],
+      ['f', 'function'],
+      ['string', 'type'],
+      ['int', 'type'],
+      ['return', 'keyword'],
+      ['len', 'builtin'],
+      ['g', 'function'],
+    ]);
+  });
+
+  it('should keep block comments and raw strings coloured across lines', () => {
+    const lines = highlightGo('/* a\nb */ x := `c\nd`');
+    expect(kindsOf(lines[0])).toEqual([['/* a', 'comment']]);
+    expect(kindsOf(lines[1])).toEqual([['b */', 'comment'], ['`c', 'string']]);
+    expect(kindsOf(lines[2])).toEqual([['d`', 'string']]);
+  });
+
+  it('should not end a string at an escaped quote', () => {
+    const [line] = highlightGo('s := "a\\"b" // done');
+    expect(kindsOf(line)).toEqual([['"a\\"b"', 'string'], ['// done', 'comment']]);
+  });
+
+  it('should recognise number literals', () => {
+    const [line] = highlightGo('x := 0x1F + 3.5e2 + 1_000');
+    expect(kindsOf(line)).toEqual([['0x1F', 'number'], ['3.5e2', 'number'], ['1_000', 'number']]);
+  });
+});
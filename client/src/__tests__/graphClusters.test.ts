@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { clusterGraph } from '../utils/graphClusters';
+import type { GraphResponse } from '../types';
+
+const fn = (name: string, pkg: string) => ({ data: { id: `${pkg}::${name}`, label: name, package: pkg, file: `${pkg}/${name}.go` } });
+const call = (index: number, source: string, target: string) => ({ data: { id: `edge-${index}`, source, target, kind: 'call' } });
+
+// main in pkg/a is called by three functions of pkg/b
+const graph: GraphResponse = {
+  nodes: [fn('main', 'pkg/a'), fn('one', 'pkg/b'), fn('two', 'pkg/b'), fn('three', 'pkg/b'), { data: { id: 'ext::fmt.Println', label: 'Println' } }],
+  edges: [
+    call(0, 'pkg/b::one', 'pkg/a::main'),
+    call(1, 'pkg/b::two', 'pkg/a::main'),
+    call(2, 'pkg/b::three', 'pkg/a::main'),
+    call(3, 'pkg/b::one', 'pkg/b::two'),
+    call(4, 'pkg/a::main', 'ext::fmt.Println'),
+  ],
+};
+
+const options = { overrides: {}, keep: ['pkg/a::main'], maxNodes: 60, collapseSize: 2 };
+
+describe('clusterGraph', () => {
+  it('should collapse large clusters into a counted summary node with merged edges', () => {
+    const clustered = clusterGraph(graph, 'package', options);
+    expect(clustered.nodes.find((n) => n.data.id === 'cluster::pkg/b')?.data).toEqual({
+      id: 'cluster::pkg/b', label: 'pkg/b (3)', kind: 'cluster', count: 3,
+    });
+    expect(clustered.nodes.find((n) => n.data.id === 'pkg/a::main')?.data.parent).toBeUndefined();
+    expect(clustered.edges.map((e) => [e.data.source, e.data.target, e.data.weight])).toEqual([
+      ['cluster::pkg/b', 'pkg/a::main', 3],
+      ['pkg/a::main', 'ext::fmt.Println', undefined],
+    ]);
+  });
+
+  it('should keep a cluster open when it was expanded by hand', () => {
+    const clustered = clusterGraph(graph, 'package', { ...options, overrides: { 'cluster::pkg/b': true } });
+    expect(clustered.nodes.filter((n) => n.data.parent === 'cluster::pkg/b')).toHaveLength(3);
+    expect(clustered.edges).toHaveLength(graph.edges.length);
+  });
+
+  it('should collapse clusters to stay under the node limit', () => {
+    const open = clusterGraph(graph, 'package', { ...options, collapseSize: 10 });
+    expect(open.nodes).toHaveLength(6);
+    const limited = clusterGraph(graph, 'package', { ...options, collapseSize: 10, maxNodes: 4 });
+    expect(limited.nodes.map((n) => n.data.id)).toEqual(['pkg/a::main', 'cluster::pkg/b', 'ext::fmt.Println']);
+  });
+
+  it('should list kept nodes, after their parents, before every other node', () => {
+    const loose = clusterGraph(graph, 'package', { ...options, keep: ['ext::fmt.Println'] });
+    expect(loose.nodes[0].data.id).toBe('ext::fmt.Println');
+    const inCluster = clusterGraph(graph, 'package', { ...options, keep: ['pkg/b::three'] });
+    expect(inCluster.nodes.slice(0, 2).map((n) => n.data.id)).toEqual(['cluster::pkg/b', 'pkg/b::three']);
+  });
+
+  it('should leave the graph alone when no two nodes share a group', () => {
+    expect(clusterGraph(graph, 'none', options)).toBe(graph);
+    expect(clusterGraph(graph, 'file', options)).toBe(graph);
+  });
+});
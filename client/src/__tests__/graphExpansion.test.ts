@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { applyExpansions, mergeGraphs } from '../utils/graphExpansion';
+import type { GraphExpansion, GraphResponse } from '../types';
+
+const node = (id: string) => ({ data: { id, label: id } });
+const edge = (index: number, source: string, target: string) => ({ data: { id: `edge-${index}`, source, target, kind: 'call' } });
+
+const base: GraphResponse = {
+  nodes: [node('main'), node('handle')],
+  edges: [edge(0, 'main', 'handle')],
+};
+
+const expandHandle: GraphExpansion = {
+  nodeId: 'handle',
+  label: 'handle',
+  graph: { nodes: [node('handle'), node('main'), node('store')], edges: [edge(0, 'main', 'handle'), edge(1, 'handle', 'store')] },
+};
+
+const expandStore: GraphExpansion = {
+  nodeId: 'store',
+  label: 'store',
+  graph: { nodes: [node('store'), node('write')], edges: [edge(0, 'store', 'write')] },
+};
+
+describe('mergeGraphs', () => {
+  it('should deduplicate nodes and key edges by kind and endpoints', () => {
+    const graph = mergeGraphs([base, expandHandle.graph], 10);
+    expect(graph.nodes.map((n) => n.data.id)).toEqual(['main', 'handle', 'store']);
+    expect(graph.edges.map((e) => e.data.id)).toEqual(['call:main->handle', 'call:handle->store']);
+    expect(graph.truncated).toBe(false);
+  });
+
+  it('should drop nodes past the limit together with their edges', () => {
+    const graph = mergeGraphs([base, expandHandle.graph], 2);
+    expect(graph.nodes).toHaveLength(2);
+    expect(graph.edges.map((e) => e.data.id)).toEqual(['call:main->handle']);
+    expect(graph.truncated).toBe(true);
+  });
+});
+
+describe('applyExpansions', () => {
+  it('should drop steps whose node was brought in by a collapsed step', () => {
+    const { graph, expansions } = applyExpansions(base, [expandStore], 10);
+    expect(expansions).toEqual([]);
+    expect(graph.nodes.map((n) => n.data.id)).toEqual(['main', 'handle']);
+  });
+
+  it('should replay steps in order', () => {
+    const { graph, expansions } = applyExpansions(base, [expandHandle, expandStore], 10);
+    expect(expansions).toEqual([expandHandle, expandStore]);
+    expect(graph.nodes.map((n) => n.data.id)).toEqual(['main', 'handle', 'store', 'write']);
+  });
+});
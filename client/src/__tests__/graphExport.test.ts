@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { graphToDot, graphToGraphML, graphToMermaid } from '../utils/graphExport';
+import type { GraphResponse } from '../types';
+
+const callGraph: GraphResponse = {
+  nodes: [
+    { data: { id: 'pkg/a::main@a.go:1:1', label: 'main', cyclomatic_complexity: 2 } },
+    { data: { id: 'pkg/a::handle@a.go:12:1', label: 'say "hi"' } },
+  ],
+  edges: [
+    { data: { id: 'edge-0', source: 'pkg/a::main@a.go:1:1', target: 'pkg/a::handle@a.go:12:1', kind: 'call' } },
+    { data: { id: 'edge-1', source: 'pkg/a::handle@a.go:12:1', target: 'pkg/a::main@a.go:1:1', kind: 'dfg' } },
+  ],
+};
+
+const packageGraph: GraphResponse = {
+  nodes: [
+    { data: { id: 'pkg/a', label: 'pkg/a', kind: 'package' } },
+    { data: { id: 'pkg/a::main@a.go:1:1', label: 'main', kind: 'function', parent: 'pkg/a' } },
+    { data: { id: 'pkg/b', label: 'pkg/b', kind: 'package' } },
+  ],
+  edges: [
+    { data: { id: 'edge-0', source: 'pkg/a::main@a.go:1:1', target: 'pkg/b', kind: 'call', weight: 3 } },
+  ],
+};
+
+describe('graphToDot', () => {
+  it('should quote IDs and labels and label only non-call edges', () => {
+    const dot = graphToDot(callGraph, 'main');
+    expect(dot).toContain('digraph "main" {');
+    expect(dot).toContain('"pkg/a::handle@a.go:12:1" [label="say \\"hi\\""];');
+    expect(dot).toContain('"pkg/a::main@a.go:1:1" -> "pkg/a::handle@a.go:12:1";');
+    expect(dot).toContain('"pkg/a::handle@a.go:12:1" -> "pkg/a::main@a.go:1:1" [label="dfg"];');
+  });
+
+  it('should draw compound parents as clusters', () => {
+    const dot = graphToDot(packageGraph);
+    expect(dot).toContain('subgraph cluster_0 {\n    label="pkg/a";\n    "pkg/a::main@a.go:1:1" [label="main"];\n  }');
+    expect(dot).toContain('"pkg/b" [label="pkg/b"];');
+    expect(dot).not.toContain('"pkg/a" [label');
+  });
+});
+
+describe('graphToGraphML', () => {
+  it('should declare a typed key for each scalar data field', () => {
+    const graphml = graphToGraphML(packageGraph);
+    expect(graphml).toContain('<key id="n_label" for="node" attr.name="label" attr.type="string"/>');
+    expect(graphml).toContain('<key id="n_parent" for="node" attr.name="parent" attr.type="string"/>');
+    expect(graphml).toContain('<key id="e_weight" for="edge" attr.name="weight" attr.type="double"/>');
+    expect(graphml).not.toContain('attr.name="id"');
+  });
+
+  it('should escape XML in IDs and values', () => {
+    const graphml = graphToGraphML(callGraph);
+    expect(graphml).toContain('<data key="n_label">say &quot;hi&quot;</data>');
+    expect(graphml).toContain('<edge id="edge-0" source="pkg/a::main@a.go:1:1" target="pkg/a::handle@a.go:12:1">');
+  });
+});
+
+describe('graphToMermaid', () => {
+  it('should number nodes and escape quotes in labels', () => {
+    const mermaid = graphToMermaid(callGraph);
+    expect(mermaid.split('\n')).toEqual([
+      'flowchart LR',
+      '  n0["main"]',
+      '  n1["say #quot;hi#quot;"]',
+      '  n0 --> n1',
+      '  n1 -->|"dfg"| n0',
+      '',
+    ]);
+  });
+
+  it('should draw compound parents as subgraphs', () => {
+    const mermaid = graphToMermaid(packageGraph);
+    expect(mermaid).toContain('  subgraph n0 ["pkg/a"]\n    n1["main"]\n  end');
+    expect(mermaid).toContain('  n1 --> n2');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { computeLayout, layeredPositions, type LayoutNode, type LayoutRequest } from '../utils/graphLayout';
+
+const node = (id: string, pinned = false): LayoutNode => ({ id, width: 60, height: 30, position: { x: 0, y: 0 }, pinned });
+const edge = (source: string, target: string) => ({ id: `${source}->${target}`, source, target });
+
+// caller -> root -> callee, plus a second caller of the callee
+const nodes = [node('root'), node('caller'), node('callee'), node('other')];
+const edges = [edge('caller', 'root'), edge('root', 'callee'), edge('other', 'callee')];
+
+describe('layeredPositions', () => {
+  it('should put callers above the root and callees below it', () => {
+    const positions = layeredPositions(nodes, edges, 'root');
+    expect(positions.caller.y).toBeLessThan(positions.root.y);
+    expect(positions.root.y).toBeLessThan(positions.callee.y);
+    // other is reached from callee, so it sits one layer above it, beside root
+    expect(positions.other.y).toBe(positions.root.y);
+    expect(positions.other.x).not.toBe(positions.root.x);
+  });
+
+  it('should lay out unconnected parts side by side', () => {
+    const positions = layeredPositions([node('a'), node('b')], [], null);
+    expect(positions.a.y).toBe(positions.b.y);
+    expect(positions.b.x).toBeGreaterThan(positions.a.x + 60);
+  });
+});
+
+describe('computeLayout', () => {
+  const request = (layout: LayoutRequest['layout']): LayoutRequest => ({
+    id: 1,
+    layout,
+    nodes: [...nodes.slice(0, 3), { ...node('other', true), position: { x: 500, y: -40 } }],
+    edges,
+    rootId: 'root',
+    width: 800,
+    height: 600,
+  });
+
+  it('should place every node and leave pinned nodes where they are', () => {
+    (['force', 'grid', 'concentric', 'breadthfirst', 'hierarchical'] as const).forEach((layout) => {
+      const positions = computeLayout(request(layout));
+      expect(Object.keys(positions).sort()).toEqual(['callee', 'caller', 'other', 'root']);
+      expect(positions.other).toEqual({ x: 500, y: -40 });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { buildViewUrl, parseViewUrl } from '../utils/viewUrl';
+import { DEFAULT_EDGE_KINDS, DEFAULT_GRAPH_DEPTH } from '../constants';
+
+describe('parseViewUrl', () => {
+  it('should fall back to defaults for an empty search', () => {
+    expect(parseViewUrl('')).toEqual({
+      functionId: null,
+      nodeId: null,
+      query: '',
+      database: null,
+      graphOptions: { depth: DEFAULT_GRAPH_DEPTH, direction: 'both', edgeKinds: DEFAULT_EDGE_KINDS },
+      focusMode: false,
+    });
+  });
+
+  it('should ignore out-of-range depths and unknown directions', () => {
+    const view = parseViewUrl('?depth=99&dir=sideways');
+    expect(view.graphOptions.depth).toBe(DEFAULT_GRAPH_DEPTH);
+    expect(view.graphOptions.direction).toBe('both');
+  });
+});
+
+describe('buildViewUrl', () => {
+  it('should leave out defaults', () => {
+    expect(buildViewUrl(parseViewUrl(''))).toBe('');
+  });
+
+  it('should round-trip a full view', () => {
+    const view = {
+      functionId: 'pkg/a::*Store.Write@b.go:70:1',
+      nodeId: 'pkg/a::handle@a.go:12:1',
+      query: 'kind:method Write',
+      database: 'prometheus',
+      graphOptions: { depth: 3, direction: 'callers' as const, edgeKinds: ['call', 'dfg'] },
+      focusMode: true,
+    };
+    const search = buildViewUrl(view);
+    expect(search).toBe(
+      '?db=prometheus&fn=pkg%2Fa%3A%3A*Store.Write%40b.go%3A70%3A1&node=pkg%2Fa%3A%3Ahandle%40a.go%3A12%3A1'
+      + '&depth=3&dir=callers&kinds=call%2Cdfg&focus=1&q=kind%3Amethod+Write',
+    );
+    expect(parseViewUrl(search)).toEqual(view);
+  });
+});
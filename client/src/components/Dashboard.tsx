@@ -0,0 +1,264 @@
+import { memo, useMemo } from 'react';
+import type { DashboardData, DashboardMetric, KindCount, PackageSummary, TopFunction } from '../types';
+import { DASHBOARD_METRIC_LABELS } from '../constants';
+import { METRIC_COLOR_RANGE } from '../graphStyles';
+import { squarify } from '../utils/treemap';
+import './Dashboard.css';
+
+interface DashboardProps {
+  data: DashboardData | null;
+  topFunctions: TopFunction[];
+  topMetric: DashboardMetric;
+  loading: boolean;
+  error: string | null;
+  onTopMetricChange: (metric: DashboardMetric) => void;
+  onFunctionClick: (functionId: string) => void;
+}
+
+const OVERVIEW_CARDS: Array<{ key: string; label: string }> = [
+  { key: 'total_packages', label: 'Packages' },
+  { key: 'total_files', label: 'Files' },
+  { key: 'total_functions', label: 'Functions' },
+  { key: 'total_types', label: 'Types' },
+  { key: 'total_loc', label: 'Lines of code' },
+  { key: 'avg_complexity', label: 'Avg complexity' },
+  { key: 'max_complexity', label: 'Max complexity' },
+  { key: 'total_findings', label: 'Findings' },
+];
+
+const MAX_KIND_ROWS = 8;
+// Treemap drawing area in abstract units; the container keeps the same aspect ratio
+const TREEMAP_WIDTH = 100;
+const TREEMAP_HEIGHT = 50;
+
+function formatValue(value: number | string | undefined): string {
+  if (value === undefined) return '–';
+  return typeof value === 'number' ? value.toLocaleString() : value;
+}
+
+function mixColor(from: string, to: string, t: number): string {
+  const channel = (hex: string, offset: number) => parseInt(hex.slice(offset, offset + 2), 16);
+  const mixed = [1, 3, 5].map((offset) =>
+    Math.round(channel(from, offset) + (channel(to, offset) - channel(from, offset)) * t)
+  );
+  return `rgb(${mixed.join(', ')})`;
+}
+
+function KindBars({ title, kinds }: { title: string; kinds: KindCount[] }) {
+  const shown = kinds.slice(0, MAX_KIND_ROWS);
+  const max = Math.max(1, ...shown.map((k) => k.count));
+  return (
+    <section className="dashboard-card">
+      <h3>{title}</h3>
+      <ul className="dashboard-bars">
+        {shown.map(({ kind, count }) => (
+          <li key={kind}>
+            <span className="dashboard-bar-label">{kind}</span>
+            <span className="dashboard-bar-track">
+              <span className="dashboard-bar-fill" style={{ width: `${(count / max) * 100}%` }} />
+            </span>
+            <span className="dashboard-bar-value">{count.toLocaleString()}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function PackageTreemap({ packages }: { packages: PackageSummary[] }) {
+  const tiles = useMemo(
+    () => squarify(packages, (p) => p.total_loc, TREEMAP_WIDTH, TREEMAP_HEIGHT),
+    [packages]
+  );
+  const maxComplexity = Math.max(1, ...packages.map((p) => p.avg_complexity));
+
+  if (tiles.length === 0) {
+    return <p className="dashboard-empty">No package metrics</p>;
+  }
+
+  return (
+    <div className="dashboard-treemap">
+      {tiles.map(({ item, x, y, width, height }) => (
+        <div
+          key={item.package}
+          className="dashboard-treemap-tile"
+          style={{
+            left: `${(x / TREEMAP_WIDTH) * 100}%`,
+            top: `${(y / TREEMAP_HEIGHT) * 100}%`,
+            width: `${(width / TREEMAP_WIDTH) * 100}%`,
+            height: `${(height / TREEMAP_HEIGHT) * 100}%`,
+            background: mixColor(METRIC_COLOR_RANGE[0], METRIC_COLOR_RANGE[1], item.avg_complexity / maxComplexity),
+          }}
+          title={`${item.package}\n${item.function_count} functions in ${item.file_count} files\n`
+            + `${item.total_loc.toLocaleString()} lines, avg complexity ${item.avg_complexity}, max ${item.max_complexity}`}
+        >
+          <span>{item.package}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Dashboard({
+  data,
+  topFunctions,
+  topMetric,
+  loading,
+  error,
+  onTopMetricChange,
+  onFunctionClick,
+}: DashboardProps) {
+  if (loading && !data) {
+    return <div className="placeholder">Loading dashboard...</div>;
+  }
+  if (error) {
+    return (
+      <div className="placeholder">
+        <div className="error" role="alert" aria-live="assertive">{error}</div>
+      </div>
+    );
+  }
+  if (!data) return null;
+
+  const { overview, complexity, packages, hotspots, files } = data;
+  const maxBucket = Math.max(1, ...complexity.map((b) => b.function_count));
+
+  return (
+    <div className="dashboard">
+      <section className="dashboard-overview">
+        {OVERVIEW_CARDS.filter(({ key }) => key in overview.overview).map(({ key, label }) => (
+          <div key={key} className="dashboard-stat">
+            <span className="dashboard-stat-value">{formatValue(overview.overview[key])}</span>
+            <span className="dashboard-stat-label">{label}</span>
+          </div>
+        ))}
+      </section>
+
+      <div className="dashboard-grid">
+        <section className="dashboard-card">
+          <h3>Complexity distribution</h3>
+          {complexity.length === 0 ? (
+            <p className="dashboard-empty">No complexity metrics</p>
+          ) : (
+            <div className="dashboard-histogram">
+              {complexity.map((bucket) => (
+                <div key={bucket.bucket} className="dashboard-histogram-column" title={`${bucket.function_count} functions`}>
+                  <span className="dashboard-histogram-count">{bucket.function_count.toLocaleString()}</span>
+                  <span
+                    className="dashboard-histogram-bar"
+                    style={{ height: `${(bucket.function_count / maxBucket) * 100}%` }}
+                  />
+                  <span className="dashboard-histogram-label">{bucket.bucket}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="dashboard-card">
+          <h3>Packages <span className="dashboard-hint">size: lines of code, color: avg complexity</span></h3>
+          <PackageTreemap packages={packages} />
+        </section>
+
+        <section className="dashboard-card">
+          <h3>
+            Top functions by
+            <select
+              value={topMetric}
+              onChange={(e) => onTopMetricChange(e.target.value as DashboardMetric)}
+              className="graph-select"
+              aria-label="Ranking metric"
+            >
+              {(Object.keys(DASHBOARD_METRIC_LABELS) as DashboardMetric[]).map((metric) => (
+                <option key={metric} value={metric}>{DASHBOARD_METRIC_LABELS[metric]}</option>
+              ))}
+            </select>
+          </h3>
+          <table className="dashboard-table">
+            <tbody>
+              {topFunctions.map((fn) => (
+                <tr key={fn.function_id}>
+                  <td className="dashboard-rank">{fn.rank}</td>
+                  <td>
+                    <button onClick={() => onFunctionClick(fn.function_id)} className="dashboard-function-link" title={fn.function_id}>
+                      {fn.name}
+                    </button>
+                    <span className="dashboard-package">{fn.package}</span>
+                  </td>
+                  <td className="dashboard-number">{fn.value.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {topFunctions.length === 0 && <p className="dashboard-empty">No functions ranked by this metric</p>}
+        </section>
+
+        <section className="dashboard-card">
+          <h3>Hotspots</h3>
+          <table className="dashboard-table">
+            <thead>
+              <tr>
+                <th>Function</th>
+                <th className="dashboard-number">CC</th>
+                <th className="dashboard-number">LOC</th>
+                <th className="dashboard-number">Fan-in</th>
+                <th className="dashboard-number">Findings</th>
+                <th className="dashboard-number">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {hotspots.map((spot) => (
+                <tr key={spot.function_id}>
+                  <td>
+                    <button onClick={() => onFunctionClick(spot.function_id)} className="dashboard-function-link" title={spot.function_id}>
+                      {spot.name}
+                    </button>
+                    <span className="dashboard-package">{spot.package}</span>
+                  </td>
+                  <td className="dashboard-number">{spot.complexity ?? ''}</td>
+                  <td className="dashboard-number">{spot.loc ?? ''}</td>
+                  <td className="dashboard-number">{spot.fan_in ?? ''}</td>
+                  <td className="dashboard-number">{spot.finding_count ?? ''}</td>
+                  <td className="dashboard-number">{spot.hotspot_score.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {hotspots.length === 0 && <p className="dashboard-empty">No hotspots</p>}
+        </section>
+
+        <section className="dashboard-card">
+          <h3>Hottest files</h3>
+          <table className="dashboard-table">
+            <thead>
+              <tr>
+                <th>File</th>
+                <th className="dashboard-number">Funcs</th>
+                <th className="dashboard-number">LOC</th>
+                <th className="dashboard-number">Max CC</th>
+                <th className="dashboard-number">Findings</th>
+              </tr>
+            </thead>
+            <tbody>
+              {files.map((file) => (
+                <tr key={file.file}>
+                  <td className="dashboard-file" title={file.file}>{file.file}</td>
+                  <td className="dashboard-number">{file.function_count}</td>
+                  <td className="dashboard-number">{file.total_loc.toLocaleString()}</td>
+                  <td className="dashboard-number">{file.max_complexity}</td>
+                  <td className="dashboard-number">{file.finding_count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {files.length === 0 && <p className="dashboard-empty">No file metrics</p>}
+        </section>
+
+        <KindBars title="Node kinds" kinds={overview.node_kinds} />
+        <KindBars title="Edge kinds" kinds={overview.edge_kinds} />
+      </div>
+    </div>
+  );
+}
+
+export default memo(Dashboard);
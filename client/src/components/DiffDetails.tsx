@@ -0,0 +1,72 @@
+import { memo } from 'react';
+import type { DiffResponse, DiffStatus, GraphNode, NodeMetric } from '../types';
+import { DIFF_STATUS_LABELS } from '../constants';
+import './DiffDetails.css';
+
+interface DiffDetailsProps {
+  diff: DiffResponse;
+  selectedNodeId: string | null;
+  onFunctionClick: (functionId: string) => void;
+}
+
+const DELTA_LABELS: Record<NodeMetric, string> = {
+  cyclomatic_complexity: 'cc',
+  loc: 'loc',
+  fan_in: 'fan-in',
+  fan_out: 'fan-out',
+  num_params: 'params',
+};
+
+const formatDeltas = (deltas: GraphNode['data']['metric_deltas']) =>
+  (Object.keys(DELTA_LABELS) as NodeMetric[])
+    .filter((metric) => deltas?.[metric] !== undefined)
+    .map((metric) => `${DELTA_LABELS[metric]} ${(deltas?.[metric] ?? 0) > 0 ? '+' : ''}${deltas?.[metric]}`)
+    .join(' · ');
+
+function DiffDetails({ diff, selectedNodeId, onFunctionClick }: DiffDetailsProps) {
+  const sections = (Object.keys(DIFF_STATUS_LABELS) as Array<Exclude<DiffStatus, 'unchanged'>>).map((status) => ({
+    status,
+    nodes: diff.nodes.filter((node) => node.data.diff === status),
+  }));
+
+  return (
+    <div className="diff-details">
+      <div className="diff-header">
+        <h4><code>{diff.base}</code> → <code>{diff.head}</code></h4>
+        <span className="diff-item-meta">
+          +{diff.summary.added_edges} / −{diff.summary.removed_edges} calls
+        </span>
+      </div>
+
+      {sections.every((section) => section.nodes.length === 0) && (
+        <p className="diff-empty">No structural changes</p>
+      )}
+
+      {sections.filter((section) => section.nodes.length > 0).map(({ status, nodes }) => (
+        <div key={status} className="diff-section">
+          <h4>{DIFF_STATUS_LABELS[status]} <span className="diff-count">{nodes.length}</span></h4>
+          <ul className="diff-list">
+            {nodes.map((node) => (
+              <li key={node.data.id}>
+                {/* Removed functions only exist in the base database, so there is no source to open */}
+                <button
+                  onClick={() => onFunctionClick(node.data.id)}
+                  className={`diff-item diff-item-${status} ${selectedNodeId === node.data.id ? 'active' : ''}`}
+                  disabled={status === 'removed'}
+                  title={node.data.id}
+                >
+                  <span className="diff-item-name">{node.data.label}</span>
+                  {node.data.metric_deltas && (
+                    <span className="diff-item-meta">{formatDeltas(node.data.metric_deltas)}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default memo(DiffDetails);
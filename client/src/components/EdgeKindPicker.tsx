@@ -0,0 +1,54 @@
+import { memo, useCallback } from 'react';
+import type { EdgeKindRow } from '../types';
+import { getEdgeKindStyle } from '../graphStyles';
+import './EdgeKindPicker.css';
+
+interface EdgeKindPickerProps {
+  available: EdgeKindRow[];
+  selected: string[];
+  onChange: (kinds: string[]) => void;
+}
+
+function EdgeKindPicker({ available, selected, onChange }: EdgeKindPickerProps) {
+  const handleToggle = useCallback((kind: string) => {
+    if (selected.includes(kind)) {
+      // Keep at least one kind selected so the graph always has something to walk
+      if (selected.length > 1) {
+        onChange(selected.filter((k) => k !== kind));
+      }
+    } else {
+      onChange([...selected, kind]);
+    }
+  }, [selected, onChange]);
+
+  return (
+    <details className="edge-kind-picker">
+      <summary>Edge kinds ({selected.length})</summary>
+      <div className="edge-kind-options" role="group" aria-label="Edge kinds">
+        {available.length === 0 && (
+          <p className="edge-kind-empty">No edge kinds available</p>
+        )}
+        {available.map(({ kind, count }) => {
+          const kindStyle = getEdgeKindStyle(kind);
+          return (
+            <label key={kind} className="edge-kind-option">
+              <input
+                type="checkbox"
+                checked={selected.includes(kind)}
+                onChange={() => handleToggle(kind)}
+              />
+              <span
+                className="edge-kind-swatch"
+                style={{ borderTopColor: kindStyle.color, borderTopStyle: kindStyle.lineStyle }}
+              />
+              <span className="edge-kind-name">{kind}</span>
+              <span className="edge-kind-count">{count.toLocaleString()}</span>
+            </label>
+          );
+        })}
+      </div>
+    </details>
+  );
+}
+
+export default memo(EdgeKindPicker);
@@ -0,0 +1,180 @@
+import { memo, useCallback, useMemo, useState } from 'react';
+import type { FileOutline, OutlineEntry, SourcePackage } from '../types';
+import './FilesPanel.css';
+
+interface FilesPanelProps {
+  packages: SourcePackage[] | null;
+  loading: boolean;
+  error: string | null;
+  selectedFile: string | null;
+  outline: FileOutline | null;
+  outlineLoading: boolean;
+  outlineError: string | null;
+  selectedEntryId: string | null;
+  onFileSelect: (file: string) => void;
+  onEntryClick: (entry: OutlineEntry) => void;
+}
+
+const OUTLINE_KIND_LABELS: Record<string, string> = {
+  function: 'fn',
+  type_decl: 'type',
+};
+
+interface OutlineTreeProps {
+  entries: OutlineEntry[];
+  selectedEntryId: string | null;
+  onEntryClick: (entry: OutlineEntry) => void;
+}
+
+function OutlineTree({ entries, selectedEntryId, onEntryClick }: OutlineTreeProps) {
+  return (
+    <ul className="outline-list">
+      {entries.map((entry) => (
+        <li key={entry.id}>
+          <button
+            onClick={() => onEntryClick(entry)}
+            className={`outline-entry ${selectedEntryId === entry.id ? 'active' : ''}`}
+            title={entry.signature ?? entry.id}
+          >
+            <span className={`outline-kind outline-kind-${entry.kind}`}>
+              {OUTLINE_KIND_LABELS[entry.kind] ?? entry.kind}
+            </span>
+            <span className="outline-name">{entry.name}</span>
+            {entry.line !== null && <span className="outline-line">{entry.line}</span>}
+          </button>
+          {entry.children.length > 0 && (
+            <OutlineTree entries={entry.children} selectedEntryId={selectedEntryId} onEntryClick={onEntryClick} />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Last path segment, so long paths stay readable in a narrow sidebar
+const baseName = (file: string) => file.slice(file.lastIndexOf('/') + 1);
+
+function FilesPanel({
+  packages,
+  loading,
+  error,
+  selectedFile,
+  outline,
+  outlineLoading,
+  outlineError,
+  selectedEntryId,
+  onFileSelect,
+  onEntryClick,
+}: FilesPanelProps) {
+  const [filter, setFilter] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+
+  const visiblePackages = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    if (!packages || needle === '') return packages ?? [];
+    return packages
+      .map((pkg) => (
+        pkg.package.toLowerCase().includes(needle)
+          ? pkg
+          : { ...pkg, files: pkg.files.filter((file) => file.file.toLowerCase().includes(needle)) }
+      ))
+      .filter((pkg) => pkg.files.length > 0);
+  }, [packages, filter]);
+
+  const togglePackage = useCallback((name: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  }, []);
+
+  // While filtering every match is shown; otherwise only the packages the user opened
+  const isOpen = (pkg: SourcePackage) => filter.trim() !== '' || expanded.has(pkg.package);
+
+  return (
+    <div className="files-panel">
+      <input
+        type="text"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Filter packages and files..."
+        className="search-input"
+        aria-label="Filter files"
+      />
+
+      {loading && (
+        <div className="loading" role="status" aria-live="polite">
+          Loading files...
+        </div>
+      )}
+      {error && (
+        <div className="error" role="alert" aria-live="assertive">
+          {error}
+        </div>
+      )}
+      {!loading && packages && visiblePackages.length === 0 && (
+        <p className="files-empty">No files match "{filter}"</p>
+      )}
+
+      <ul className="files-tree">
+        {visiblePackages.map((pkg) => {
+          const open = isOpen(pkg);
+          return (
+            <li key={pkg.package}>
+              <button
+                onClick={() => togglePackage(pkg.package)}
+                className="files-package"
+                aria-expanded={open}
+                title={pkg.package}
+              >
+                <span className="files-caret">{open ? '▾' : '▸'}</span>
+                {pkg.package || '(no package)'}
+                <span className="files-count">{pkg.files.length}</span>
+              </button>
+              {open && (
+                <ul className="files-list">
+                  {pkg.files.map((file) => (
+                    <li key={file.file}>
+                      <button
+                        onClick={() => onFileSelect(file.file)}
+                        className={`files-file ${selectedFile === file.file ? 'active' : ''}`}
+                        title={file.file}
+                      >
+                        {baseName(file.file)}
+                        <span className="files-count">{file.symbols}</span>
+                      </button>
+                      {selectedFile === file.file && (
+                        <div className="files-outline">
+                          {outlineLoading && <div className="loading">Loading outline...</div>}
+                          {outlineError && <div className="error" role="alert">{outlineError}</div>}
+                          {outline && outline.file === file.file && !outlineLoading && (
+                            outline.entries.length > 0 ? (
+                              <OutlineTree
+                                entries={outline.entries}
+                                selectedEntryId={selectedEntryId}
+                                onEntryClick={onEntryClick}
+                              />
+                            ) : (
+                              <p className="files-empty">No declarations in this file</p>
+                            )
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default memo(FilesPanel);
@@ -0,0 +1,150 @@
+import { memo, useCallback, useState } from 'react';
+import type { Finding, FindingFacets, FindingFilters, FindingsPage } from '../types';
+import './FindingsPanel.css';
+
+interface FindingsPanelProps {
+  facets: FindingFacets | null;
+  filters: FindingFilters;
+  page: FindingsPage | null;
+  loading: boolean;
+  error: string | null;
+  selectedFindingId: number | null;
+  onFiltersChange: (changes: Partial<FindingFilters>) => void;
+  onPageChange: (offset: number) => void;
+  onFindingClick: (finding: Finding) => void;
+}
+
+function FindingsPanel({
+  facets,
+  filters,
+  page,
+  loading,
+  error,
+  selectedFindingId,
+  onFiltersChange,
+  onPageChange,
+  onFindingClick,
+}: FindingsPanelProps) {
+  // The file filter is applied on Enter or blur, so typing does not fire a request per key
+  const [fileDraft, setFileDraft] = useState(filters.file);
+
+  const handleFileSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    onFiltersChange({ file: fileDraft.trim() });
+  }, [fileDraft, onFiltersChange]);
+
+  const firstShown = page && page.total > 0 ? page.offset + 1 : 0;
+  const lastShown = page ? page.offset + page.findings.length : 0;
+
+  return (
+    <div className="findings-panel">
+      <form className="findings-filters" onSubmit={handleFileSubmit}>
+        <select
+          value={filters.severity}
+          onChange={(e) => onFiltersChange({ severity: e.target.value })}
+          className="findings-select"
+          aria-label="Severity"
+        >
+          <option value="">All severities</option>
+          {facets?.severities.map(({ value, count }) => (
+            <option key={value} value={value}>{value} ({count})</option>
+          ))}
+        </select>
+        <select
+          value={filters.category}
+          onChange={(e) => onFiltersChange({ category: e.target.value })}
+          className="findings-select"
+          aria-label="Category"
+        >
+          <option value="">All categories</option>
+          {facets?.categories.map(({ value, count }) => (
+            <option key={value} value={value}>{value} ({count})</option>
+          ))}
+        </select>
+        <select
+          value={filters.package}
+          onChange={(e) => onFiltersChange({ package: e.target.value })}
+          className="findings-select"
+          aria-label="Package"
+        >
+          <option value="">All packages</option>
+          {facets?.packages.map(({ value, count }) => (
+            <option key={value} value={value}>{value} ({count})</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={fileDraft}
+          onChange={(e) => setFileDraft(e.target.value)}
+          onBlur={() => fileDraft.trim() !== filters.file && onFiltersChange({ file: fileDraft.trim() })}
+          placeholder="File path contains..."
+          className="search-input"
+          aria-label="File"
+        />
+      </form>
+
+      {loading && (
+        <div className="loading" role="status" aria-live="polite">
+          Loading findings...
+        </div>
+      )}
+      {error && (
+        <div className="error" role="alert" aria-live="assertive">
+          {error}
+        </div>
+      )}
+
+      {page && !loading && (
+        <>
+          <div className="findings-pager">
+            <span>{firstShown}-{lastShown} of {page.total.toLocaleString()}</span>
+            <button
+              onClick={() => onPageChange(Math.max(page.offset - page.limit, 0))}
+              disabled={page.offset === 0}
+              className="findings-page-button"
+              aria-label="Previous page"
+            >
+              ‹
+            </button>
+            <button
+              onClick={() => onPageChange(page.offset + page.limit)}
+              disabled={lastShown >= page.total}
+              className="findings-page-button"
+              aria-label="Next page"
+            >
+              ›
+            </button>
+          </div>
+          {page.findings.length === 0 && (
+            <p className="findings-empty">No findings match these filters</p>
+          )}
+          <ul className="findings-list">
+            {page.findings.map((finding) => (
+              <li key={finding.id}>
+                <button
+                  onClick={() => onFindingClick(finding)}
+                  disabled={!finding.node_id}
+                  className={`finding-item ${selectedFindingId === finding.id ? 'active' : ''}`}
+                  title={finding.node_id ?? 'Not attached to a node'}
+                >
+                  <span className="finding-item-header">
+                    <span className={`severity-badge severity-${finding.severity}`}>{finding.severity}</span>
+                    <span className="finding-category">{finding.category}</span>
+                  </span>
+                  <span className="finding-message">{finding.message}</span>
+                  {finding.file && (
+                    <span className="finding-location">
+                      {finding.file}{finding.line ? `:${finding.line}` : ''}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default memo(FindingsPanel);
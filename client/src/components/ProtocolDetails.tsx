@@ -0,0 +1,117 @@
+import { memo } from 'react';
+import type { CommEndpoint, CommProtocolDetail } from '../types';
+import './ProtocolDetails.css';
+
+interface ProtocolDetailsProps {
+  detail: CommProtocolDetail | null;
+  loading: boolean;
+  error: string | null;
+  selectedNodeId: string | null;
+  onEndpointClick: (endpoint: CommEndpoint) => void;
+}
+
+function ProtocolDetails({ detail, loading, error, selectedNodeId, onEndpointClick }: ProtocolDetailsProps) {
+  return (
+    <div className="protocol-details">
+      <h4>Protocol</h4>
+
+      {loading && (
+        <div className="loading" role="status" aria-live="polite">
+          Loading protocol...
+        </div>
+      )}
+      {error && (
+        <div className="error" role="alert" aria-live="assertive">
+          {error}
+        </div>
+      )}
+      {!detail && !loading && !error && (
+        <p className="protocol-empty">Click a protocol edge in the topology to see its session type and endpoints</p>
+      )}
+
+      {detail && !loading && (
+        <>
+          <div className="protocol-title">
+            <code>{detail.protocol.name}</code>
+            <span className="protocol-meta">
+              {[detail.protocol.transport, detail.protocol.encoding, detail.protocol.pattern].filter(Boolean).join(' · ')}
+            </span>
+          </div>
+          {detail.protocol.description && <p className="protocol-description">{detail.protocol.description}</p>}
+
+          <dl className="protocol-session">
+            <dt>Client</dt>
+            <dd><code>{detail.protocol.session_type_client ?? '—'}</code></dd>
+            <dt>Server</dt>
+            <dd><code>{detail.protocol.session_type_server ?? '—'}</code></dd>
+          </dl>
+          {!detail.protocol.is_dual && (
+            <p className="protocol-warning">Client and server session types are not duals</p>
+          )}
+
+          {detail.participants.length > 0 && (
+            <div className="protocol-section">
+              <h5>Participants</h5>
+              <ul className="protocol-list">
+                {detail.participants.map((participant) => (
+                  <li key={`${participant.component}:${participant.role}`} title={participant.details ?? participant.description ?? undefined}>
+                    <span className="protocol-component">{participant.component}</span>
+                    <span className="protocol-meta">{participant.role}</span>
+                    {participant.status && (
+                      <span className={`protocol-status protocol-status-${participant.status}`}>
+                        {participant.status}
+                        {participant.endpoints_expected ? ` ${participant.endpoints_found ?? 0}/${participant.endpoints_expected}` : ''}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {detail.steps.length > 0 && (
+            <div className="protocol-section">
+              <h5>Messages</h5>
+              <ol className="protocol-steps">
+                {detail.steps.map((step) => (
+                  <li key={step.step_order} title={step.description ?? undefined}>
+                    <span className="protocol-meta">{step.participant} {step.direction}</span> {step.message_type}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          <div className="protocol-section">
+            <h5>Endpoints</h5>
+            {detail.endpoints.length === 0 ? (
+              <p className="protocol-empty">No implementing functions detected</p>
+            ) : (
+              <ul className="protocol-list">
+                {detail.endpoints.map((endpoint) => (
+                  <li key={endpoint.id}>
+                    <button
+                      onClick={() => onEndpointClick(endpoint)}
+                      disabled={!endpoint.function_id}
+                      className={`protocol-endpoint ${selectedNodeId !== null && selectedNodeId === endpoint.function_id ? 'active' : ''}`}
+                      title={endpoint.function_id ?? undefined}
+                    >
+                      <span className="protocol-component">{endpoint.function_name ?? endpoint.endpoint_type}</span>
+                      <span className="protocol-meta">
+                        {endpoint.component} {endpoint.role} · {endpoint.endpoint_type}
+                        {endpoint.url_path && ` · ${endpoint.http_method ? `${endpoint.http_method} ` : ''}${endpoint.url_path}`}
+                        {endpoint.confidence < 1 && ` · ${Math.round(endpoint.confidence * 100)}%`}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default memo(ProtocolDetails);
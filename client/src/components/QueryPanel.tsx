@@ -0,0 +1,116 @@
+import { memo, useCallback, useMemo, useState } from 'react';
+import type { StoredQuery } from '../types';
+import { DEFAULT_QUERY_ROW_LIMIT, MAX_QUERY_ROW_LIMIT } from '../constants';
+import './QueryPanel.css';
+
+interface QueryPanelProps {
+  queries: StoredQuery[];
+  selectedNodeId: string | null;
+  loading: boolean;
+  error: string | null;
+  onRun: (name: string, params: Record<string, string>, limit: number) => void;
+}
+
+// Parameters like :node_id or :function_id take a node ID, so they can be filled from the selection
+const isIdParam = (param: string) => param === 'id' || param.endsWith('_id');
+
+function QueryPanel({ queries, selectedNodeId, loading, error, onRun }: QueryPanelProps) {
+  const [queryName, setQueryName] = useState('');
+  const [paramValues, setParamValues] = useState<Record<string, string>>({});
+  const [limit, setLimit] = useState(DEFAULT_QUERY_ROW_LIMIT);
+
+  const query = useMemo(
+    () => queries.find((q) => q.name === queryName) ?? null,
+    [queries, queryName]
+  );
+
+  const handleQueryChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    setQueryName(e.target.value);
+    setParamValues({});
+  }, []);
+
+  const handleParamChange = useCallback((param: string, value: string) => {
+    setParamValues((prev) => ({ ...prev, [param]: value }));
+  }, []);
+
+  const handleLimitChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    setLimit(Number.isNaN(value) ? DEFAULT_QUERY_ROW_LIMIT : Math.min(Math.max(value, 1), MAX_QUERY_ROW_LIMIT));
+  }, []);
+
+  const missingParam = query?.params.some((param) => !(paramValues[param] ?? '').trim()) ?? true;
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query || missingParam) return;
+    const params = Object.fromEntries(query.params.map((param) => [param, paramValues[param].trim()]));
+    onRun(query.name, params, limit);
+  }, [query, missingParam, paramValues, limit, onRun]);
+
+  return (
+    <form className="query-panel" onSubmit={handleSubmit}>
+      <h3>Stored Queries</h3>
+      <select
+        value={queryName}
+        onChange={handleQueryChange}
+        className="query-select"
+        aria-label="Stored query"
+      >
+        <option value="">Select a query...</option>
+        {queries.map((q) => (
+          <option key={q.name} value={q.name}>{q.name}</option>
+        ))}
+      </select>
+      {query && (
+        <>
+          <p className="query-description">{query.description}</p>
+          {query.params.map((param) => (
+            <label key={param} className="query-param">
+              <span>{param}</span>
+              <div className="query-param-input">
+                <input
+                  type="text"
+                  value={paramValues[param] ?? ''}
+                  onChange={(e) => handleParamChange(param, e.target.value)}
+                  className="search-input"
+                  spellCheck={false}
+                />
+                {isIdParam(param) && selectedNodeId && (
+                  <button
+                    type="button"
+                    onClick={() => handleParamChange(param, selectedNodeId)}
+                    className="query-use-selected"
+                    title={selectedNodeId}
+                  >
+                    Use selected
+                  </button>
+                )}
+              </div>
+            </label>
+          ))}
+          <label className="query-param query-limit">
+            <span>Row limit</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_QUERY_ROW_LIMIT}
+              value={limit}
+              onChange={handleLimitChange}
+              className="search-input"
+            />
+          </label>
+          <button type="submit" className="query-run-button" disabled={loading || missingParam}>
+            {loading ? 'Running...' : 'Run query'}
+          </button>
+        </>
+      )}
+      {error && (
+        <div className="error" role="alert" aria-live="assertive">
+          {error}
+        </div>
+      )}
+    </form>
+  );
+}
+
+export default memo(QueryPanel);
@@ -0,0 +1,60 @@
+import { memo } from 'react';
+import type { QueryResult } from '../types';
+import './QueryResultTable.css';
+
+interface QueryResultTableProps {
+  result: QueryResult;
+  onNodeClick: (nodeId: string) => void;
+}
+
+// Same convention as the server: `id` and `*_id` columns hold node IDs
+const isIdColumn = (column: string) => column === 'id' || column.endsWith('_id');
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function QueryResultTable({ result, onNodeClick }: QueryResultTableProps) {
+  if (result.rows.length === 0) {
+    return <div className="placeholder">The query returned no rows</div>;
+  }
+
+  return (
+    <div className="query-result-table">
+      <table>
+        <thead>
+          <tr>
+            {result.columns.map((column) => (
+              <th key={column}>{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {result.rows.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {row.map((value, columnIndex) => {
+                const text = formatCell(value);
+                return (
+                  <td key={columnIndex}>
+                    {isIdColumn(result.columns[columnIndex]) && typeof value === 'string' && value !== '' ? (
+                      <button
+                        onClick={() => onNodeClick(value)}
+                        className="query-node-link"
+                        title="Show source"
+                      >
+                        {text}
+                      </button>
+                    ) : text}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default memo(QueryResultTable);
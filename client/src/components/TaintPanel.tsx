@@ -0,0 +1,181 @@
+import { memo } from 'react';
+import type { TaintHop, TaintHotspot, TaintLabel, TaintSink, TaintSinksPage, TaintSummary } from '../types';
+import './TaintPanel.css';
+
+interface TaintPanelProps {
+  summary: TaintSummary | null;
+  sinks: TaintSinksPage | null;
+  hotspots: TaintHotspot[] | null;
+  category: string;
+  loading: boolean;
+  error: string | null;
+  selectedSink: TaintSink | null;
+  hops: TaintHop[] | null;
+  selectedNodeId: string | null;
+  onCategoryChange: (category: string) => void;
+  onSinkClick: (sink: TaintSink) => void;
+  onHopClick: (hop: TaintHop) => void;
+  onHotspotClick: (functionId: string) => void;
+}
+
+const TAINT_LABELS: Record<TaintLabel, string> = {
+  source: 'Source',
+  propagated: 'Propagated',
+  sanitized: 'Sanitized',
+  sink_reached: 'Sink reached',
+};
+
+const isSelected = (sink: TaintSink, selected: TaintSink | null) =>
+  selected !== null && selected.sink_id === sink.sink_id && selected.source_id === sink.source_id;
+
+const location = (file: string | null, line: number | null) =>
+  file ? `${file}${line ? `:${line}` : ''}` : '';
+
+function TaintPanel({
+  summary,
+  sinks,
+  hotspots,
+  category,
+  loading,
+  error,
+  selectedSink,
+  hops,
+  selectedNodeId,
+  onCategoryChange,
+  onSinkClick,
+  onHopClick,
+  onHotspotClick,
+}: TaintPanelProps) {
+  // Node counts per flow label, summed over source categories
+  const labelTotals = (summary?.flows ?? []).reduce<Partial<Record<TaintLabel, number>>>((totals, flow) => {
+    totals[flow.label] = (totals[flow.label] ?? 0) + flow.node_count;
+    return totals;
+  }, {});
+
+  // Sinks arrive sorted by category; start a new group whenever it changes
+  const groups: Array<{ category: string; sinks: TaintSink[] }> = [];
+  for (const sink of sinks?.sinks ?? []) {
+    const last = groups[groups.length - 1];
+    if (last && last.category === sink.sink_category) {
+      last.sinks.push(sink);
+    } else {
+      groups.push({ category: sink.sink_category, sinks: [sink] });
+    }
+  }
+
+  return (
+    <div className="taint-panel">
+      {summary && (
+        <div className="taint-flows">
+          {(Object.keys(TAINT_LABELS) as TaintLabel[]).map((label) => (
+            <div key={label} className={`taint-flow taint-flow-${label}`}>
+              <span className="taint-flow-count">{(labelTotals[label] ?? 0).toLocaleString()}</span>
+              <span className="taint-flow-label">{TAINT_LABELS[label]}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <select
+        value={category}
+        onChange={(e) => onCategoryChange(e.target.value)}
+        className="taint-select"
+        aria-label="Sink category"
+      >
+        <option value="">All sink categories</option>
+        {summary?.sink_categories.map(({ value, count }) => (
+          <option key={value} value={value}>{value} ({count})</option>
+        ))}
+      </select>
+
+      {loading && (
+        <div className="loading" role="status" aria-live="polite">
+          Loading taint flows...
+        </div>
+      )}
+      {error && (
+        <div className="error" role="alert" aria-live="assertive">
+          {error}
+        </div>
+      )}
+
+      {sinks && !loading && (
+        <>
+          <p className="taint-count">
+            {sinks.total.toLocaleString()} tainted sink{sinks.total === 1 ? '' : 's'}
+            {sinks.truncated ? ` (showing ${sinks.sinks.length})` : ''}
+          </p>
+          {groups.map((group) => (
+            <div key={group.category} className="taint-group">
+              <h4>{group.category}</h4>
+              <ul className="taint-list">
+                {group.sinks.map((sink) => {
+                  const selected = isSelected(sink, selectedSink);
+                  return (
+                    <li key={`${sink.source_id}\u0000${sink.sink_id}`}>
+                      <button
+                        onClick={() => onSinkClick(sink)}
+                        className={`taint-sink ${selected ? 'active' : ''}`}
+                        title={sink.description ?? sink.sink_id}
+                      >
+                        <span className="taint-sink-flow">
+                          {sink.source_name} <span className="taint-arrow">→</span> {sink.sink_name}
+                        </span>
+                        <span className="taint-sink-meta">
+                          {location(sink.file, sink.line)}
+                          {sink.function_name && ` · ${sink.function_name}`}
+                          {` · ${sink.hops} hop${sink.hops === 1 ? '' : 's'}`}
+                          {sink.source_category && ` · from ${sink.source_category}`}
+                        </span>
+                      </button>
+                      {selected && hops && (
+                        <ol className="taint-hops">
+                          {hops.map((hop) => (
+                            <li key={hop.id}>
+                              <button
+                                onClick={() => onHopClick(hop)}
+                                className={`taint-hop taint-hop-${hop.taint ?? 'propagated'} ${selectedNodeId === hop.id ? 'active' : ''}`}
+                                title={hop.id}
+                              >
+                                <span className="taint-hop-name">{hop.name || hop.kind}</span>
+                                <span className="taint-hop-line">{hop.line ?? '?'}</span>
+                              </button>
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </>
+      )}
+
+      {hotspots && hotspots.length > 0 && (
+        <div className="taint-group">
+          <h4>Functions with a source and a sink</h4>
+          <ul className="taint-list">
+            {hotspots.map((hotspot) => (
+              <li key={hotspot.id}>
+                <button
+                  onClick={() => onHotspotClick(hotspot.id)}
+                  className="taint-sink"
+                  title={hotspot.id}
+                >
+                  <span className="taint-sink-flow">{hotspot.name}</span>
+                  <span className="taint-sink-meta">
+                    {hotspot.source_categories} <span className="taint-arrow">→</span> {hotspot.sink_categories}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(TaintPanel);
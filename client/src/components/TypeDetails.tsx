@@ -0,0 +1,88 @@
+import { memo } from 'react';
+import type { TypeDetail, TypeMethod, TypeRelation } from '../types';
+import './TypeDetails.css';
+
+interface TypeDetailsProps {
+  detail: TypeDetail;
+  selectedNodeId: string | null;
+  onTypeClick: (typeId: string) => void;
+  onMethodClick: (method: TypeMethod) => void;
+}
+
+interface RelationListProps {
+  title: string;
+  relations: TypeRelation[];
+  // Package of the type being shown; related types elsewhere get their package appended
+  home: string | null;
+  onTypeClick: (typeId: string) => void;
+}
+
+function RelationList({ title, relations, home, onTypeClick }: RelationListProps) {
+  if (relations.length === 0) return null;
+  return (
+    <div className="type-section">
+      <h4>{title} <span className="type-count">{relations.length}</span></h4>
+      <ul className="type-list">
+        {relations.map((relation) => (
+          <li key={relation.id}>
+            <button onClick={() => onTypeClick(relation.id)} className="type-item" title={relation.id}>
+              <span className="type-item-name">{relation.name}</span>
+              {relation.package !== home && relation.package && (
+                <span className="type-item-meta">{relation.package}</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function TypeDetails({ detail, selectedNodeId, onTypeClick, onMethodClick }: TypeDetailsProps) {
+  const { type } = detail;
+  const isInterface = type.type_kind === 'interface';
+
+  return (
+    <div className="type-details">
+      <div className="type-header">
+        <h4>{isInterface ? 'Interface' : 'Type'} <code>{type.name}</code></h4>
+        {type.package && <span className="type-item-meta">{type.package}</span>}
+      </div>
+
+      <RelationList title="Implemented by" relations={detail.implementors} home={type.package} onTypeClick={onTypeClick} />
+      <RelationList title="Implements" relations={detail.interfaces} home={type.package} onTypeClick={onTypeClick} />
+      <RelationList title="Embeds" relations={detail.embeds} home={type.package} onTypeClick={onTypeClick} />
+      <RelationList title="Embedded by" relations={detail.embedded_by} home={type.package} onTypeClick={onTypeClick} />
+
+      {isInterface && detail.implementors.length === 0 && (
+        <p className="type-empty">No implementing types in this graph</p>
+      )}
+
+      <div className="type-section">
+        <h4>Methods <span className="type-count">{detail.methods.length}</span></h4>
+        {detail.methods.length === 0 ? (
+          <p className="type-empty">No methods</p>
+        ) : (
+          <ul className="type-list">
+            {detail.methods.map((method) => (
+              <li key={method.id}>
+                <button
+                  onClick={() => onMethodClick(method)}
+                  className={`type-item ${selectedNodeId === method.id ? 'active' : ''}`}
+                  title={method.signature ?? method.id}
+                >
+                  <span className="type-item-name">{method.name}</span>
+                  {method.kind === 'function' && method.complexity !== null && (
+                    <span className="type-item-meta">cc {method.complexity} · {method.loc} loc</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default memo(TypeDetails);
@@ -0,0 +1,81 @@
+import { memo } from 'react';
+import type { Usage, UsageFunctionGroup, UsagesResponse } from '../types';
+import './UsagesPanel.css';
+
+interface UsagesPanelProps {
+  nodeId: string | null;
+  usages: UsagesResponse | null;
+  loading: boolean;
+  error: string | null;
+  selectedUseId: string | null;
+  onFind: (nodeId: string) => void;
+  onUsageClick: (usage: Usage, group: UsageFunctionGroup) => void;
+}
+
+function UsagesPanel({ nodeId, usages, loading, error, selectedUseId, onFind, onUsageClick }: UsagesPanelProps) {
+  return (
+    <div className="usages-panel">
+      <div className="usages-header">
+        <h4>Usages</h4>
+        <button
+          onClick={() => nodeId && onFind(nodeId)}
+          disabled={!nodeId || loading}
+          className="usages-find-button"
+          title={nodeId ? `Find references to ${nodeId}` : 'Select a node first'}
+        >
+          Find usages
+        </button>
+      </div>
+
+      {loading && (
+        <div className="loading" role="status" aria-live="polite">
+          Finding usages...
+        </div>
+      )}
+      {error && (
+        <div className="error" role="alert" aria-live="assertive">
+          {error}
+        </div>
+      )}
+
+      {usages && !loading && (
+        <>
+          <p className="usages-summary">
+            {usages.total.toLocaleString()} usage{usages.total === 1 ? '' : 's'} of <code>{usages.definition.name}</code>
+            {usages.truncated ? ' (showing the first ones)' : ''}
+          </p>
+          {usages.files.map((fileGroup) => (
+            <div key={fileGroup.file} className="usages-file">
+              <div className="usages-file-name" title={fileGroup.file}>
+                {fileGroup.file || '(no file)'} <span className="usages-count">{fileGroup.count}</span>
+              </div>
+              {fileGroup.functions.map((group) => (
+                <div key={group.function_id ?? ''} className="usages-function">
+                  <div className="usages-function-name">
+                    {group.function_name ?? 'package level'}
+                  </div>
+                  <ul className="usages-list">
+                    {group.usages.map((usage, index) => (
+                      <li key={`${usage.use_id}:${index}`}>
+                        <button
+                          onClick={() => onUsageClick(usage, group)}
+                          className={`usage-item ${selectedUseId === usage.use_id ? 'active' : ''}`}
+                          title={usage.use_id}
+                        >
+                          <span className="usage-line">{usage.line ?? '?'}</span>
+                          {usage.use_kind && <span className="usage-kind">{usage.use_kind}</span>}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default memo(UsagesPanel);
@@ -1,4 +1,66 @@
 export const DEBOUNCE_DELAY = 300;
+// Symbol search results per page
+export const SYMBOL_PAGE_SIZE = 50;
 export const MAX_GRAPH_NODES = 60;
+// Clusters with more members start collapsed into one summary node
+export const CLUSTER_COLLAPSE_SIZE = 8;
+// Server-side cap on graph responses and on node IDs per request
+export const MAX_NODES_IN_GRAPH = 1000;
 export const LAYOUT_TIMEOUT = 50;
 export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+export const DEFAULT_GRAPH_DEPTH = 1;
+export const MAX_GRAPH_DEPTH = 5;
+export const GRAPH_DIRECTIONS = ['both', 'callees', 'callers'] as const;
+// Call paths between two functions: how many to find, and the longest path searched
+export const DEFAULT_PATH_COUNT = 3;
+export const MAX_PATH_COUNT = 10;
+export const DEFAULT_PATH_DEPTH = 6;
+export const MAX_PATH_DEPTH = 10;
+export const DEFAULT_EDGE_KINDS = ['call'];
+// Maps call-graph directions onto the in/out/both directions of /node/graph
+export const NEIGHBOR_DIRECTIONS = { callers: 'in', callees: 'out', both: 'both' } as const;
+export const NEIGHBOR_DIRECTION_LABELS = { callers: 'incoming', callees: 'outgoing', both: 'both' } as const;
+export const DEFAULT_QUERY_ROW_LIMIT = 500;
+export const MAX_QUERY_ROW_LIMIT = 5000;
+export const FINDINGS_PAGE_SIZE = 50;
+// Findings loaded for the gutter of the file shown in the source viewer
+export const MAX_SOURCE_FINDINGS = 500;
+// Lines shown around the selected node in the source viewer, and how many each expand click adds
+export const SOURCE_CONTEXT_LINES = 5;
+export const SOURCE_CONTEXT_STEP = 20;
+// Data-flow hops a program slice follows; the stored slice queries stop at 20
+export const DEFAULT_SLICE_DEPTH = 10;
+export const MAX_SLICE_DEPTH = 20;
+export const NODE_METRIC_LABELS = {
+  cyclomatic_complexity: 'Complexity',
+  fan_in: 'Fan-in',
+  fan_out: 'Fan-out',
+  loc: 'Lines of code',
+  num_params: 'Parameters',
+} as const;
+export const GIT_METRIC_LABELS = {
+  churn: 'Churn',
+  commit_count: 'Commits',
+  change_risk_score: 'Change risk',
+} as const;
+export const DIFF_STATUS_LABELS = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Metrics changed',
+} as const;
+export const GRAPH_LAYOUT_LABELS = {
+  hierarchical: 'Hierarchy',
+  force: 'Force-directed',
+  concentric: 'Concentric',
+  breadthfirst: 'Breadth-first',
+  grid: 'Grid',
+} as const;
+export const DASHBOARD_METRIC_LABELS = {
+  complexity: 'Complexity',
+  loc: 'Lines of code',
+  fan_in: 'Fan-in',
+  fan_out: 'Fan-out',
+} as const;
+export const DASHBOARD_LIST_SIZE = 10;
+// Server-side cap on packages expanded into their functions at once
+export const MAX_EXPANDED_PACKAGES = 10;
@@ -1,4 +1,128 @@
-export const graphStylesheet = [
+import type { MetricEncoding, NodeMetric } from './types';
+
+export type EdgeKindStyle = {
+  label: string;
+  color: string;
+  lineStyle: 'solid' | 'dashed' | 'dotted';
+};
+
+// One color and line style per CPG edge kind; kinds not listed here use DEFAULT_EDGE_KIND_STYLE
+export const EDGE_KIND_STYLES: Record<string, EdgeKindStyle> = {
+  call: { label: 'Call', color: '#4FACFE', lineStyle: 'solid' },
+  call_site: { label: 'Call site', color: '#79C0FF', lineStyle: 'dashed' },
+  dfg: { label: 'Data flow', color: '#F6B26B', lineStyle: 'solid' },
+  param_in: { label: 'Parameter in', color: '#FFA657', lineStyle: 'dashed' },
+  param_out: { label: 'Parameter out', color: '#FFA657', lineStyle: 'dotted' },
+  cfg: { label: 'Control flow', color: '#7EE787', lineStyle: 'solid' },
+  branch_target: { label: 'Branch target', color: '#56D364', lineStyle: 'dashed' },
+  cdg: { label: 'Control dependence', color: '#D2A8FF', lineStyle: 'dashed' },
+  eog: { label: 'Evaluation order', color: '#A5D6FF', lineStyle: 'dotted' },
+  ref: { label: 'Reference', color: '#8B949E', lineStyle: 'dashed' },
+  ast: { label: 'AST', color: '#6E7681', lineStyle: 'dotted' },
+  implements: { label: 'Implements', color: '#FF7B72', lineStyle: 'dashed' },
+  embeds: { label: 'Embeds', color: '#FFA198', lineStyle: 'dotted' },
+  has_method: { label: 'Has method', color: '#F778BA', lineStyle: 'solid' },
+  spawn: { label: 'Spawn', color: '#E3B341', lineStyle: 'dashed' },
+  chan_flow: { label: 'Channel flow', color: '#E3B341', lineStyle: 'dotted' },
+  defer_order: { label: 'Defer order', color: '#56D4DD', lineStyle: 'dashed' },
+  error_wrap: { label: 'Error wrap', color: '#FF6B6B', lineStyle: 'solid' },
+  panic_recover: { label: 'Panic / recover', color: '#FF6B6B', lineStyle: 'dotted' },
+  comm: { label: 'Protocol', color: '#39C5CF', lineStyle: 'solid' },
+};
+
+export const DEFAULT_EDGE_KIND_STYLE: EdgeKindStyle = {
+  label: 'Other',
+  color: '#8A8F99',
+  lineStyle: 'dotted',
+};
+
+export function getEdgeKindStyle(kind: string): EdgeKindStyle {
+  return EDGE_KIND_STYLES[kind] ?? { ...DEFAULT_EDGE_KIND_STYLE, label: kind };
+}
+
+const edgeKindStylesheet = [
+  {
+    selector: 'edge[kind]',
+    style: {
+      'line-color': DEFAULT_EDGE_KIND_STYLE.color,
+      'target-arrow-color': DEFAULT_EDGE_KIND_STYLE.color,
+      'line-style': DEFAULT_EDGE_KIND_STYLE.lineStyle,
+    },
+  },
+  ...Object.entries(EDGE_KIND_STYLES).map(([kind, kindStyle]) => ({
+    selector: `edge[kind="${kind}"]`,
+    style: {
+      'line-color': kindStyle.color,
+      'target-arrow-color': kindStyle.color,
+      'line-style': kindStyle.lineStyle,
+    },
+  })),
+];
+
+export type MetricRange = {
+  min: number;
+  max: number;
+};
+
+// Node size and color ranges that metric values are mapped onto
+export const METRIC_WIDTH_RANGE = [60, 170] as const;
+export const METRIC_HEIGHT_RANGE = [26, 72] as const;
+export const METRIC_COLOR_RANGE = ['#4FACFE', '#FF6B6B'] as const;
+
+// Map one metric to node size and another to node color, scaled to the values in the current graph.
+// Nodes without the metric (external functions, non-function nodes) keep their default look.
+export function buildMetricStylesheet(
+  encoding: MetricEncoding,
+  ranges: Partial<Record<NodeMetric, MetricRange>>
+) {
+  // mapData needs a non-empty interval
+  const bounds = (metric: NodeMetric) => {
+    const range = ranges[metric] ?? { min: 0, max: 1 };
+    return `${range.min}, ${range.max > range.min ? range.max : range.min + 1}`;
+  };
+
+  const rules = [];
+  if (encoding.size) {
+    rules.push({
+      selector: `node[${encoding.size}]`,
+      style: {
+        'width': `mapData(${encoding.size}, ${bounds(encoding.size)}, ${METRIC_WIDTH_RANGE[0]}, ${METRIC_WIDTH_RANGE[1]})`,
+        'height': `mapData(${encoding.size}, ${bounds(encoding.size)}, ${METRIC_HEIGHT_RANGE[0]}, ${METRIC_HEIGHT_RANGE[1]})`,
+      },
+    });
+  }
+  if (encoding.color) {
+    rules.push({
+      selector: `node[${encoding.color}]`,
+      style: {
+        'background-color': `mapData(${encoding.color}, ${bounds(encoding.color)}, ${METRIC_COLOR_RANGE[0]}, ${METRIC_COLOR_RANGE[1]})`,
+        'background-opacity': 0.35,
+        'border-color': `mapData(${encoding.color}, ${bounds(encoding.color)}, ${METRIC_COLOR_RANGE[0]}, ${METRIC_COLOR_RANGE[1]})`,
+      },
+    });
+  }
+  return rules;
+}
+
+// Tint function nodes by a git statistic of their file. Applied after the metric rules, so it wins
+// over a metric color encoding while it is on.
+export const GIT_OVERLAY_COLOR_RANGE = ['#7EE787', '#FF7B72'] as const;
+
+export function buildGitOverlayStylesheet(range: MetricRange) {
+  const bounds = `${range.min}, ${range.max > range.min ? range.max : range.min + 1}`;
+  return [
+    {
+      selector: 'node[git_value]',
+      style: {
+        'background-color': `mapData(git_value, ${bounds}, ${GIT_OVERLAY_COLOR_RANGE[0]}, ${GIT_OVERLAY_COLOR_RANGE[1]})`,
+        'background-opacity': 0.4,
+        'border-color': `mapData(git_value, ${bounds}, ${GIT_OVERLAY_COLOR_RANGE[0]}, ${GIT_OVERLAY_COLOR_RANGE[1]})`,
+      },
+    },
+  ];
+}
+
+const nodeTypeStylesheet = [
   {
     selector: 'node',
     style: {
@@ -47,6 +171,10 @@ export const graphStylesheet = [
       'border-color': 'rgba(79, 172, 254, 0.35)',
     },
   },
+];
+
+// Selection, hover, edge and overlay rules; these sit after any metric rules so they still win
+const stateStylesheet = [
   {
     selector: 'node:selected',
     style: {
@@ -118,6 +246,27 @@ export const graphStylesheet = [
       'target-arrow-color': 'rgba(79, 172, 254, 0.35)',
     },
   },
+  ...edgeKindStylesheet,
+  // Aggregated edges (package graph) get thicker with the number of calls they stand for
+  {
+    selector: 'edge[weight]',
+    style: {
+      'width': 'mapData(weight, 1, 50, 1.5, 8)',
+      'arrow-scale': 0.9,
+    },
+  },
+  {
+    selector: 'edge[label]',
+    style: {
+      'label': 'data(label)',
+      'font-size': '9px',
+      'color': '#c9d1d9',
+      'text-background-color': '#0b0f14',
+      'text-background-opacity': 0.8,
+      'text-background-padding': '2px',
+      'text-rotation': 'autorotate' as const,
+    },
+  },
   {
     selector: 'edge:selected',
     style: {
@@ -188,4 +337,228 @@ export const graphStylesheet = [
       'color': '#cbd5e1',
     },
   },
+  {
+    selector: 'node[kind="basic_block"]',
+    style: {
+      'shape': 'rectangle' as const,
+      'border-color': 'rgba(126, 231, 135, 0.5)',
+      'background-color': 'rgba(126, 231, 135, 0.08)',
+      'text-max-width': '180px',
+    },
+  },
+  {
+    selector: 'node[kind="exit"]',
+    style: {
+      'shape': 'ellipse' as const,
+      'border-color': 'rgba(255, 107, 107, 0.6)',
+      'background-color': 'rgba(255, 107, 107, 0.1)',
+    },
+  },
+  {
+    selector: 'node[kind="package"]',
+    style: {
+      'shape': 'round-rectangle' as const,
+      'border-width': 1.5,
+      'border-color': 'rgba(210, 168, 255, 0.6)',
+      'background-color': 'rgba(210, 168, 255, 0.1)',
+      'font-weight': 600,
+      'text-max-width': '200px',
+    },
+  },
+  // A component of the service communication topology
+  {
+    selector: 'node[kind="component"]',
+    style: {
+      'shape': 'round-rectangle' as const,
+      'width': 110,
+      'height': 40,
+      'border-width': 1.5,
+      'border-color': 'rgba(57, 197, 207, 0.7)',
+      'background-color': 'rgba(57, 197, 207, 0.1)',
+      'font-weight': 600,
+    },
+  },
+  // An expanded package: a compound node holding its functions, labelled above the box
+  {
+    selector: 'node[kind="package"]:parent',
+    style: {
+      'text-valign': 'top',
+      'text-halign': 'center',
+      'text-margin-y': -4,
+      'padding': '18px',
+      'border-style': 'dashed',
+      'background-color': 'rgba(210, 168, 255, 0.04)',
+      'color': '#D2A8FF',
+    },
+  },
+  // A collapsed package or file cluster of a neighborhood, sized by how many nodes it holds
+  {
+    selector: 'node[kind="cluster"][count]',
+    style: {
+      'shape': 'round-rectangle' as const,
+      'width': 'mapData(count, 2, 100, 90, 180)',
+      'height': 'mapData(count, 2, 100, 36, 64)',
+      'border-width': 1.5,
+      'border-style': 'double',
+      'border-color': 'rgba(121, 192, 255, 0.7)',
+      'background-color': 'rgba(121, 192, 255, 0.12)',
+      'font-weight': 600,
+      'text-max-width': '170px',
+    },
+  },
+  // An open cluster: a compound node around its members
+  {
+    selector: 'node[kind="cluster"]:parent',
+    style: {
+      'shape': 'round-rectangle' as const,
+      'text-valign': 'top',
+      'text-halign': 'center',
+      'text-margin-y': -4,
+      'padding': '14px',
+      'border-width': 1,
+      'border-style': 'dashed',
+      'border-color': 'rgba(121, 192, 255, 0.5)',
+      'background-color': 'rgba(121, 192, 255, 0.04)',
+      'color': '#79C0FF',
+    },
+  },
+  // Dragged by hand: the layouts leave it where it is
+  {
+    selector: 'node.pinned',
+    style: {
+      'border-width': 2.5,
+      'border-color': '#E6EDF3',
+    },
+  },
+  {
+    selector: 'node.path-node',
+    style: {
+      'border-width': 2,
+      'border-color': 'rgba(246, 178, 107, 0.8)',
+      'background-color': 'rgba(246, 178, 107, 0.14)',
+    },
+  },
+  {
+    selector: 'node.path-endpoint',
+    style: {
+      'border-width': 3,
+      'border-color': '#F6B26B',
+      'background-color': 'rgba(246, 178, 107, 0.22)',
+      'font-weight': 600,
+    },
+  },
+  {
+    selector: 'edge.path-edge',
+    style: {
+      'width': 3,
+      'line-color': 'rgba(246, 178, 107, 0.85)',
+      'target-arrow-color': '#F6B26B',
+    },
+  },
+  // Findings: a halo behind the node in the colour of its most severe finding
+  {
+    selector: 'node.finding-error, node.finding-warning, node.finding-info',
+    style: {
+      'underlay-padding': 7,
+      'underlay-opacity': 0.35,
+      'underlay-shape': 'ellipse',
+    },
+  },
+  {
+    selector: 'node.finding-error',
+    style: {
+      'underlay-color': '#ff6b6b',
+    },
+  },
+  {
+    selector: 'node.finding-warning',
+    style: {
+      'underlay-color': '#F6B26B',
+    },
+  },
+  {
+    selector: 'node.finding-info',
+    style: {
+      'underlay-color': '#4FACFE',
+    },
+  },
+  // Nodes on the source line a program slice started from
+  {
+    selector: 'node[slice="seed"]',
+    style: {
+      'border-width': 3,
+      'border-color': '#F6B26B',
+      'background-color': 'rgba(246, 178, 107, 0.2)',
+    },
+  },
+  // Taint paths: where untrusted data enters and the sink it reaches
+  {
+    selector: 'node[taint="source"]',
+    style: {
+      'border-width': 3,
+      'border-color': '#7EE787',
+      'background-color': 'rgba(126, 231, 135, 0.16)',
+    },
+  },
+  {
+    selector: 'node[taint="sanitized"]',
+    style: {
+      'border-color': '#4FACFE',
+    },
+  },
+  {
+    selector: 'node[taint="sink_reached"]',
+    style: {
+      'border-width': 3,
+      'border-color': '#ff6b6b',
+      'background-color': 'rgba(255, 107, 107, 0.16)',
+    },
+  },
+  // Snapshot diffs: functions and calls that appeared, disappeared or changed their metrics
+  {
+    selector: 'node[diff="added"]',
+    style: {
+      'border-width': 3,
+      'border-color': '#7EE787',
+      'background-color': 'rgba(126, 231, 135, 0.16)',
+    },
+  },
+  {
+    selector: 'node[diff="removed"]',
+    style: {
+      'border-width': 3,
+      'border-style': 'dashed',
+      'border-color': '#ff6b6b',
+      'opacity': 0.6,
+    },
+  },
+  {
+    selector: 'node[diff="changed"]',
+    style: {
+      'border-width': 3,
+      'border-color': '#F6B26B',
+    },
+  },
+  {
+    selector: 'edge[diff="added"]',
+    style: {
+      'line-color': '#7EE787',
+      'target-arrow-color': '#7EE787',
+    },
+  },
+  {
+    selector: 'edge[diff="removed"]',
+    style: {
+      'line-color': '#ff6b6b',
+      'target-arrow-color': '#ff6b6b',
+      'line-style': 'dashed',
+      'opacity': 0.6,
+    },
+  },
 ];
+
+export function buildGraphStylesheet(metricRules: ReturnType<typeof buildMetricStylesheet> = []) {
+  return [...nodeTypeStylesheet, ...metricRules, ...stateStylesheet];
+}
+
+export const graphStylesheet = buildGraphStylesheet();
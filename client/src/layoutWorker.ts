@@ -0,0 +1,7 @@
+import { computeLayout, type LayoutRequest, type LayoutResult } from './utils/graphLayout';
+
+// Lays out graphs off the main thread, so a large force-directed layout does not freeze the page
+self.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  const result: LayoutResult = { id: event.data.id, positions: computeLayout(event.data) };
+  self.postMessage(result);
+};
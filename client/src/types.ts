@@ -1,14 +1,49 @@
 // API Response Types
 
-export type FunctionRow = {
-  id: number;
+export type SymbolKind = 'function' | 'method' | 'type' | 'field' | 'const' | 'var';
+
+export type SymbolResult = {
+  id: string;
   name: string;
+  kind: SymbolKind;
+  package: string | null;
+  file: string | null;
+  line: number | null;
+  signature: string | null;
+};
+
+export type SymbolPage = {
+  total: number;
+  offset: number;
+  limit: number;
+  symbols: SymbolResult[];
 };
 
 export type GraphNode = {
   data: {
     id: string;
     label: string;
+    kind?: string;
+    // Compound parent, e.g. the package node around its functions
+    parent?: string;
+    package?: string | null;
+    file?: string | null;
+    // Collapsed cluster: how many nodes it stands for
+    count?: number;
+    line?: number | null;
+    end_line?: number | null;
+    cyclomatic_complexity?: number;
+    fan_in?: number;
+    fan_out?: number;
+    loc?: number;
+    num_params?: number;
+    // Taint flow label of a node on a taint path
+    taint?: TaintLabel | null;
+    // Marks the nodes a program slice started from
+    slice?: 'seed';
+    // Snapshot diff: how the function differs from the base database
+    diff?: DiffStatus;
+    metric_deltas?: Partial<Record<NodeMetric, number>>;
   };
 };
 
@@ -17,17 +52,480 @@ export type GraphEdge = {
     id: string;
     source: string;
     target: string;
+    kind?: string;
+    label?: string;
+    weight?: number;
+    // Communication topology: the protocol an edge stands for
+    protocol?: string;
+    transport?: string | null;
+    encoding?: string | null;
+    diff?: DiffStatus;
   };
 };
 
 export type GraphResponse = {
   nodes: GraphNode[];
   edges: GraphEdge[];
+  truncated?: boolean;
+  paths?: string[][];
+};
+
+// One in-place expansion step: the node double-clicked and the neighborhood fetched for it
+export type GraphExpansion = {
+  nodeId: string;
+  label: string;
+  graph: GraphResponse;
+};
+
+// What the nodes of a neighborhood are grouped by
+export type ClusterMode = 'none' | 'package' | 'file';
+
+export type GraphDirection = 'callers' | 'callees' | 'both';
+
+export type GraphView = 'dashboard' | 'neighborhood' | 'path' | 'cfg' | 'query' | 'packages' | 'taint' | 'type' | 'comm' | 'slice' | 'diff';
+
+// How node positions are computed; 'hierarchical' puts callers above callees
+export type GraphLayout = 'force' | 'hierarchical' | 'concentric' | 'breadthfirst' | 'grid';
+
+export type LineRange = {
+  start: number;
+  end: number;
+};
+
+export type GraphOptions = {
+  depth: number;
+  direction: GraphDirection;
+  edgeKinds: string[];
+};
+
+// k shortest call paths, none longer than depth calls
+export type PathOptions = {
+  count: number;
+  depth: number;
+};
+
+export type EdgeKindRow = {
+  kind: string;
+  count: number;
+};
+
+export type StoredQuery = {
+  name: string;
+  description: string;
+  params: string[];
+};
+
+export type QueryResult = {
+  name: string;
+  columns: string[];
+  rows: unknown[][];
+  truncated: boolean;
+  elapsed_ms: number;
+  graph?: GraphResponse;
+};
+
+export type QueryDisplay = 'table' | 'graph';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export type Finding = {
+  id: number;
+  category: string;
+  severity: FindingSeverity;
+  node_id: string | null;
+  file: string | null;
+  line: number | null;
+  message: string;
+  details: string | null;
+  package: string | null;
+};
+
+export type FindingsPage = {
+  findings: Finding[];
+  total: number;
+  offset: number;
+  limit: number;
+};
+
+export type FindingFilters = {
+  category: string;
+  severity: string;
+  package: string;
+  file: string;
+};
+
+export type FacetCount = {
+  value: string;
+  count: number;
+};
+
+export type FindingFacets = {
+  categories: FacetCount[];
+  severities: FacetCount[];
+  packages: FacetCount[];
+};
+
+export type NodeFindingSummary = {
+  severity: FindingSeverity;
+  count: number;
+};
+
+export type NodeMetric = 'cyclomatic_complexity' | 'fan_in' | 'fan_out' | 'loc' | 'num_params';
+
+export type MetricEncoding = {
+  size: NodeMetric | null;
+  color: NodeMetric | null;
+};
+
+// File-level git statistics a function node can be tinted by
+export type GitMetric = 'churn' | 'commit_count' | 'change_risk_score';
+
+export type NodeGitStats = Record<GitMetric, number>;
+
+export type FileGitHistory = {
+  file: string;
+  commit_count: number;
+  author_count: number;
+  last_author: string | null;
+  last_date: string | null;
+  insertions: number;
+  deletions: number;
+  churn: number;
+  change_risk_score: number | null;
+};
+
+export type KindCount = {
+  kind: string;
+  count: number;
+};
+
+export type DashboardOverview = {
+  overview: Record<string, number | string>;
+  node_kinds: KindCount[];
+  edge_kinds: KindCount[];
+};
+
+// One CPG database the server has open; stats is its stats_overview row when present
+export type DatabaseInfo = {
+  id: string;
+  path: string;
+  stats: Record<string, number> | null;
+};
+
+export type ComplexityBucket = {
+  bucket: string;
+  bucket_min: number;
+  bucket_max: number;
+  function_count: number;
+};
+
+export type PackageSummary = {
+  package: string;
+  file_count: number;
+  function_count: number;
+  total_loc: number;
+  total_complexity: number;
+  avg_complexity: number;
+  max_complexity: number;
+  type_count: number;
+  interface_count: number;
+};
+
+export type DashboardMetric = 'complexity' | 'loc' | 'fan_in' | 'fan_out';
+
+export type TopFunction = {
+  rank: number;
+  function_id: string;
+  name: string;
+  package: string | null;
+  file: string | null;
+  value: number;
+};
+
+export type Hotspot = {
+  function_id: string;
+  name: string;
+  package: string | null;
+  file: string | null;
+  complexity: number | null;
+  loc: number | null;
+  fan_in: number | null;
+  fan_out: number | null;
+  finding_count: number | null;
+  hotspot_score: number;
+};
+
+export type FileHeat = {
+  file: string;
+  package: string | null;
+  function_count: number;
+  total_loc: number;
+  total_complexity: number;
+  max_complexity: number;
+  avg_complexity: number;
+  finding_count: number;
+  hotspot_score: number;
+};
+
+export type DashboardData = {
+  overview: DashboardOverview;
+  complexity: ComplexityBucket[];
+  packages: PackageSummary[];
+  hotspots: Hotspot[];
+  files: FileHeat[];
 };
 
+export type Usage = {
+  use_id: string;
+  line: number | null;
+  use_kind: string | null;
+};
+
+export type UsageFunctionGroup = {
+  function_id: string | null;
+  function_name: string | null;
+  usages: Usage[];
+};
+
+export type UsageFileGroup = {
+  file: string;
+  count: number;
+  functions: UsageFunctionGroup[];
+};
+
+export type UsagesResponse = {
+  definition: {
+    id: string;
+    name: string;
+    kind: string;
+    file: string | null;
+    line: number | null;
+  };
+  total: number;
+  truncated: boolean;
+  files: UsageFileGroup[];
+};
+
+export type SourceFile = {
+  file: string;
+  // Number of file_outline entries in the file
+  symbols: number;
+};
+
+export type SourcePackage = {
+  package: string;
+  files: SourceFile[];
+};
+
+export type OutlineEntry = {
+  id: string;
+  name: string;
+  kind: string;
+  line: number | null;
+  end_line: number | null;
+  signature: string | null;
+  parent_id: string | null;
+  depth: number;
+  children: OutlineEntry[];
+};
+
+export type FileOutline = {
+  file: string;
+  package: string | null;
+  entries: OutlineEntry[];
+};
+
+export type TaintLabel = 'source' | 'propagated' | 'sanitized' | 'sink_reached';
+
+export type TaintFlowCount = {
+  label: TaintLabel;
+  source_category: string | null;
+  node_count: number;
+};
+
+export type TaintSummary = {
+  flows: TaintFlowCount[];
+  sink_categories: FacetCount[];
+};
+
+export type TaintSink = {
+  sink_id: string;
+  sink_name: string;
+  file: string | null;
+  line: number | null;
+  sink_category: string;
+  description: string | null;
+  source_id: string;
+  source_name: string;
+  source_file: string | null;
+  source_line: number | null;
+  source_category: string | null;
+  hops: number;
+  function_id: string | null;
+  function_name: string | null;
+};
+
+export type TaintSinksPage = {
+  total: number;
+  truncated: boolean;
+  sinks: TaintSink[];
+};
+
+export type TaintHotspot = {
+  id: string;
+  name: string;
+  package: string | null;
+  file: string | null;
+  line: number | null;
+  source_categories: string | null;
+  sink_categories: string | null;
+};
+
+export type TaintHop = {
+  id: string;
+  name: string | null;
+  kind: string;
+  file: string | null;
+  line: number | null;
+  end_line: number | null;
+  taint: TaintLabel | null;
+  function_name: string | null;
+};
+
+export type TaintPathResponse = GraphResponse & {
+  hops: TaintHop[];
+};
+
+export type SidebarTab = 'functions' | 'files' | 'queries' | 'findings' | 'taint';
+
 export type SourceResponse = {
   file_name: string;
   start_line: number;
   end_line: number;
   code: string;
+  // Full-file responses: the node's own lines within `code`
+  range?: LineRange;
+};
+
+export type TypeRelation = {
+  id: string;
+  name: string;
+  package: string | null;
+  method_count?: number | null;
+};
+
+export type TypeMethod = {
+  id: string;
+  name: string;
+  signature: string | null;
+  file: string | null;
+  line: number | null;
+  complexity: number | null;
+  loc: number | null;
+  // Interface methods are fields with no call graph of their own
+  kind: 'function' | 'field';
+};
+
+export type TypeDetail = GraphResponse & {
+  type: {
+    id: string;
+    name: string;
+    package: string | null;
+    file: string | null;
+    line: number | null;
+    signature: string | null;
+    type_kind: string | null;
+  };
+  implementors: TypeRelation[];
+  interfaces: TypeRelation[];
+  embeds: TypeRelation[];
+  embedded_by: TypeRelation[];
+  methods: TypeMethod[];
+};
+
+export type CommProtocol = {
+  id: string;
+  name: string;
+  description: string | null;
+  // Honda session type from the client's point of view, and its dual for the server
+  session_type_client: string | null;
+  session_type_server: string | null;
+  transport: string | null;
+  encoding: string | null;
+  pattern: string | null;
+  is_dual: boolean;
+};
+
+export type CommParticipant = {
+  component: string;
+  role: 'client' | 'server' | 'contract';
+  description: string | null;
+  status: 'conforming' | 'partial' | 'missing' | 'violation' | null;
+  endpoints_found: number | null;
+  endpoints_expected: number | null;
+  details: string | null;
+};
+
+export type CommStep = {
+  step_order: number;
+  participant: string;
+  direction: string;
+  message_type: string;
+  payload_encoding: string | null;
+  description: string | null;
+};
+
+export type CommEndpoint = {
+  id: number;
+  component: string;
+  role: string;
+  endpoint_type: string;
+  function_id: string | null;
+  function_name: string | null;
+  package: string | null;
+  file: string | null;
+  line: number | null;
+  url_path: string | null;
+  http_method: string | null;
+  confidence: number;
+};
+
+export type CommProtocolDetail = {
+  protocol: CommProtocol;
+  participants: CommParticipant[];
+  steps: CommStep[];
+  endpoints: CommEndpoint[];
+};
+
+export type SliceDirection = 'backward' | 'forward';
+
+export type SliceResponse = GraphResponse & {
+  file: string;
+  line: number;
+  direction: SliceDirection;
+  depth: number;
+  seeds: string[];
+  // Lines of the requested file the slice touches
+  lines: number[];
+  timed_out?: boolean;
+};
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export type DiffSummary = {
+  added_functions: number;
+  removed_functions: number;
+  changed_functions: number;
+  added_edges: number;
+  removed_edges: number;
+};
+
+// Diff of the selected database (head) against base, over a function neighborhood or a package
+export type DiffResponse = GraphResponse & {
+  base: string;
+  head: string;
+  id?: string;
+  package: string | null;
+  depth?: number;
+  summary: DiffSummary;
 };
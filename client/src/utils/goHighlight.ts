@@ -0,0 +1,125 @@
+export type GoTokenKind = 'keyword' | 'type' | 'builtin' | 'string' | 'number' | 'comment' | 'function';
+
+export type GoToken = {
+  text: string;
+  kind: GoTokenKind | null;
+};
+
+const KEYWORDS = new Set([
+  'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for',
+  'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return',
+  'select', 'struct', 'switch', 'type', 'var',
+]);
+
+const TYPES = new Set([
+  'any', 'bool', 'byte', 'comparable', 'complex64', 'complex128', 'error', 'float32', 'float64',
+  'int', 'int8', 'int16', 'int32', 'int64', 'rune', 'string',
+  'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'uintptr',
+]);
+
+const BUILTINS = new Set([
+  'append', 'cap', 'clear', 'close', 'complex', 'copy', 'delete', 'imag', 'len', 'make', 'max',
+  'min', 'new', 'panic', 'print', 'println', 'real', 'recover', 'true', 'false', 'nil', 'iota',
+]);
+
+const IDENTIFIER = /[\p{L}_][\p{L}\p{N}_]*/uy;
+const CALL_PAREN = /[ \t]*\(/y;
+const NUMBER = /(?:0[xX][\da-fA-F_]*(?:\.[\da-fA-F_]*)?(?:[pP][+-]?\d+)?|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?)i?/y;
+
+/**
+ * Split Go source into lines of highlighted tokens. The whole file is scanned at once so that
+ * block comments and raw strings spanning several lines keep their colour on every line.
+ */
+export function highlightGo(code: string): GoToken[][] {
+  const lines: GoToken[][] = [[]];
+
+  const push = (text: string, kind: GoTokenKind | null) => {
+    text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part === '') return;
+      const line = lines[lines.length - 1];
+      const last = line[line.length - 1];
+      if (last && last.kind === kind) {
+        last.text += part;
+      } else {
+        line.push({ text: part, kind });
+      }
+    });
+  };
+
+  // End index (exclusive) of `marker` searched from `from`, or the end of the code
+  const endOf = (marker: string, from: number) => {
+    const index = code.indexOf(marker, from);
+    return index === -1 ? code.length : index + marker.length;
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i];
+    const next = code[i + 1];
+
+    if (ch === '/' && next === '/') {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      push(code.slice(i, stop), 'comment');
+      i = stop;
+      continue;
+    }
+
+    if (ch === '/' && next === '*') {
+      const stop = endOf('*/', i + 2);
+      push(code.slice(i, stop), 'comment');
+      i = stop;
+      continue;
+    }
+
+    if (ch === '`') {
+      const stop = endOf('`', i + 1);
+      push(code.slice(i, stop), 'string');
+      i = stop;
+      continue;
+    }
+
+    if (ch === '"' || ch === '\'') {
+      // Interpreted strings and runes end at the closing quote or, if unterminated, the line end
+      let j = i + 1;
+      while (j < code.length && code[j] !== ch && code[j] !== '\n') {
+        j += code[j] === '\\' ? 2 : 1;
+      }
+      const stop = Math.min(code[j] === ch ? j + 1 : j, code.length);
+      push(code.slice(i, stop), 'string');
+      i = stop;
+      continue;
+    }
+
+    if (/\d/.test(ch) || (ch === '.' && next !== undefined && /\d/.test(next))) {
+      NUMBER.lastIndex = i;
+      const match = NUMBER.exec(code);
+      if (match && match[0].length > 0) {
+        push(match[0], 'number');
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    IDENTIFIER.lastIndex = i;
+    const identifier = IDENTIFIER.exec(code);
+    if (identifier) {
+      const word = identifier[0];
+      CALL_PAREN.lastIndex = i + word.length;
+      let kind: GoTokenKind | null = null;
+      if (KEYWORDS.has(word)) kind = 'keyword';
+      else if (TYPES.has(word)) kind = 'type';
+      else if (BUILTINS.has(word)) kind = 'builtin';
+      else if (CALL_PAREN.test(code)) kind = 'function';
+      push(word, kind);
+      i += word.length;
+      continue;
+    }
+
+    push(ch, null);
+    i += 1;
+  }
+
+  return lines;
+}
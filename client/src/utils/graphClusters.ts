@@ -0,0 +1,118 @@
+import type { ClusterMode, GraphEdge, GraphNode, GraphResponse } from '../types';
+
+const CLUSTER_PREFIX = 'cluster::';
+
+export const isClusterId = (id: string) => id.startsWith(CLUSTER_PREFIX);
+
+// External functions have no file and a package of their own, so they share one cluster
+function clusterKey(node: GraphNode, mode: ClusterMode): string | null {
+  if (mode === 'none' || node.data.parent) return null;
+  if (node.data.id.startsWith('ext::')) return 'external';
+  return (mode === 'package' ? node.data.package : node.data.file) ?? null;
+}
+
+export type ClusterOptions = {
+  // Clusters the user opened (true) or closed (false) by hand
+  overrides: Record<string, boolean>;
+  // Nodes that must stay visible, such as the function the neighborhood is centred on
+  keep: string[];
+  maxNodes: number;
+  collapseSize: number;
+};
+
+/**
+ * Group nodes that share a package or file into compound parents. A cluster larger than
+ * `collapseSize` is drawn collapsed, as one summary node with its member count, and further
+ * clusters collapse, largest first, while the graph has more than `maxNodes` nodes. Hand
+ * overrides win over both rules, and a cluster holding a kept node never collapses on its own.
+ * Edges into a collapsed cluster are redirected to its summary node and merged, with the merged
+ * count as their weight. Kept nodes, after their parents, lead the node list, so a caller that
+ * draws only the first nodes still draws them.
+ */
+export function clusterGraph(graph: GraphResponse, mode: ClusterMode, options: ClusterOptions): GraphResponse {
+  const groups = new Map<string, GraphNode[]>();
+  const loose: GraphNode[] = [];
+  graph.nodes.forEach((node) => {
+    const key = clusterKey(node, mode);
+    if (key === null) {
+      loose.push(node);
+    } else {
+      groups.set(key, [...(groups.get(key) ?? []), node]);
+    }
+  });
+  // A box around a single node adds nothing
+  groups.forEach((members, key) => {
+    if (members.length === 1) {
+      loose.push(members[0]);
+      groups.delete(key);
+    }
+  });
+  if (groups.size === 0) return graph;
+
+  const keep = new Set(options.keep);
+  const clusterId = (key: string) => `${CLUSTER_PREFIX}${key}`;
+  const automatic = (key: string) =>
+    options.overrides[clusterId(key)] === undefined && !(groups.get(key) ?? []).some((node) => keep.has(node.data.id));
+
+  const collapsed = new Set<string>();
+  groups.forEach((members, key) => {
+    const override = options.overrides[clusterId(key)];
+    if (override === false || (automatic(key) && members.length > options.collapseSize)) {
+      collapsed.add(key);
+    }
+  });
+
+  // Open clusters count their members plus the compound parent
+  const size = () => loose.length + Array.from(groups).reduce(
+    (total, [key, members]) => total + (collapsed.has(key) ? 1 : members.length + 1), 0);
+  const candidates = Array.from(groups.keys())
+    .filter((key) => !collapsed.has(key) && automatic(key))
+    .sort((a, b) => (groups.get(b) ?? []).length - (groups.get(a) ?? []).length);
+  while (size() > options.maxNodes && candidates.length > 0) {
+    collapsed.add(candidates.shift() as string);
+  }
+
+  const representative = new Map<string, string>();
+  const parents: GraphNode[] = [];
+  const children: GraphNode[] = [];
+  groups.forEach((members, key) => {
+    const id = clusterId(key);
+    if (collapsed.has(key)) {
+      members.forEach((node) => representative.set(node.data.id, id));
+      parents.push({ data: { id, label: `${key} (${members.length})`, kind: 'cluster', count: members.length } });
+    } else {
+      parents.push({ data: { id, label: key, kind: 'cluster' } });
+      members.forEach((node) => children.push({ data: { ...node.data, parent: id } }));
+    }
+  });
+
+  // Parents come before their children so that cutting the node list short never orphans a child
+  const kept = [...children, ...loose].filter((node) => keep.has(node.data.id));
+  const keptParents = new Set(kept.map((node) => node.data.parent).filter(Boolean));
+  const nodes = [
+    ...parents.filter((node) => keptParents.has(node.data.id)),
+    ...kept,
+    ...parents.filter((node) => !keptParents.has(node.data.id)),
+    ...children.filter((node) => !keep.has(node.data.id)),
+    ...loose.filter((node) => !keep.has(node.data.id)),
+  ];
+
+  const edges = new Map<string, GraphEdge>();
+  graph.edges.forEach((edge) => {
+    const source = representative.get(edge.data.source) ?? edge.data.source;
+    const target = representative.get(edge.data.target) ?? edge.data.target;
+    if (source === edge.data.source && target === edge.data.target) {
+      edges.set(edge.data.id, edge);
+      return;
+    }
+    // Calls within one collapsed cluster are summarised by its count
+    if (source === target) return;
+    const id = `${edge.data.kind ?? 'call'}:${source}->${target}`;
+    const merged = edges.get(id);
+    edges.set(id, {
+      data: { id, source, target, kind: edge.data.kind, weight: (merged?.data.weight ?? 0) + (edge.data.weight ?? 1) },
+    });
+  });
+
+  return { ...graph, nodes, edges: Array.from(edges.values()) };
+}
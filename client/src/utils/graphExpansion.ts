@@ -0,0 +1,54 @@
+import type { GraphEdge, GraphExpansion, GraphNode, GraphResponse } from '../types';
+
+// Responses number their edges from zero, so merged edges are keyed by what they connect instead
+const edgeKey = (edge: GraphEdge) => `${edge.data.kind ?? 'call'}:${edge.data.source}->${edge.data.target}`;
+
+/**
+ * Union of several graphs. Nodes keep the data of their first appearance and edges are
+ * deduplicated by kind and endpoints; past `maxNodes` further nodes are dropped and the result
+ * is marked truncated.
+ */
+export function mergeGraphs(graphs: GraphResponse[], maxNodes: number): GraphResponse {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  let truncated = false;
+
+  graphs.forEach((graph) => {
+    truncated = truncated || !!graph.truncated;
+    graph.nodes.forEach((node) => {
+      if (nodes.has(node.data.id)) return;
+      if (nodes.size >= maxNodes) {
+        truncated = true;
+        return;
+      }
+      nodes.set(node.data.id, node);
+    });
+    graph.edges.forEach((edge) => {
+      const id = edgeKey(edge);
+      if (!edges.has(id) && nodes.has(edge.data.source) && nodes.has(edge.data.target)) {
+        edges.set(id, { data: { ...edge.data, id } });
+      }
+    });
+  });
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()), truncated };
+}
+
+/**
+ * Replay expansion steps on top of the graph they started from. A step whose node is no longer
+ * in the graph is dropped, so collapsing one step also collapses the steps that grew out of it.
+ */
+export function applyExpansions(
+  base: GraphResponse,
+  expansions: GraphExpansion[],
+  maxNodes: number,
+): { graph: GraphResponse; expansions: GraphExpansion[] } {
+  let graph = mergeGraphs([base], maxNodes);
+  const applied: GraphExpansion[] = [];
+  expansions.forEach((expansion) => {
+    if (!graph.nodes.some((node) => node.data.id === expansion.nodeId)) return;
+    graph = mergeGraphs([graph, expansion.graph], maxNodes);
+    applied.push(expansion);
+  });
+  return { graph, expansions: applied };
+}
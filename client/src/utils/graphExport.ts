@@ -0,0 +1,95 @@
+import type cytoscape from 'cytoscape';
+import { xmlEscape } from '../../shared/graphExport';
+
+// The text formats are written by the same serializers as the API's ?format= responses
+export { graphToDot, graphToGraphML, graphToMermaid } from '../../shared/graphExport';
+
+export type GraphExportFormat = 'png' | 'svg' | 'dot' | 'graphml' | 'mermaid' | 'json';
+
+// Exports are read outside the app, so they get an opaque background close to the canvas colour
+export const EXPORT_BACKGROUND = '#0b0f14';
+
+const px = (value: string | undefined) => parseFloat(value ?? '') || 0;
+
+/**
+ * Redraw the current Cytoscape view as SVG from its rendered model: node shapes, colours and
+ * labels as styled, and edges as straight lines between their endpoints. Curved edges lose their
+ * curve, which keeps the output small and editable in a vector tool.
+ */
+export function cytoscapeToSvg(cy: cytoscape.Core): string {
+  const padding = 20;
+  const box = cy.elements(':visible').boundingBox({});
+  const width = Math.ceil(box.w + padding * 2);
+  const height = Math.ceil(box.h + padding * 2);
+  const x = (value: number) => (value - box.x1 + padding).toFixed(1);
+  const y = (value: number) => (value - box.y1 + padding).toFixed(1);
+
+  const markers = new Map<string, string>();
+  const marker = (color: string) => {
+    if (!markers.has(color)) markers.set(color, `arrow${markers.size}`);
+    return markers.get(color) as string;
+  };
+
+  const edges = cy.edges(':visible').map((edge) => {
+    const source = edge.sourceEndpoint();
+    const target = edge.targetEndpoint();
+    const color = edge.style('line-color');
+    const dashed = edge.style('line-style') === 'dashed' ? ' stroke-dasharray="6 4"' : '';
+    const arrow = edge.style('target-arrow-shape') !== 'none' ? ` marker-end="url(#${marker(color)})"` : '';
+    const label = edge.style('label');
+    return [
+      `<line x1="${x(source.x)}" y1="${y(source.y)}" x2="${x(target.x)}" y2="${y(target.y)}" stroke="${color}" stroke-width="${px(edge.style('width'))}" opacity="${edge.style('opacity')}"${dashed}${arrow}/>`,
+      label
+        ? `<text x="${x((source.x + target.x) / 2)}" y="${y((source.y + target.y) / 2)}" fill="${edge.style('color')}" font-size="${px(edge.style('font-size'))}" text-anchor="middle">${xmlEscape(label)}</text>`
+        : '',
+    ].join('');
+  });
+
+  const drawNode = (node: cytoscape.NodeSingular) => {
+    const position = node.position();
+    const w = node.outerWidth() - px(node.style('border-width'));
+    const h = node.outerHeight() - px(node.style('border-width'));
+    const paint = [
+      `fill="${node.style('background-color')}"`,
+      `fill-opacity="${node.style('background-opacity')}"`,
+      `stroke="${node.style('border-color')}"`,
+      `stroke-width="${px(node.style('border-width'))}"`,
+      `opacity="${node.style('opacity')}"`,
+      node.style('border-style') === 'dashed' ? 'stroke-dasharray="6 4"' : '',
+    ].join(' ');
+    const shape = node.style('shape') === 'ellipse'
+      ? `<ellipse cx="${x(position.x)}" cy="${y(position.y)}" rx="${(w / 2).toFixed(1)}" ry="${(h / 2).toFixed(1)}" ${paint}/>`
+      : `<rect x="${x(position.x - w / 2)}" y="${y(position.y - h / 2)}" width="${w.toFixed(1)}" height="${h.toFixed(1)}" rx="${node.style('shape') === 'rectangle' ? 0 : 6}" ${paint}/>`;
+    const label = node.style('label');
+    const valign = node.style('text-valign');
+    const labelY = valign === 'top' ? position.y - h / 2 - 4 : valign === 'bottom' ? position.y + h / 2 + 12 : position.y + 4;
+    return shape + (label
+      ? `<text x="${x(position.x)}" y="${y(labelY)}" fill="${node.style('color')}" font-size="${px(node.style('font-size'))}" text-anchor="middle">${xmlEscape(label)}</text>`
+      : '');
+  };
+  const nodes = cy.nodes(':visible');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">`,
+    '<defs>',
+    ...Array.from(markers).map(([color, id]) =>
+      `<marker id="${id}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="${color}"/></marker>`),
+    '</defs>',
+    `<rect width="100%" height="100%" fill="${EXPORT_BACKGROUND}"/>`,
+    // Compound parents go below the edges and their children on top
+    ...nodes.filter((node) => node.isParent()).map(drawNode),
+    ...edges,
+    ...nodes.filter((node) => !node.isParent()).map(drawNode),
+    '</svg>',
+  ].join('\n') + '\n';
+}
+
+export function downloadFile(fileName: string, content: Blob | string, type: string) {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,242 @@
+import cytoscape from 'cytoscape';
+import type { GraphLayout } from '../types';
+
+export type LayoutNode = {
+  id: string;
+  parent?: string;
+  width: number;
+  height: number;
+  position: cytoscape.Position;
+  // Dragged by hand: keeps its position whatever the layout
+  pinned: boolean;
+};
+
+export type LayoutEdge = {
+  id: string;
+  source: string;
+  target: string;
+};
+
+// Everything a layout needs, as plain data so it can be posted to a worker
+export type LayoutRequest = {
+  id: number;
+  layout: GraphLayout;
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+  // The node the graph was opened on: centre of the concentric layout, top of the trees
+  rootId: string | null;
+  width: number;
+  height: number;
+};
+
+export type LayoutResult = {
+  id: number;
+  positions: Record<string, cytoscape.Position>;
+};
+
+const FORCE_LAYOUT_CONFIG = {
+  name: 'cose',
+  idealEdgeLength: 100,
+  nodeOverlap: 20,
+  refresh: 20,
+  fit: true,
+  padding: 30,
+  randomize: false,
+  componentSpacing: 100,
+  nodeRepulsion: 4000000,
+  edgeElasticity: 100,
+  nestingFactor: 5,
+  gravity: 80,
+  numIter: 1000,
+  initialTemp: 200,
+  coolingFactor: 0.95,
+  minTemp: 1.0,
+} as const;
+
+const LAYER_GAP = 110;
+const NODE_GAP = 30;
+const COMPONENT_GAP = 80;
+
+/**
+ * Layered top-down positions: starting from the root, each edge puts its target one layer below
+ * its source, so callers sit above the function and callees below it. Nodes within a layer are
+ * ordered by the mean position of their neighbors in the layer above, and unconnected parts of
+ * the graph are laid out side by side.
+ */
+export function layeredPositions(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  rootId: string | null,
+): Record<string, cytoscape.Position> {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target || !byId.has(edge.source) || !byId.has(edge.target)) return;
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge.target]);
+    incoming.set(edge.target, [...(incoming.get(edge.target) ?? []), edge.source]);
+  });
+
+  const seeds = [
+    ...(rootId && byId.has(rootId) ? [rootId] : []),
+    ...nodes.filter(node => !incoming.has(node.id)).map(node => node.id),
+    ...nodes.map(node => node.id),
+  ];
+  const rank = new Map<string, number>();
+  const positions: Record<string, cytoscape.Position> = {};
+  let offset = 0;
+
+  seeds.forEach(seed => {
+    if (rank.has(seed)) return;
+    // Breadth-first over both directions collects one connected component with its ranks
+    const component = [seed];
+    rank.set(seed, 0);
+    for (let i = 0; i < component.length; i++) {
+      const id = component[i];
+      const current = rank.get(id) as number;
+      (outgoing.get(id) ?? []).forEach(target => {
+        if (rank.has(target)) return;
+        rank.set(target, current + 1);
+        component.push(target);
+      });
+      (incoming.get(id) ?? []).forEach(source => {
+        if (rank.has(source)) return;
+        rank.set(source, current - 1);
+        component.push(source);
+      });
+    }
+
+    const layers = new Map<number, string[]>();
+    component.forEach(id => {
+      const layer = rank.get(id) as number;
+      layers.set(layer, [...(layers.get(layer) ?? []), id]);
+    });
+    const ranks = Array.from(layers.keys()).sort((a, b) => a - b);
+
+    const order = new Map<string, number>();
+    ranks.forEach((layer, index) => {
+      const members = layers.get(layer) as string[];
+      if (index > 0) {
+        const barycenter = (id: string) => {
+          const above = [...(incoming.get(id) ?? []), ...(outgoing.get(id) ?? [])]
+            .filter(other => rank.get(other) === layer - 1)
+            .map(other => order.get(other) as number);
+          return above.length > 0 ? above.reduce((sum, value) => sum + value, 0) / above.length : Infinity;
+        };
+        const keys = new Map(members.map(id => [id, barycenter(id)]));
+        members.sort((a, b) => (keys.get(a) as number) - (keys.get(b) as number));
+      }
+      members.forEach((id, position) => order.set(id, position));
+    });
+
+    const layerWidth = (members: string[]) =>
+      members.reduce((total, id) => total + (byId.get(id) as LayoutNode).width, 0) + NODE_GAP * (members.length - 1);
+    const componentWidth = Math.max(...ranks.map(layer => layerWidth(layers.get(layer) as string[])));
+    ranks.forEach(layer => {
+      const members = layers.get(layer) as string[];
+      let x = offset + (componentWidth - layerWidth(members)) / 2;
+      members.forEach(id => {
+        const width = (byId.get(id) as LayoutNode).width;
+        positions[id] = { x: x + width / 2, y: (layer - ranks[0]) * LAYER_GAP };
+        x += width + NODE_GAP;
+      });
+    });
+    offset += componentWidth + COMPONENT_GAP;
+  });
+
+  return positions;
+}
+
+// Hops from the root over edges in either direction; nodes out of reach come last
+function hopsFrom(rootId: string, nodes: LayoutNode[], edges: LayoutEdge[]) {
+  const hops = new Map([[rootId, 0]]);
+  const queue = [rootId];
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    edges.forEach(edge => {
+      const other = edge.source === id ? edge.target : edge.target === id ? edge.source : null;
+      if (other && !hops.has(other)) {
+        hops.set(other, (hops.get(id) as number) + 1);
+        queue.push(other);
+      }
+    });
+  }
+  const farthest = Math.max(...Array.from(hops.values())) + 1;
+  nodes.forEach(node => {
+    if (!hops.has(node.id)) hops.set(node.id, farthest);
+  });
+  return hops;
+}
+
+/**
+ * Compute node positions for a layout on a headless Cytoscape instance sized like the rendered
+ * nodes, so it can run in a worker. Pinned nodes are locked where they are and returned unchanged.
+ */
+export function computeLayout(request: LayoutRequest): Record<string, cytoscape.Position> {
+  const parentIds = new Set(request.nodes.map(node => node.parent).filter(Boolean));
+  const leaves = request.nodes.filter(node => !parentIds.has(node.id));
+  const rootId = request.rootId && request.nodes.some(node => node.id === request.rootId) ? request.rootId : null;
+
+  let positions: Record<string, cytoscape.Position>;
+  if (request.layout === 'hierarchical') {
+    positions = layeredPositions(leaves, request.edges, rootId);
+  } else {
+    const cy = cytoscape({
+      headless: true,
+      styleEnabled: true,
+      style: [{ selector: 'node', style: { 'width': 'data(width)', 'height': 'data(height)' } }],
+      elements: {
+        nodes: request.nodes.map(node => ({
+          data: { id: node.id, parent: node.parent, width: node.width, height: node.height },
+          position: { ...node.position },
+        })),
+        edges: request.edges.map(edge => ({ data: { ...edge } })),
+      },
+    });
+    request.nodes.forEach(node => {
+      if (node.pinned) cy.getElementById(node.id).lock();
+    });
+
+    const boundingBox = { x1: 0, y1: 0, w: request.width, h: request.height };
+    const common = { animate: false, fit: false, boundingBox, padding: 30 };
+    const hops = rootId ? hopsFrom(rootId, request.nodes, request.edges) : null;
+    const options: cytoscape.LayoutOptions = (() => {
+      switch (request.layout) {
+        case 'concentric':
+          return {
+            ...common,
+            name: 'concentric',
+            avoidOverlap: true,
+            minNodeSpacing: 20,
+            levelWidth: () => 1,
+            concentric: (node: cytoscape.NodeSingular) => hops ? -(hops.get(node.id()) ?? 0) : node.degree(false),
+          };
+        case 'breadthfirst':
+          return {
+            ...common,
+            name: 'breadthfirst',
+            directed: true,
+            spacingFactor: 1.1,
+            avoidOverlap: true,
+            roots: rootId ? [rootId] : cy.nodes().roots().map(node => node.id()),
+          };
+        case 'grid':
+          return { ...common, name: 'grid', avoidOverlap: true, condense: true };
+        default:
+          return { ...FORCE_LAYOUT_CONFIG, ...common };
+      }
+    })();
+    cy.layout(options).run();
+
+    positions = {};
+    cy.nodes().forEach(node => {
+      if (!node.isParent()) positions[node.id()] = { ...node.position() };
+    });
+    cy.destroy();
+  }
+
+  request.nodes.forEach(node => {
+    if (node.pinned) positions[node.id] = node.position;
+  });
+  return positions;
+}
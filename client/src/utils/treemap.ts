@@ -0,0 +1,86 @@
+export type TreemapRect<T> = {
+  item: T;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+type Area<T> = { item: T; area: number };
+
+// Aspect ratio of the most elongated rectangle if `row` is laid along a side of length `side`
+function worstRatio<T>(row: Area<T>[], side: number): number {
+  const sum = row.reduce((total, entry) => total + entry.area, 0);
+  let worst = 0;
+  for (const entry of row) {
+    worst = Math.max(worst, (side * side * entry.area) / (sum * sum), (sum * sum) / (side * side * entry.area));
+  }
+  return worst;
+}
+
+/**
+ * Squarified treemap layout (Bruls, Huizing, van Wijk). Items with a non-positive
+ * value are left out; the returned rectangles tile `width` x `height` exactly.
+ */
+export function squarify<T>(
+  items: T[],
+  value: (item: T) => number,
+  width: number,
+  height: number
+): TreemapRect<T>[] {
+  const positive = items
+    .map((item) => ({ item, value: value(item) }))
+    .filter((entry) => entry.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const total = positive.reduce((sum, entry) => sum + entry.value, 0);
+  if (total === 0 || width <= 0 || height <= 0) return [];
+
+  const scale = (width * height) / total;
+  const areas: Area<T>[] = positive.map((entry) => ({ item: entry.item, area: entry.value * scale }));
+  const rects: TreemapRect<T>[] = [];
+  let x = 0;
+  let y = 0;
+  let w = width;
+  let h = height;
+
+  const layoutRow = (row: Area<T>[]) => {
+    const sum = row.reduce((total, entry) => total + entry.area, 0);
+    if (w >= h) {
+      // Column along the left edge of the remaining space
+      const columnWidth = sum / h;
+      let offset = y;
+      for (const entry of row) {
+        const rectHeight = entry.area / columnWidth;
+        rects.push({ item: entry.item, x, y: offset, width: columnWidth, height: rectHeight });
+        offset += rectHeight;
+      }
+      x += columnWidth;
+      w -= columnWidth;
+    } else {
+      // Row along the top edge of the remaining space
+      const rowHeight = sum / w;
+      let offset = x;
+      for (const entry of row) {
+        const rectWidth = entry.area / rowHeight;
+        rects.push({ item: entry.item, x: offset, y, width: rectWidth, height: rowHeight });
+        offset += rectWidth;
+      }
+      y += rowHeight;
+      h -= rowHeight;
+    }
+  };
+
+  let row: Area<T>[] = [];
+  for (const entry of areas) {
+    const side = Math.min(w, h);
+    if (row.length === 0 || worstRatio([...row, entry], side) <= worstRatio(row, side)) {
+      row.push(entry);
+    } else {
+      layoutRow(row);
+      row = [entry];
+    }
+  }
+  if (row.length > 0) layoutRow(row);
+
+  return rects;
+}
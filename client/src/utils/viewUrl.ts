@@ -0,0 +1,55 @@
+import { DEFAULT_EDGE_KINDS, DEFAULT_GRAPH_DEPTH, GRAPH_DIRECTIONS, MAX_GRAPH_DEPTH } from '../constants';
+import type { GraphDirection, GraphOptions } from '../types';
+
+// The part of the viewer state a link carries: what is selected and how its graph is drawn
+export type ViewUrlState = {
+  functionId: string | null;
+  nodeId: string | null;
+  query: string;
+  database: string | null;
+  graphOptions: GraphOptions;
+  focusMode: boolean;
+};
+
+/**
+ * Read viewer state from a location search string. Unknown or out-of-range values fall back to
+ * the defaults, so a hand-edited or stale link still opens.
+ */
+export function parseViewUrl(search: string): ViewUrlState {
+  const params = new URLSearchParams(search);
+
+  const depth = Number(params.get('depth'));
+  const direction = params.get('dir');
+  const kinds = (params.get('kinds') ?? '').split(',').filter((kind) => kind !== '');
+
+  return {
+    functionId: params.get('fn'),
+    nodeId: params.get('node'),
+    query: params.get('q') ?? '',
+    database: params.get('db'),
+    graphOptions: {
+      depth: Number.isInteger(depth) && depth >= 1 && depth <= MAX_GRAPH_DEPTH ? depth : DEFAULT_GRAPH_DEPTH,
+      direction: (GRAPH_DIRECTIONS as readonly string[]).includes(direction ?? '') ? direction as GraphDirection : 'both',
+      edgeKinds: kinds.length > 0 ? kinds : DEFAULT_EDGE_KINDS,
+    },
+    focusMode: params.get('focus') === '1',
+  };
+}
+
+// Build the search string for a view, leaving out defaults so links stay short
+export function buildViewUrl(view: ViewUrlState): string {
+  const params = new URLSearchParams();
+  if (view.database) params.set('db', view.database);
+  if (view.functionId) params.set('fn', view.functionId);
+  if (view.nodeId) params.set('node', view.nodeId);
+  if (view.graphOptions.depth !== DEFAULT_GRAPH_DEPTH) params.set('depth', String(view.graphOptions.depth));
+  if (view.graphOptions.direction !== 'both') params.set('dir', view.graphOptions.direction);
+  if (view.graphOptions.edgeKinds.join(',') !== DEFAULT_EDGE_KINDS.join(',')) {
+    params.set('kinds', view.graphOptions.edgeKinds.join(','));
+  }
+  if (view.focusMode) params.set('focus', '1');
+  if (view.query.trim() !== '') params.set('q', view.query);
+
+  const search = params.toString();
+  return search === '' ? '' : `?${search}`;
+}
@@ -3211,7 +3211,6 @@ CREATE TABLE git_file_history (
 CREATE VIEW v_file_risk AS
 SELECT
   fh.file,
-  fh.node_count,
   fh.function_count,
   fh.avg_complexity,
   fh.max_complexity,